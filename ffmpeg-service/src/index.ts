@@ -6,6 +6,12 @@ import { createClient } from '@supabase/supabase-js';
 import { v4 as uuid } from 'uuid';
 import fs from 'fs/promises';
 import path from 'path';
+import { TEMP_DIR, ensureTempDir } from './lib/media';
+import pipelineRoutes from './routes/pipeline';
+import kenBurnsRoutes from './routes/kenburns';
+import renderRoutes from './routes/render';
+import reframeRoutes from './routes/reframe';
+import captionRoutes from './routes/captions';
 
 const execAsync = promisify(exec);
 
@@ -14,16 +20,6 @@ app.use(cors());
 app.use(express.json());
 
 const PORT = process.env.PORT || 3001;
-const TEMP_DIR = '/tmp/ffmpeg';
-
-// Ensure temp directory exists
-async function ensureTempDir() {
-  try {
-    await fs.mkdir(TEMP_DIR, { recursive: true });
-  } catch (error) {
-    // Directory may already exist
-  }
-}
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -150,6 +146,21 @@ app.post('/pingpong', async (req: Request, res: Response) => {
   }
 });
 
+// Ken Burns still-image motion (see routes/kenburns.ts)
+app.use(kenBurnsRoutes);
+
+// Full timeline render (see routes/render.ts)
+app.use(renderRoutes);
+
+// Social aspect ratio reframing (see routes/reframe.ts)
+app.use(reframeRoutes);
+
+// Burned-in captions (see routes/captions.ts)
+app.use(captionRoutes);
+
+// Local render pipeline stages (see routes/pipeline.ts)
+app.use(pipelineRoutes);
+
 app.listen(PORT, () => {
   console.log(`FFmpeg Ping-Pong Service running on port ${PORT}`);
 });
@@ -0,0 +1,142 @@
+/**
+ * Burned-in captions: writes cues to an ASS subtitle file styled for the
+ * video's frame size and renders them with libass.
+ */
+
+import fs from 'fs/promises';
+import { AUDIO_ENCODE_ARGS, VIDEO_ENCODE_ARGS, runFfmpeg } from './media';
+
+export const CAPTION_STYLES = ['classic', 'boxed', 'bold'] as const;
+export type CaptionStyle = typeof CAPTION_STYLES[number];
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// ASS colours are &HAABBGGRR (alpha 00 = opaque)
+const WHITE = '&H00FFFFFF';
+const YELLOW = '&H0000E5FF';
+const BLACK = '&H00000000';
+const TRANSLUCENT_BLACK = '&H80000000';
+
+// Installed in the Dockerfile; DejaVu has no CJK glyphs
+const DEFAULT_FONT = 'DejaVu Sans';
+const LANGUAGE_FONTS: Record<string, string> = {
+  zh: 'Noto Sans CJK SC',
+};
+
+/**
+ * Caption font for a narration language (ISO 639-1).
+ */
+export function captionFont(language: string | undefined): string {
+  return language && Object.prototype.hasOwnProperty.call(LANGUAGE_FONTS, language)
+    ? LANGUAGE_FONTS[language]
+    : DEFAULT_FONT;
+}
+
+/**
+ * ASS style line for a preset, scaled to the frame.
+ * Sizes key off the shorter side so vertical video gets readable text.
+ */
+function styleLine(style: CaptionStyle, font: string, width: number, height: number): string {
+  const base = Math.min(width, height);
+  const marginV = Math.round(height * (style === 'bold' ? 0.18 : 0.08));
+  const marginH = Math.round(width * 0.06);
+
+  // [size, primary, outline, back, bold, borderStyle, outlineWidth, shadow]
+  // borderStyle 1 = outline + shadow, 3 = opaque box
+  const presets: Record<CaptionStyle, [number, string, string, string, number, number, number, number]> = {
+    classic: [Math.round(base * 0.055), WHITE, BLACK, BLACK, 0, 1, Math.max(2, Math.round(base * 0.004)), 0],
+    boxed: [Math.round(base * 0.05), WHITE, TRANSLUCENT_BLACK, TRANSLUCENT_BLACK, 0, 3, Math.round(base * 0.012), 0],
+    bold: [Math.round(base * 0.075), YELLOW, BLACK, BLACK, -1, 1, Math.max(3, Math.round(base * 0.006)), 2],
+  };
+  const [size, primary, outline, back, bold, borderStyle, outlineWidth, shadow] = presets[style];
+
+  // Field order matches the Format line in buildAss; alignment 2 = bottom centre
+  return [
+    'Style: Default', font, size, primary, primary, outline, back, bold, 0, 0, 0,
+    100, 100, 0, 0, borderStyle, outlineWidth, shadow, 2, marginH, marginH, marginV, 1,
+  ].join(',');
+}
+
+/**
+ * Format seconds as an ASS timestamp (H:MM:SS.cc).
+ */
+function assTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(cs)}`;
+}
+
+/**
+ * Escape cue text so libass renders it literally.
+ */
+function assText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/[{}]/g, '')
+    .replace(/\r?\n/g, '\\N');
+}
+
+/**
+ * Build a complete ASS subtitle document.
+ */
+export function buildAss(
+  cues: CaptionCue[],
+  style: CaptionStyle,
+  size: { width: number; height: number },
+  language?: string
+): string {
+  const { width, height } = size;
+  const events = cues
+    .filter((cue) => cue.end > cue.start && cue.text.trim())
+    .map((cue) => `Dialogue: 0,${assTime(cue.start)},${assTime(cue.end)},Default,,0,0,0,,${assText(cue.text.trim())}`);
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    styleLine(style, captionFont(language), width, height),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Burn captions into a local video file.
+ */
+export async function burnCaptions(
+  inputFile: string,
+  subtitleFile: string,
+  outputFile: string,
+  options: { cues: CaptionCue[]; style: CaptionStyle; language?: string; width: number; height: number }
+): Promise<void> {
+  const { cues, style, language, width, height } = options;
+  await fs.writeFile(subtitleFile, buildAss(cues, style, { width, height }, language));
+
+  await runFfmpeg([
+    '-i', inputFile,
+    '-vf', `subtitles=filename=${subtitleFile}`,
+    '-map', '0:v',
+    '-map', '0:a?',
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    '-movflags', '+faststart',
+    outputFile,
+  ]);
+}
@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import { AUDIO_ENCODE_ARGS, OUTPUT_FPS, VIDEO_ENCODE_ARGS, downloadFile, runFfmpeg, seconds } from './media';
+import { Job } from './job';
+
+// Installed by fonts-dejavu-core in the Dockerfile
+const FONT_FILE = '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+
+export const DEFAULT_END_CARD_SECONDS = 6;
+export const MAX_END_CARD_SECONDS = 30;
+
+/**
+ * Agent branding shown on the closing card.
+ */
+export interface EndCardOptions {
+  lines?: string[];
+  headshotUrl?: string;
+  logoUrl?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Render the agent end card (headshot, logo, contact lines) as a clip
+ * with a silent audio track. Returns the local file path.
+ */
+export async function renderEndCard(
+  job: Job,
+  size: { width: number; height: number },
+  options: EndCardOptions
+): Promise<string> {
+  const { lines = [], headshotUrl, logoUrl, durationSeconds = DEFAULT_END_CARD_SECONDS } = options;
+  const { width, height } = size;
+  const cardFile = job.file('card.mp4');
+
+  // Card inputs: background, silence, then optional images
+  const inputs = [
+    '-f', 'lavfi', '-i', `color=c=0x111111:s=${width}x${height}:d=${seconds(durationSeconds)}:r=${OUTPUT_FPS}`,
+    '-f', 'lavfi', '-t', seconds(durationSeconds), '-i', 'anullsrc=r=48000:cl=stereo',
+  ];
+  const filters: string[] = [];
+  let current = '0:v';
+  let inputIndex = 2;
+  const photoSize = Math.round(height * 0.35);
+
+  if (headshotUrl) {
+    const headshotFile = job.file('headshot');
+    await downloadFile(headshotUrl, headshotFile);
+    inputs.push('-loop', '1', '-i', headshotFile);
+    filters.push(
+      `[${inputIndex}:v]scale=${photoSize}:${photoSize}:force_original_aspect_ratio=increase,crop=${photoSize}:${photoSize}[headshot]`,
+      `[${current}][headshot]overlay=x=(W-w)/2:y=H*0.12:shortest=1[withheadshot]`
+    );
+    current = 'withheadshot';
+    inputIndex++;
+  }
+
+  if (logoUrl) {
+    const logoFile = job.file('logo');
+    await downloadFile(logoUrl, logoFile);
+    inputs.push('-loop', '1', '-i', logoFile);
+    filters.push(
+      `[${inputIndex}:v]scale=-1:${Math.round(height * 0.1)}[logo]`,
+      `[${current}][logo]overlay=x=W-w-W*0.04:y=H*0.04:shortest=1[withlogo]`
+    );
+    current = 'withlogo';
+    inputIndex++;
+  }
+
+  // Text goes through textfile= so contact details never need escaping
+  const textLines = lines.filter((line) => line && line.trim());
+  const fontSize = Math.round(height * 0.045);
+  const lineHeight = Math.round(fontSize * 1.6);
+  // Below the headshot when there is one, otherwise vertically centred-ish
+  const textTop = Math.round(height * (headshotUrl ? 0.53 : 0.35));
+  for (let i = 0; i < textLines.length; i++) {
+    const textFile = job.file(`line_${i}.txt`);
+    await fs.writeFile(textFile, textLines[i].trim());
+    filters.push(
+      `[${current}]drawtext=textfile='${textFile}':fontfile=${FONT_FILE}:fontcolor=white:fontsize=${fontSize}:x=(w-text_w)/2:y=${textTop + i * lineHeight}[text${i}]`
+    );
+    current = `text${i}`;
+  }
+
+  filters.push(`[${current}]format=yuv420p,setsar=1[card]`);
+
+  await runFfmpeg([
+    ...inputs,
+    '-filter_complex', filters.join(';'),
+    '-map', '[card]',
+    '-map', '1:a',
+    '-t', seconds(durationSeconds),
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    cardFile,
+  ]);
+
+  return cardFile;
+}
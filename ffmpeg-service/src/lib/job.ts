@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { v4 as uuid } from 'uuid';
+import fs from 'fs/promises';
+import path from 'path';
+import { TEMP_DIR, ensureTempDir } from './media';
+import { hasStorageConfig } from './storage';
+
+/**
+ * A single processing request with its own temp file namespace.
+ */
+export interface Job {
+  id: string;
+  /** Temp file path for this job; tracked for cleanup */
+  file: (name: string) => string;
+}
+
+type JobHandler = (req: Request, res: Response, job: Job) => Promise<unknown>;
+
+/**
+ * Wrap an endpoint with the shared job lifecycle:
+ * storage config check, temp dir, error response and temp file cleanup.
+ */
+export function withJob(label: string, handler: JobHandler) {
+  return async (req: Request, res: Response) => {
+    if (!hasStorageConfig()) {
+      return res.status(500).json({ error: 'Supabase configuration missing' });
+    }
+
+    const jobId = uuid();
+    const tempFiles: string[] = [];
+    const job: Job = {
+      id: jobId,
+      file: (name) => {
+        const file = path.join(TEMP_DIR, `${jobId}_${name}`);
+        tempFiles.push(file);
+        return file;
+      },
+    };
+
+    try {
+      await ensureTempDir();
+      console.log(`[${jobId}] Starting ${label}`);
+      await handler(req, res, job);
+    } catch (error) {
+      console.error(`[${jobId}] Error:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'FFmpeg processing failed',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    } finally {
+      await Promise.all(
+        tempFiles.map((f) => fs.unlink(f).catch(() => {}))
+      );
+    }
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Ken Burns motion: pan/zoom over a still image with ffmpeg's zoompan,
+ * a no-cost alternative to AI image-to-video.
+ */
+
+import { VIDEO_ENCODE_ARGS, OUTPUT_FPS, runFfmpeg, seconds } from './media';
+
+export const DIRECTIONS = ['zoom-in', 'zoom-out', 'pan-left', 'pan-right', 'pan-up', 'pan-down'] as const;
+export const EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const;
+
+export type Direction = typeof DIRECTIONS[number];
+export type Easing = typeof EASINGS[number];
+
+export const MAX_ZOOM = 3;
+
+// zoompan rounds the crop window to whole pixels; working at 2x the output
+// size keeps slow moves from visibly stepping
+const SUPERSAMPLE = 2;
+
+/**
+ * Eased progress expression (0 -> 1 over the clip) for zoompan.
+ */
+function progressExpr(frames: number, easing: Easing): string {
+  const p = `(on/${Math.max(1, frames - 1)})`;
+  switch (easing) {
+    case 'ease-in':
+      return `(${p}*${p})`;
+    case 'ease-out':
+      return `(${p}*(2-${p}))`;
+    case 'ease-in-out':
+      return `(${p}*${p}*(3-2*${p}))`;
+    default:
+      return p;
+  }
+}
+
+/**
+ * Build the zoompan filter for a direction.
+ * Zooms hold the focal point in frame; pans travel the full free edge.
+ */
+function zoompanFilter(params: {
+  direction: Direction;
+  easing: Easing;
+  zoom: number;
+  focalX: number;
+  focalY: number;
+  frames: number;
+  width: number;
+  height: number;
+}): string {
+  const { direction, easing, zoom, focalX, focalY, frames, width, height } = params;
+  const e = progressExpr(frames, easing);
+  const extra = zoom - 1;
+
+  // Window position centred on the focal point, clamped to the image
+  const focusX = `max(0,min(iw-iw/zoom,${focalX}*iw-iw/zoom/2))`;
+  const focusY = `max(0,min(ih-ih/zoom,${focalY}*ih-ih/zoom/2))`;
+
+  let z = `${zoom}`;
+  let x = focusX;
+  let y = focusY;
+
+  switch (direction) {
+    case 'zoom-in':
+      z = `1+${extra}*${e}`;
+      break;
+    case 'zoom-out':
+      z = `${zoom}-${extra}*${e}`;
+      break;
+    case 'pan-left':
+      x = `(iw-iw/zoom)*(1-${e})`;
+      break;
+    case 'pan-right':
+      x = `(iw-iw/zoom)*${e}`;
+      break;
+    case 'pan-up':
+      y = `(ih-ih/zoom)*(1-${e})`;
+      break;
+    case 'pan-down':
+      y = `(ih-ih/zoom)*${e}`;
+      break;
+  }
+
+  const workWidth = width * SUPERSAMPLE;
+  const workHeight = height * SUPERSAMPLE;
+
+  return [
+    `scale=${workWidth}:${workHeight}:force_original_aspect_ratio=increase`,
+    `crop=${workWidth}:${workHeight}`,
+    `zoompan=z='${z}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=${OUTPUT_FPS}`,
+    'setsar=1',
+  ].join(',');
+}
+
+/**
+ * Motion settings for one clip.
+ */
+export interface KenBurnsOptions {
+  direction: Direction;
+  easing: Easing;
+  zoom: number;
+  focalX: number;
+  focalY: number;
+  duration: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Render a local image file to a Ken Burns clip.
+ */
+export async function renderKenBurns(
+  inputFile: string,
+  outputFile: string,
+  options: KenBurnsOptions
+): Promise<void> {
+  const { duration, ...filterOptions } = options;
+  const frames = Math.max(1, Math.round(duration * OUTPUT_FPS));
+
+  await runFfmpeg([
+    '-i', inputFile,
+    '-vf', zoompanFilter({ ...filterOptions, frames }),
+    '-frames:v', String(frames),
+    '-t', seconds(duration),
+    '-an',
+    ...VIDEO_ENCODE_ARGS,
+    outputFile,
+  ]);
+}
@@ -0,0 +1,81 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+
+const execFileAsync = promisify(execFile);
+
+export const TEMP_DIR = '/tmp/ffmpeg';
+
+// Shared output settings so clips from different endpoints concat cleanly
+export const OUTPUT_FPS = 30;
+export const VIDEO_ENCODE_ARGS = [
+  '-c:v', 'libx264',
+  '-preset', 'veryfast',
+  '-crf', '20',
+  '-pix_fmt', 'yuv420p',
+  '-r', String(OUTPUT_FPS),
+];
+export const AUDIO_ENCODE_ARGS = ['-c:a', 'aac', '-b:a', '192k', '-ar', '48000', '-ac', '2'];
+
+// ffmpeg can log a lot on long renders - keep stderr from overflowing the buffer
+const MAX_BUFFER = 16 * 1024 * 1024;
+
+// Ensure temp directory exists
+export async function ensureTempDir() {
+  try {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+  } catch {
+    // Directory may already exist
+  }
+}
+
+/**
+ * Run ffmpeg with an argument list (no shell, so URLs and text are never interpolated).
+ */
+export async function runFfmpeg(args: string[]): Promise<void> {
+  await execFileAsync('ffmpeg', ['-y', '-hide_banner', '-loglevel', 'error', ...args], {
+    maxBuffer: MAX_BUFFER,
+  });
+}
+
+/**
+ * Download a remote file to a local path.
+ */
+export async function downloadFile(url: string, dest: string): Promise<void> {
+  await execFileAsync('curl', ['-sSfL', '-o', dest, url], { maxBuffer: MAX_BUFFER });
+}
+
+/**
+ * Get media duration in seconds.
+ */
+export async function probeDuration(file: string): Promise<number> {
+  const { stdout } = await execFileAsync('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    file,
+  ]);
+  return parseFloat(stdout.trim());
+}
+
+/**
+ * Get the pixel dimensions of the first video stream.
+ */
+export async function probeVideoSize(file: string): Promise<{ width: number; height: number }> {
+  const { stdout } = await execFileAsync('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height',
+    '-of', 'csv=s=x:p=0',
+    file,
+  ]);
+  const [width, height] = stdout.trim().split('x').map(Number);
+  return { width, height };
+}
+
+/**
+ * Format a number for ffmpeg expressions and durations.
+ */
+export function seconds(value: number): string {
+  return value.toFixed(3);
+}
@@ -0,0 +1,181 @@
+/**
+ * Smart reframing: crops a landscape video to a narrower aspect ratio,
+ * steering the crop window toward the busiest part of each frame
+ * (edges and detail) instead of always cutting the centre.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { AUDIO_ENCODE_ARGS, VIDEO_ENCODE_ARGS, runFfmpeg } from './media';
+
+const execFileAsync = promisify(execFile);
+
+export const REFRAME_TARGETS = {
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+} as const;
+
+export type ReframeRatio = keyof typeof REFRAME_TARGETS;
+export type ReframeMode = 'smart' | 'center';
+
+// Analysis runs on small greyscale frames; detail survives downscaling well
+const SAMPLE_FPS = 2;
+const SAMPLE_WIDTH = 160;
+
+// Crop centre smoothing window (seconds) - keeps the virtual camera calm
+const SMOOTHING_SECONDS = 2;
+
+// Fastest the crop centre may move, as a fraction of frame width per second
+const MAX_PAN_PER_SECOND = 0.25;
+
+/**
+ * Decode the video to small greyscale frames for analysis.
+ */
+async function sampleFrames(
+  inputFile: string,
+  sourceWidth: number,
+  sourceHeight: number
+): Promise<{ frames: Buffer[]; width: number; height: number }> {
+  const width = SAMPLE_WIDTH;
+  // Even height keeps the scaler happy
+  const height = Math.max(2, Math.round((sourceHeight / sourceWidth) * width / 2) * 2);
+
+  const { stdout } = await execFileAsync(
+    'ffmpeg',
+    [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', inputFile,
+      '-vf', `fps=${SAMPLE_FPS},scale=${width}:${height},format=gray`,
+      '-f', 'rawvideo',
+      'pipe:1',
+    ],
+    { encoding: 'buffer', maxBuffer: 256 * 1024 * 1024 }
+  );
+
+  const frameSize = width * height;
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset + frameSize <= stdout.length; offset += frameSize) {
+    frames.push(stdout.subarray(offset, offset + frameSize));
+  }
+  return { frames, width, height };
+}
+
+/**
+ * Horizontal centre (0-1) of the crop window with the most detail.
+ */
+function salientCenter(frame: Buffer, width: number, height: number, windowWidth: number): number {
+  // Column energy from horizontal and vertical gradients
+  const energy = new Float64Array(width);
+  for (let y = 0; y < height - 1; y++) {
+    const row = y * width;
+    for (let x = 0; x < width - 1; x++) {
+      const p = frame[row + x];
+      energy[x] += Math.abs(frame[row + x + 1] - p) + Math.abs(frame[row + width + x] - p);
+    }
+  }
+
+  // Best window by sliding sum; flat frames (no detail) stay centred
+  let windowSum = 0;
+  for (let x = 0; x < windowWidth; x++) windowSum += energy[x];
+  let bestStart = Math.round((width - windowWidth) / 2);
+  let bestSum = 0;
+  for (let start = 0; start + windowWidth <= width; start++) {
+    if (start > 0) {
+      windowSum += energy[start + windowWidth - 1] - energy[start - 1];
+    }
+    if (windowSum > bestSum) {
+      bestSum = windowSum;
+      bestStart = start;
+    }
+  }
+
+  return (bestStart + windowWidth / 2) / width;
+}
+
+/**
+ * Smooth crop centres over time and cap how fast they can move.
+ */
+function smoothPath(centers: number[]): number[] {
+  const radius = Math.max(1, Math.round((SMOOTHING_SECONDS * SAMPLE_FPS) / 2));
+  const averaged = centers.map((_, i) => {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(centers.length - 1, i + radius);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += centers[j];
+    return sum / (to - from + 1);
+  });
+
+  const maxStep = MAX_PAN_PER_SECOND / SAMPLE_FPS;
+  for (let i = 1; i < averaged.length; i++) {
+    const delta = averaged[i] - averaged[i - 1];
+    if (Math.abs(delta) > maxStep) {
+      averaged[i] = averaged[i - 1] + Math.sign(delta) * maxStep;
+    }
+  }
+  return averaged;
+}
+
+/**
+ * Crop x expression that interpolates linearly between sampled centres.
+ * Written as a sum of time-gated segments to avoid deeply nested if().
+ */
+function cropXExpression(centers: number[], cropWidth: number): string {
+  const clamp = (center: string) => `max(0,min(iw-${cropWidth},${center}*iw-${cropWidth / 2}))`;
+  if (centers.length === 1) return clamp(centers[0].toFixed(4));
+
+  const step = 1 / SAMPLE_FPS;
+  const terms = centers.slice(0, -1).map((center, i) => {
+    const t0 = i * step;
+    const next = centers[i + 1];
+    const slope = ((next - center) / step).toFixed(4);
+    // Last segment stays open so the tail holds the final position
+    const gate = i === centers.length - 2 ? `gte(t,${t0.toFixed(3)})` : `gte(t,${t0.toFixed(3)})*lt(t,${(t0 + step).toFixed(3)})`;
+    return `${gate}*(${center.toFixed(4)}+${slope}*(t-${t0.toFixed(3)}))`;
+  });
+
+  return clamp(`(${terms.join('+')})`);
+}
+
+/**
+ * Reframe a local video file into the target aspect ratio.
+ */
+export async function reframeVideo(
+  inputFile: string,
+  outputFile: string,
+  options: {
+    ratio: ReframeRatio;
+    mode: ReframeMode;
+    sourceWidth: number;
+    sourceHeight: number;
+  }
+): Promise<void> {
+  const { ratio, mode, sourceWidth, sourceHeight } = options;
+  const target = REFRAME_TARGETS[ratio];
+
+  // Full-height crop at the target ratio (even width for x264)
+  const cropWidth = Math.min(
+    sourceWidth,
+    Math.round((sourceHeight * target.width) / target.height / 2) * 2
+  );
+
+  let cropX = `(iw-${cropWidth})/2`;
+  if (mode === 'smart' && cropWidth < sourceWidth) {
+    const { frames, width, height } = await sampleFrames(inputFile, sourceWidth, sourceHeight);
+    if (frames.length > 0) {
+      const windowWidth = Math.max(1, Math.round((cropWidth / sourceWidth) * width));
+      const centers = smoothPath(frames.map((frame) => salientCenter(frame, width, height, windowWidth)));
+      cropX = cropXExpression(centers, cropWidth);
+    }
+  }
+
+  await runFfmpeg([
+    '-i', inputFile,
+    '-vf', `crop=${cropWidth}:ih:x='${cropX}':y=0,scale=${target.width}:${target.height},setsar=1`,
+    '-map', '0:v',
+    '-map', '0:a?',
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    '-movflags', '+faststart',
+    outputFile,
+  ]);
+}
@@ -0,0 +1,49 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs/promises';
+
+const OUTPUT_BUCKET = 'videos';
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Whether Supabase credentials are configured.
+ */
+export function hasStorageConfig(): boolean {
+  return Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+}
+
+function getClient(): SupabaseClient {
+  if (!client) {
+    client = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
+  }
+  return client;
+}
+
+/**
+ * Upload a local file to the videos bucket and return its public URL.
+ */
+export async function uploadOutput(
+  localFile: string,
+  storagePath: string,
+  contentType: string = 'video/mp4'
+): Promise<string> {
+  const supabase = getClient();
+  const fileBuffer = await fs.readFile(localFile);
+
+  const { error: uploadError } = await supabase.storage
+    .from(OUTPUT_BUCKET)
+    .upload(storagePath, fileBuffer, {
+      contentType,
+      upsert: true,
+    });
+
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(OUTPUT_BUCKET)
+    .getPublicUrl(storagePath);
+
+  return publicUrl;
+}
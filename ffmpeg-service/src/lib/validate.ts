@@ -0,0 +1,67 @@
+/**
+ * Request checks shared by the rendering endpoints. Each returns an error
+ * message for a 400 response, or null when the value is usable.
+ */
+
+// 4K UHD; anything larger is a typo or an attempt to exhaust the host
+export const MAX_DIMENSION = 3840;
+
+// Longest single clip we'll render from one image
+export const MAX_CLIP_SECONDS = 60;
+
+/**
+ * Output frame size: libx264 with yuv420p needs even dimensions.
+ */
+export function frameSizeError(width: unknown, height: unknown): string | null {
+  const valid = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_DIMENSION && value % 2 === 0;
+
+  if (!valid(width) || !valid(height)) {
+    return `width and height must be positive even integers up to ${MAX_DIMENSION}`;
+  }
+  return null;
+}
+
+/**
+ * A length in seconds: finite, positive and at most `max`.
+ */
+export function durationError(name: string, value: unknown, max: number): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > max) {
+    return `${name} must be a positive number of seconds up to ${max}`;
+  }
+  return null;
+}
+
+/**
+ * A number in [min, max]. Anything else (strings included) is rejected
+ * before it can reach a filter graph.
+ */
+export function rangeError(name: string, value: unknown, min: number, max: number): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    return `${name} must be a number from ${min} to ${max}`;
+  }
+  return null;
+}
+
+/**
+ * Timed caption cues: a non-empty array of { start, end, text } with
+ * finite times, start >= 0 and end after start.
+ */
+export function cuesError(cues: unknown): string | null {
+  if (!Array.isArray(cues) || cues.length === 0) {
+    return 'cues must be a non-empty array';
+  }
+
+  const index = cues.findIndex((cue) => {
+    const { start, end, text } = (cue ?? {}) as { start?: unknown; end?: unknown; text?: unknown };
+    return (
+      typeof start !== 'number' || !Number.isFinite(start) || start < 0 ||
+      typeof end !== 'number' || !Number.isFinite(end) || end <= start ||
+      typeof text !== 'string'
+    );
+  });
+  if (index !== -1) {
+    return `cues[${index}] must have a finite start >= 0, an end after start and a text string`;
+  }
+  return null;
+}
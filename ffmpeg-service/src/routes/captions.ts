@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { downloadFile, probeVideoSize } from '../lib/media';
+import { uploadOutput } from '../lib/storage';
+import { withJob } from '../lib/job';
+import { CAPTION_STYLES, CaptionCue, burnCaptions } from '../lib/captions';
+import { cuesError } from '../lib/validate';
+
+const router = Router();
+
+/**
+ * POST /captions
+ * Burns timed captions into a video
+ *
+ * Body: {
+ *   videoUrl: string,
+ *   cues: Array<{ start: number, end: number, text: string }> - finite seconds, end after start,
+ *   style?: 'classic' | 'boxed' | 'bold',
+ *   language?: string - narration language (ISO 639-1), picks a font with its glyphs
+ * }
+ * Returns: { url: string, cueCount: number }
+ */
+router.post('/captions', withJob('captions', async (req: Request, res: Response, job) => {
+  const body = req.body as {
+    videoUrl?: string;
+    cues?: unknown;
+    style?: string;
+    language?: string;
+  };
+  const { videoUrl, style = 'classic', language } = body;
+
+  if (!videoUrl) {
+    return res.status(400).json({ error: 'videoUrl is required' });
+  }
+
+  const invalid = cuesError(body.cues);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  const cues = body.cues as CaptionCue[];
+
+  const captionStyle = CAPTION_STYLES.find((s) => s === style);
+  if (!captionStyle) {
+    return res.status(400).json({ error: `style must be one of: ${CAPTION_STYLES.join(', ')}` });
+  }
+
+  const inputFile = job.file('input.mp4');
+  const subtitleFile = job.file('captions.ass');
+  const outputFile = job.file('captioned.mp4');
+
+  await downloadFile(videoUrl, inputFile);
+  const { width, height } = await probeVideoSize(inputFile);
+
+  console.log(`[${job.id}] Burning ${cues.length} captions (${captionStyle}) into ${width}x${height}...`);
+  await burnCaptions(inputFile, subtitleFile, outputFile, {
+    cues,
+    style: captionStyle,
+    language: typeof language === 'string' ? language : undefined,
+    width,
+    height,
+  });
+
+  const url = await uploadOutput(outputFile, `captions/${job.id}.mp4`);
+  console.log(`[${job.id}] Captions complete. URL: ${url}`);
+
+  res.json({ url, cueCount: cues.length });
+}));
+
+export default router;
@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import { downloadFile } from '../lib/media';
+import { uploadOutput } from '../lib/storage';
+import { withJob } from '../lib/job';
+import { DIRECTIONS, EASINGS, MAX_ZOOM, renderKenBurns } from '../lib/kenburns';
+import { MAX_CLIP_SECONDS, durationError, frameSizeError } from '../lib/validate';
+
+const router = Router();
+
+/**
+ * POST /kenburns
+ * Turns a still image into a pan/zoom clip of the requested duration
+ *
+ * Body: {
+ *   imageUrl: string,
+ *   duration: number - seconds, at most 60,
+ *   direction?: 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down',
+ *   focalPoint?: { x: number, y: number } - 0-1 within the image, default centre,
+ *   zoom?: number - maximum zoom factor (1 < zoom <= 3), default 1.2,
+ *   easing?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out',
+ *   width?: number - even, at most 3840, default 1920,
+ *   height?: number - even, at most 3840, default 1080
+ * }
+ * Returns: { url: string, duration: number, direction: string }
+ */
+router.post('/kenburns', withJob('ken burns', async (req: Request, res: Response, job) => {
+  const {
+    imageUrl,
+    duration,
+    direction = 'zoom-in',
+    focalPoint = { x: 0.5, y: 0.5 },
+    zoom = 1.2,
+    easing = 'ease-in-out',
+    width = 1920,
+    height = 1080,
+  } = req.body;
+
+  if (!imageUrl) {
+    return res.status(400).json({ error: 'imageUrl is required' });
+  }
+
+  const invalid = durationError('duration', duration, MAX_CLIP_SECONDS) ?? frameSizeError(width, height);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  if (!DIRECTIONS.includes(direction)) {
+    return res.status(400).json({ error: `direction must be one of: ${DIRECTIONS.join(', ')}` });
+  }
+
+  if (!EASINGS.includes(easing)) {
+    return res.status(400).json({ error: `easing must be one of: ${EASINGS.join(', ')}` });
+  }
+
+  if (!(zoom > 1 && zoom <= MAX_ZOOM)) {
+    return res.status(400).json({ error: `zoom must be greater than 1 and at most ${MAX_ZOOM}` });
+  }
+
+  const focalX = Number(focalPoint?.x);
+  const focalY = Number(focalPoint?.y);
+  if (!(focalX >= 0 && focalX <= 1 && focalY >= 0 && focalY <= 1)) {
+    return res.status(400).json({ error: 'focalPoint x and y must be between 0 and 1' });
+  }
+
+  const inputFile = job.file('image');
+  const outputFile = job.file('kenburns.mp4');
+
+  await downloadFile(imageUrl, inputFile);
+  await renderKenBurns(inputFile, outputFile, {
+    direction, easing, zoom, focalX, focalY, duration, width, height,
+  });
+
+  const url = await uploadOutput(outputFile, `kenburns/${job.id}.mp4`);
+  console.log(`[${job.id}] Ken Burns complete. URL: ${url}`);
+
+  res.json({ url, duration, direction });
+}));
+
+export default router;
@@ -0,0 +1,247 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs/promises';
+import {
+  AUDIO_ENCODE_ARGS,
+  VIDEO_ENCODE_ARGS,
+  downloadFile,
+  probeDuration,
+  probeVideoSize,
+  runFfmpeg,
+  seconds,
+} from '../lib/media';
+import { uploadOutput } from '../lib/storage';
+import { withJob } from '../lib/job';
+import { MAX_END_CARD_SECONDS, renderEndCard } from '../lib/endcard';
+import { durationError, frameSizeError, rangeError } from '../lib/validate';
+
+/**
+ * Render pipeline stages used by the app's local orchestrator.
+ *
+ * Each endpoint takes public URLs, writes one output to the videos bucket
+ * under local/<stage>/ and returns its public URL. /narration-placeholder
+ * stands in for the hosted TTS provider; motion clips come from /kenburns.
+ */
+const router = Router();
+
+const DEFAULT_WORDS_PER_MINUTE = 150;
+const MIN_WORDS_PER_MINUTE = 30;
+const MAX_WORDS_PER_MINUTE = 600;
+const MAX_MUSIC_VOLUME = 2;
+const MAX_FADE_OUT_SECONDS = 10;
+
+/**
+ * Concat list entries for the ffmpeg concat demuxer.
+ */
+function concatList(files: string[]): string {
+  return files.map((f) => `file '${f}'`).join('\n');
+}
+
+/**
+ * POST /narration-placeholder
+ * TTS stand-in: silent narration track sized to the script's spoken length
+ *
+ * Body: { text: string, wordsPerMinute?: number - 30-600, default 150 }
+ * Returns: { url: string, duration: number }
+ */
+router.post('/narration-placeholder', withJob('narration placeholder', async (req: Request, res: Response, job) => {
+  const { text, wordsPerMinute = DEFAULT_WORDS_PER_MINUTE } = req.body;
+
+  if (typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'text is required' });
+  }
+
+  const invalid = rangeError('wordsPerMinute', wordsPerMinute, MIN_WORDS_PER_MINUTE, MAX_WORDS_PER_MINUTE);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  const wordCount = text.trim().split(/\s+/).length;
+  const duration = Math.max(1, (wordCount / wordsPerMinute) * 60);
+  const outputFile = job.file('narration.m4a');
+
+  await runFfmpeg([
+    '-f', 'lavfi',
+    '-i', 'anullsrc=r=48000:cl=stereo',
+    '-t', seconds(duration),
+    ...AUDIO_ENCODE_ARGS,
+    outputFile,
+  ]);
+
+  const url = await uploadOutput(outputFile, `local/narration/${job.id}.m4a`, 'audio/mp4');
+  res.json({ url, duration });
+}));
+
+/**
+ * POST /merge
+ * Concatenates clips in order and lays the narration tracks under them.
+ * Without narration a silent track is added so later stages can mix audio.
+ *
+ * Body: { clipUrls: string[], audioUrls?: string[] }
+ * Returns: { url: string, duration: number }
+ */
+router.post('/merge', withJob('merge', async (req: Request, res: Response, job) => {
+  const { clipUrls, audioUrls = [] } = req.body as { clipUrls?: string[]; audioUrls?: string[] };
+
+  if (!Array.isArray(clipUrls) || clipUrls.length === 0) {
+    return res.status(400).json({ error: 'clipUrls must be a non-empty array' });
+  }
+
+  const clipFiles = clipUrls.map((_, i) => job.file(`clip_${i}.mp4`));
+  const audioFiles = audioUrls.map((_, i) => job.file(`audio_${i}.m4a`));
+  const clipList = job.file('clips.txt');
+  const audioList = job.file('audio.txt');
+  const outputFile = job.file('merged.mp4');
+
+  // Sequential downloads keep memory and bandwidth predictable on small hosts
+  for (let i = 0; i < clipUrls.length; i++) {
+    await downloadFile(clipUrls[i], clipFiles[i]);
+  }
+  for (let i = 0; i < audioUrls.length; i++) {
+    await downloadFile(audioUrls[i], audioFiles[i]);
+  }
+
+  await fs.writeFile(clipList, concatList(clipFiles));
+  const args = ['-f', 'concat', '-safe', '0', '-i', clipList];
+
+  if (audioFiles.length > 0) {
+    await fs.writeFile(audioList, concatList(audioFiles));
+    args.push('-f', 'concat', '-safe', '0', '-i', audioList);
+  } else {
+    args.push('-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo');
+  }
+
+  // Video length wins: pad short narration with silence, cut anything longer
+  await runFfmpeg([
+    ...args,
+    '-map', '0:v',
+    '-map', '1:a',
+    '-af', 'apad',
+    '-shortest',
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    outputFile,
+  ]);
+
+  const duration = await probeDuration(outputFile);
+  const url = await uploadOutput(outputFile, `local/merged/${job.id}.mp4`);
+  res.json({ url, duration });
+}));
+
+/**
+ * POST /music
+ * Mixes a looping music bed under the video's existing audio
+ *
+ * Body: {
+ *   videoUrl: string,
+ *   musicUrl: string,
+ *   musicVolume?: number - 0-2, default 0.15,
+ *   fadeOutSeconds?: number - 0-10, default 2
+ * }
+ * Returns: { url: string, duration: number }
+ */
+router.post('/music', withJob('music mix', async (req: Request, res: Response, job) => {
+  const { videoUrl, musicUrl, musicVolume = 0.15, fadeOutSeconds = 2 } = req.body;
+
+  if (!videoUrl || !musicUrl) {
+    return res.status(400).json({ error: 'videoUrl and musicUrl are required' });
+  }
+
+  const invalid =
+    rangeError('musicVolume', musicVolume, 0, MAX_MUSIC_VOLUME) ??
+    rangeError('fadeOutSeconds', fadeOutSeconds, 0, MAX_FADE_OUT_SECONDS);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  const videoFile = job.file('video.mp4');
+  const musicFile = job.file('music');
+  const outputFile = job.file('music.mp4');
+
+  await downloadFile(videoUrl, videoFile);
+  await downloadFile(musicUrl, musicFile);
+
+  const duration = await probeDuration(videoFile);
+  const fadeStart = Math.max(0, duration - fadeOutSeconds);
+
+  await runFfmpeg([
+    '-i', videoFile,
+    '-stream_loop', '-1',
+    '-i', musicFile,
+    '-filter_complex',
+    `[1:a]volume=${musicVolume},afade=t=out:st=${seconds(fadeStart)}:d=${seconds(fadeOutSeconds)}[bed];` +
+      '[0:a][bed]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[a]',
+    '-map', '0:v',
+    '-map', '[a]',
+    '-c:v', 'copy',
+    ...AUDIO_ENCODE_ARGS,
+    outputFile,
+  ]);
+
+  const url = await uploadOutput(outputFile, `local/music/${job.id}.mp4`);
+  res.json({ url, duration });
+}));
+
+/**
+ * POST /endcard
+ * Appends an agent branding card (headshot, logo, contact lines) to the video
+ *
+ * Body: {
+ *   videoUrl: string,
+ *   lines: string[],
+ *   headshotUrl?: string,
+ *   logoUrl?: string,
+ *   durationSeconds?: number - at most 30
+ * }
+ * Returns: { url: string, duration: number }
+ */
+router.post('/endcard', withJob('end card', async (req: Request, res: Response, job) => {
+  const { videoUrl, lines = [], headshotUrl, logoUrl, durationSeconds } = req.body as {
+    videoUrl?: string;
+    lines?: string[];
+    headshotUrl?: string;
+    logoUrl?: string;
+    durationSeconds?: number;
+  };
+
+  if (!videoUrl) {
+    return res.status(400).json({ error: 'videoUrl is required' });
+  }
+
+  if (durationSeconds !== undefined) {
+    const invalid = durationError('durationSeconds', durationSeconds, MAX_END_CARD_SECONDS);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+  }
+
+  const videoFile = job.file('video.mp4');
+  const outputFile = job.file('endcard.mp4');
+
+  await downloadFile(videoUrl, videoFile);
+
+  // The card matches the source video, so its size is checked once probed
+  const { width, height } = await probeVideoSize(videoFile);
+  const invalidSize = frameSizeError(width, height);
+  if (invalidSize) {
+    return res.status(400).json({ error: `videoUrl: ${invalidSize}` });
+  }
+
+  const cardFile = await renderEndCard(job, { width, height }, { lines, headshotUrl, logoUrl, durationSeconds });
+
+  await runFfmpeg([
+    '-i', videoFile,
+    '-i', cardFile,
+    '-filter_complex', '[0:v]setsar=1[v0];[v0][0:a][1:v][1:a]concat=n=2:v=1:a=1[v][a]',
+    '-map', '[v]',
+    '-map', '[a]',
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    outputFile,
+  ]);
+
+  const duration = await probeDuration(outputFile);
+  const url = await uploadOutput(outputFile, `local/final/${job.id}.mp4`);
+  res.json({ url, duration });
+}));
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import { downloadFile, probeDuration, probeVideoSize } from '../lib/media';
+import { uploadOutput } from '../lib/storage';
+import { withJob } from '../lib/job';
+import { REFRAME_TARGETS, ReframeMode, reframeVideo } from '../lib/reframe';
+
+const router = Router();
+
+const MODES: ReframeMode[] = ['smart', 'center'];
+
+/**
+ * POST /reframe
+ * Crops a landscape video to vertical (9:16) or square (1:1) for social
+ *
+ * Body: { videoUrl: string, aspectRatio: '9:16' | '1:1', mode?: 'smart' | 'center' }
+ * Returns: { url: string, aspectRatio: string, width: number, height: number, duration: number }
+ */
+router.post('/reframe', withJob('reframe', async (req: Request, res: Response, job) => {
+  const { videoUrl, aspectRatio, mode = 'smart' } = req.body;
+
+  if (!videoUrl) {
+    return res.status(400).json({ error: 'videoUrl is required' });
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(REFRAME_TARGETS, aspectRatio)) {
+    return res.status(400).json({
+      error: `aspectRatio must be one of: ${Object.keys(REFRAME_TARGETS).join(', ')}`
+    });
+  }
+
+  if (!MODES.includes(mode)) {
+    return res.status(400).json({ error: `mode must be one of: ${MODES.join(', ')}` });
+  }
+
+  const inputFile = job.file('input.mp4');
+  const outputFile = job.file('reframed.mp4');
+
+  await downloadFile(videoUrl, inputFile);
+  const { width: sourceWidth, height: sourceHeight } = await probeVideoSize(inputFile);
+
+  console.log(`[${job.id}] Reframing ${sourceWidth}x${sourceHeight} to ${aspectRatio} (${mode})...`);
+  await reframeVideo(inputFile, outputFile, {
+    ratio: aspectRatio,
+    mode,
+    sourceWidth,
+    sourceHeight,
+  });
+
+  const duration = await probeDuration(outputFile);
+  const url = await uploadOutput(outputFile, `reframe/${job.id}-${aspectRatio.replace(':', 'x')}.mp4`);
+  const target = REFRAME_TARGETS[aspectRatio as keyof typeof REFRAME_TARGETS];
+  console.log(`[${job.id}] Reframe complete. URL: ${url}`);
+
+  res.json({ url, aspectRatio, width: target.width, height: target.height, duration });
+}));
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router, Request, Response } from 'express';
+import {
+  AUDIO_ENCODE_ARGS,
+  VIDEO_ENCODE_ARGS,
+  downloadFile,
+  probeDuration,
+  runFfmpeg,
+  seconds,
+} from '../lib/media';
+import { uploadOutput } from '../lib/storage';
+import { withJob } from '../lib/job';
+import { DIRECTIONS, Direction, renderKenBurns } from '../lib/kenburns';
+import { EndCardOptions, MAX_END_CARD_SECONDS, renderEndCard } from '../lib/endcard';
+import { MAX_CLIP_SECONDS, durationError, frameSizeError, rangeError } from '../lib/validate';
+
+/**
+ * Full timeline render: one request in, final MP4 out.
+ * Self-hosted replacement for the multi-step json2video render chain.
+ */
+const router = Router();
+
+/**
+ * One image on the timeline - matches ImageTiming from the app's
+ * calculateBeatSyncedTimings, plus an optional motion direction.
+ */
+interface TimelineItem {
+  imageurl: string;
+  start: number;
+  duration: number;
+  fadeIn?: number;
+  fadeOut?: number;
+  direction?: Direction;
+}
+
+const DEFAULT_MOTION: Direction[] = ['zoom-in', 'pan-right', 'zoom-out', 'pan-left'];
+const DEFAULT_ZOOM = 1.15;
+const DEFAULT_NARRATION_OFFSET = 0.5;
+const DEFAULT_MUSIC_VOLUME = 0.35;
+const MAX_NARRATION_OFFSET = 10;
+const MAX_MUSIC_VOLUME = 2;
+const MUSIC_FADE_OUT_SECONDS = 2;
+
+// xfade needs a non-zero duration; a hard cut becomes a one-frame fade
+const MIN_TRANSITION_SECONDS = 1 / 30;
+
+/**
+ * Crossfade length between item i and i+1, bounded so it never eats
+ * more than half of either clip.
+ */
+function transitionAfter(timeline: TimelineItem[], i: number): number {
+  if (i >= timeline.length - 1) return 0;
+  const current = timeline[i];
+  const next = timeline[i + 1];
+  const requested = Math.max(current.fadeOut ?? 0, next.fadeIn ?? 0);
+  const limit = Math.min(current.duration, next.duration) / 2;
+  return Math.min(Math.max(requested, MIN_TRANSITION_SECONDS), limit);
+}
+
+/**
+ * POST /render
+ * Renders the final video from an image timeline
+ *
+ * Body: {
+ *   timeline: ImageTiming[] - { imageurl, start, duration, fadeIn?, fadeOut?, direction? };
+ *     durations up to 60s, fades shorter than the shortest clip,
+ *   narrationUrls?: string[] - played back to back,
+ *   narrationOffset?: number - seconds before the voice starts (0-10), default 0.5,
+ *   musicUrl?: string - looped under the whole video,
+ *   musicVolume?: number - 0-2, default 0.35,
+ *   ducking?: boolean - compress music under the voice, default true,
+ *   endCard?: { lines, headshotUrl?, logoUrl?, durationSeconds? (up to 30) },
+ *   width?: number - even, at most 3840, default 1920,
+ *   height?: number - even, at most 3840, default 1080
+ * }
+ * Returns: { url: string, duration: number, clipCount: number }
+ */
+router.post('/render', withJob('timeline render', async (req: Request, res: Response, job) => {
+  const {
+    timeline,
+    narrationUrls = [],
+    narrationOffset = DEFAULT_NARRATION_OFFSET,
+    musicUrl,
+    musicVolume = DEFAULT_MUSIC_VOLUME,
+    ducking = true,
+    endCard,
+    width = 1920,
+    height = 1080,
+  } = req.body as {
+    timeline?: TimelineItem[];
+    narrationUrls?: string[];
+    narrationOffset?: number;
+    musicUrl?: string;
+    musicVolume?: number;
+    ducking?: boolean;
+    endCard?: EndCardOptions;
+    width?: number;
+    height?: number;
+  };
+
+  if (!Array.isArray(timeline) || timeline.length === 0) {
+    return res.status(400).json({ error: 'timeline must be a non-empty array' });
+  }
+
+  if (timeline.some((item) => !item?.imageurl)) {
+    return res.status(400).json({ error: 'Each timeline item needs an imageurl' });
+  }
+
+  const invalid =
+    timeline.map((item, i) => durationError(`timeline[${i}].duration`, item.duration, MAX_CLIP_SECONDS)).find(Boolean) ??
+    frameSizeError(width, height) ??
+    rangeError('narrationOffset', narrationOffset, 0, MAX_NARRATION_OFFSET) ??
+    rangeError('musicVolume', musicVolume, 0, MAX_MUSIC_VOLUME) ??
+    (endCard?.durationSeconds !== undefined
+      ? durationError('endCard.durationSeconds', endCard.durationSeconds, MAX_END_CARD_SECONDS)
+      : null);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  // A crossfade can't outlast the clips it joins
+  const shortestClip = Math.min(...timeline.map((item) => item.duration));
+  const fades = timeline.flatMap((item) => [item.fadeIn ?? 0, item.fadeOut ?? 0]);
+  if (fades.some((fade) => typeof fade !== 'number' || !Number.isFinite(fade) || fade < 0 || fade >= shortestClip)) {
+    return res.status(400).json({
+      error: `fadeIn and fadeOut must be at least 0 and shorter than the shortest clip (${seconds(shortestClip)}s)`,
+    });
+  }
+
+  // 1. Motion clips, each extended to cover its outgoing crossfade
+  const transitions = timeline.map((_, i) => transitionAfter(timeline, i));
+  const clipFiles: string[] = [];
+  for (let i = 0; i < timeline.length; i++) {
+    const item = timeline[i];
+    const imageFile = job.file(`image_${i}`);
+    const clipFile = job.file(`clip_${i}.mp4`);
+    const direction = item.direction && DIRECTIONS.includes(item.direction)
+      ? item.direction
+      : DEFAULT_MOTION[i % DEFAULT_MOTION.length];
+
+    console.log(`[${job.id}] Rendering clip ${i + 1}/${timeline.length} (${direction})`);
+    await downloadFile(item.imageurl, imageFile);
+    await renderKenBurns(imageFile, clipFile, {
+      direction,
+      easing: 'ease-in-out',
+      zoom: DEFAULT_ZOOM,
+      focalX: 0.5,
+      focalY: 0.5,
+      duration: item.duration + transitions[i],
+      width,
+      height,
+    });
+    clipFiles.push(clipFile);
+  }
+
+  const timelineDuration = timeline.reduce((sum, item) => sum + item.duration, 0);
+
+  // 2. End card
+  const cardFile = endCard ? await renderEndCard(job, { width, height }, endCard) : null;
+  const cardDuration = cardFile ? await probeDuration(cardFile) : 0;
+  const totalDuration = timelineDuration + cardDuration;
+
+  // 3. Audio sources
+  const narrationFiles: string[] = [];
+  for (let i = 0; i < narrationUrls.length; i++) {
+    const file = job.file(`narration_${i}`);
+    await downloadFile(narrationUrls[i], file);
+    narrationFiles.push(file);
+  }
+
+  const musicFile = musicUrl ? job.file('music') : null;
+  if (musicUrl && musicFile) {
+    await downloadFile(musicUrl, musicFile);
+  }
+
+  // 4. One pass: crossfade chain, end card, voice + ducked music
+  const inputs: string[] = [];
+  const filters: string[] = [];
+  let inputCount = 0;
+  // Append one input's arguments and return its index
+  const addInput = (...args: string[]) => {
+    inputs.push(...args);
+    return inputCount++;
+  };
+
+  const clipInputs = clipFiles.map((file) => addInput('-i', file));
+  const cardInput = cardFile ? addInput('-i', cardFile) : -1;
+  const narrationInputs = narrationFiles.map((file) => addInput('-i', file));
+  const musicInput = musicFile ? addInput('-stream_loop', '-1', '-i', musicFile) : -1;
+
+  // Video: normalise timebases so xfade accepts every input
+  clipInputs.forEach((input, i) => filters.push(`[${input}:v]settb=AVTB,setsar=1[c${i}]`));
+  let video = 'c0';
+  let offset = 0;
+  for (let i = 0; i < clipFiles.length - 1; i++) {
+    offset += timeline[i].duration;
+    filters.push(
+      `[${video}][c${i + 1}]xfade=transition=fade:duration=${seconds(transitions[i])}:offset=${seconds(offset)}[x${i}]`
+    );
+    video = `x${i}`;
+  }
+  if (cardFile) {
+    filters.push(`[${cardInput}:v]settb=AVTB,setsar=1[card]`, `[${video}][card]concat=n=2:v=1:a=0[vout]`);
+  } else {
+    filters.push(`[${video}]null[vout]`);
+  }
+
+  // Audio
+  const end = seconds(totalDuration);
+  const fadeStart = seconds(Math.max(0, totalDuration - MUSIC_FADE_OUT_SECONDS));
+  const hasVoice = narrationFiles.length > 0;
+
+  if (hasVoice) {
+    narrationInputs.forEach((input, i) =>
+      filters.push(`[${input}:a]aresample=48000,aformat=channel_layouts=stereo[n${i}]`)
+    );
+    const voiceInputs = narrationFiles.map((_, i) => `[n${i}]`).join('');
+    filters.push(
+      `${voiceInputs}concat=n=${narrationFiles.length}:v=0:a=1,adelay=${Math.round(narrationOffset * 1000)}:all=1,apad[voice]`
+    );
+  }
+
+  if (musicFile) {
+    filters.push(`[${musicInput}:a]aresample=48000,aformat=channel_layouts=stereo,volume=${musicVolume}[music]`);
+  }
+
+  if (hasVoice && musicFile) {
+    if (ducking) {
+      filters.push(
+        '[voice]asplit=2[voicemix][voicekey]',
+        '[music][voicekey]sidechaincompress=threshold=0.02:ratio=10:attack=20:release=400[bed]'
+      );
+    } else {
+      filters.push('[voice]anull[voicemix]', '[music]anull[bed]');
+    }
+    filters.push(
+      `[voicemix][bed]amix=inputs=2:duration=longest:dropout_transition=0:normalize=0,atrim=0:${end},afade=t=out:st=${fadeStart}:d=${MUSIC_FADE_OUT_SECONDS}[aout]`
+    );
+  } else if (hasVoice) {
+    filters.push(`[voice]atrim=0:${end}[aout]`);
+  } else if (musicFile) {
+    filters.push(`[music]atrim=0:${end},afade=t=out:st=${fadeStart}:d=${MUSIC_FADE_OUT_SECONDS}[aout]`);
+  } else {
+    const silenceInput = addInput('-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo');
+    filters.push(`[${silenceInput}:a]atrim=0:${end}[aout]`);
+  }
+
+  const outputFile = job.file('render.mp4');
+  console.log(`[${job.id}] Rendering final timeline (${seconds(totalDuration)}s)...`);
+  await runFfmpeg([
+    ...inputs,
+    '-filter_complex', filters.join(';'),
+    '-map', '[vout]',
+    '-map', '[aout]',
+    '-t', end,
+    ...VIDEO_ENCODE_ARGS,
+    ...AUDIO_ENCODE_ARGS,
+    '-movflags', '+faststart',
+    outputFile,
+  ]);
+
+  const duration = await probeDuration(outputFile);
+  const url = await uploadOutput(outputFile, `render/${job.id}.mp4`);
+  console.log(`[${job.id}] Render complete. URL: ${url}`);
+
+  res.json({ url, duration, clipCount: clipFiles.length });
+}));
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * Run Unit Tests
+ *
+ * Finds every *.test.ts file under src/ and runs them once with the
+ * Node.js test runner, loading TypeScript (and the @/ path alias) through
+ * tsx. Node 20's --test doesn't expand globs, so the files are listed here.
+ *
+ * Usage:
+ *   npm test
+ *   npm test -- src/lib/tts/normalize.test.ts
+ */
+
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+const root = path.resolve(__dirname, "..");
+
+const requested = process.argv.slice(2);
+const files =
+  requested.length > 0
+    ? requested
+    : fs
+        .readdirSync(path.join(root, "src"), { recursive: true, encoding: "utf8" })
+        .filter((file) => file.endsWith(".test.ts"))
+        .map((file) => path.join("src", file))
+        .sort();
+
+if (files.length === 0) {
+  console.log("No test files found");
+  process.exit(0);
+}
+
+const result = spawnSync(process.execPath, ["--import", "tsx", "--test", ...files], {
+  cwd: root,
+  stdio: "inherit",
+});
+
+process.exit(result.status ?? 1);
@@ -1,4 +1,6 @@
+import { Suspense } from "react";
 import { WizardProvider } from "@/lib/wizard/wizard-context";
+import { HistoryToolbar } from "@/components/wizard/history-toolbar";
 import { Card, CardContent } from "@/components/ui/card";
 
 /**
@@ -6,6 +8,7 @@ import { Card, CardContent } from "@/components/ui/card";
  *
  * Features:
  * - WizardProvider for state management
+ * - Undo/redo toolbar for wizard data changes
  * - Centered container (max-w-4xl)
  * - Card wrapper with luxury styling
  */
@@ -18,7 +21,11 @@ export default function CreateWizardLayout({
     <div className="mx-auto max-w-4xl">
       <Card className="border-border/50 bg-card/80 backdrop-blur">
         <CardContent className="p-8">
-          <WizardProvider>{children}</WizardProvider>
+          <WizardProvider>
+            <HistoryToolbar />
+            {/* Page reads ?draft= via useSearchParams */}
+            <Suspense>{children}</Suspense>
+          </WizardProvider>
         </CardContent>
       </Card>
     </div>
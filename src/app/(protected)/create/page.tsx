@@ -3,11 +3,24 @@
 import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, ArrowRight, Sparkles, Loader2 } from "lucide-react";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Sparkles,
+  Loader2,
+  Cloud,
+  CloudOff,
+  Copy,
+  History,
+  Languages,
+} from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
 import { StepIndicator } from "@/components/wizard/step-indicator";
+import { TemplatePickerDialog } from "@/components/wizard/template-picker-dialog";
 import { useWizard } from "@/lib/wizard/wizard-context";
+import { useWizardSessionLoader } from "@/hooks/useWizardSessionLoader";
 import { WizardStep } from "@/lib/wizard/types";
 import {
   PropertyDataStep,
@@ -52,10 +65,22 @@ const stepVariants = {
  * - Conditional render based on currentStep
  * - Back/Next navigation buttons
  * - Step validation for navigation
+ * - Resumes server-side drafts via ?draft=<id>
+ * - Starts from a past video via ?template=<videoId>
+ * - Revises or adds a language version via ?revise= / ?language=<videoId>
  */
 export default function CreatePage() {
   const router = useRouter();
-  const { state, nextStep, prevStep, goToStep, setSubmitting } = useWizard();
+  const {
+    state,
+    nextStep,
+    prevStep,
+    goToStep,
+    setSubmitting,
+    draftStatus,
+    discardDraft,
+    historyRevision,
+  } = useWizard();
   const { currentStep, completedSteps, isSubmitting } = state;
   const propertyStepRef = useRef<PropertyDataStepHandle>(null);
   const uploadStepRef = useRef<UploadStepHandle>(null);
@@ -63,6 +88,10 @@ export default function CreatePage() {
   const styleStepRef = useRef<StyleStepHandle>(null);
   const [isSubmittingVideo, setIsSubmittingVideo] = useState(false);
 
+  // Rehydrate from a draft or template before rendering any step, so step
+  // components initialize their local state from the restored wizard state
+  const { isLoading: isLoadingSession } = useWizardSessionLoader();
+
   const isFirstStep = currentStep === WizardStep.DATA;
   const isLastStep = currentStep === WizardStep.STYLE;
 
@@ -71,14 +100,15 @@ export default function CreatePage() {
    */
   const renderStepContent = () => {
     switch (currentStep) {
+      // Form-backed steps remount after undo/redo to re-seed from wizard state
       case WizardStep.DATA:
-        return <PropertyDataStep ref={propertyStepRef} />;
+        return <PropertyDataStep key={historyRevision} ref={propertyStepRef} />;
       case WizardStep.UPLOAD:
         return <UploadStep ref={uploadStepRef} />;
       case WizardStep.SCRIPT:
         return <ScriptStep ref={scriptStepRef} />;
       case WizardStep.STYLE:
-        return <StyleStep ref={styleStepRef} />;
+        return <StyleStep key={historyRevision} ref={styleStepRef} />;
       default:
         return null;
     }
@@ -107,7 +137,18 @@ export default function CreatePage() {
           propertyData: state.propertyData,
           images: state.images,
           scriptSections: state.scriptSections,
-          styleOptions: styleData,
+          // Narration tone, language and section template are chosen in the Script step, not the Style step
+          styleOptions: {
+            ...styleData,
+            narrationTone: state.styleOptions.narrationTone,
+            narrationLanguage: state.styleOptions.narrationLanguage,
+            sectionTemplate: state.styleOptions.sectionTemplate,
+          },
+          revisionOf:
+            state.source?.kind === "revision" ? state.source.videoId : undefined,
+          languageOf:
+            state.source?.kind === "language" ? state.source.videoId : undefined,
+          fairHousingOverride: state.fairHousingOverride,
         }),
       });
 
@@ -116,7 +157,8 @@ export default function CreatePage() {
         throw new Error(error.error || "Failed to create video");
       }
 
-      const data = await response.json();
+      // Submitted drafts no longer need to be resumable
+      await discardDraft();
 
       toast.success("Video creation started!", {
         description: "Your cinematic tour is being generated. Check your dashboard for progress.",
@@ -179,6 +221,15 @@ export default function CreatePage() {
     return false;
   };
 
+  if (isLoadingSession) {
+    return (
+      <div className="flex min-h-[400px] flex-col items-center justify-center gap-3 text-muted-foreground">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <p>Restoring your video...</p>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-8">
       {/* Page header */}
@@ -189,8 +240,57 @@ export default function CreatePage() {
         <p className="mt-2 text-muted-foreground">
           Transform your property photos into a cinematic narrated tour
         </p>
+        {draftStatus !== "idle" && (
+          <p
+            className={cn(
+              "mt-2 inline-flex items-center gap-1.5 text-xs",
+              draftStatus === "error" ? "text-destructive" : "text-muted-foreground"
+            )}
+          >
+            {draftStatus === "error" ? (
+              <CloudOff className="h-3.5 w-3.5" />
+            ) : (
+              <Cloud className="h-3.5 w-3.5" />
+            )}
+            {draftStatus === "saving" && "Saving draft..."}
+            {draftStatus === "saved" && "Draft saved"}
+            {draftStatus === "error" && "Draft not saved"}
+          </p>
+        )}
       </div>
 
+      {/* Revision notice - new render of an existing listing */}
+      {state.source?.kind === "revision" && (
+        <div className="-mt-4 flex items-center justify-center gap-1.5 text-sm text-muted-foreground">
+          <History className="h-4 w-4 text-primary" />
+          Revising v{state.source.version} of {state.source.label}. The new
+          render will be saved as a new version.
+        </div>
+      )}
+
+      {/* Language notice - same listing narrated in another language */}
+      {state.source?.kind === "language" && (
+        <div className="-mt-4 flex items-center justify-center gap-1.5 text-sm text-muted-foreground">
+          <Languages className="h-4 w-4 text-primary" />
+          Adding a language version of {state.source.label}. It will be saved
+          as a separate video alongside v{state.source.version}.
+        </div>
+      )}
+
+      {/* Template entry point / template notice on the first step */}
+      {isFirstStep && (!state.source || state.source.kind === "template") && (
+        <div className="-mt-4 flex items-center justify-center gap-3 text-sm text-muted-foreground">
+          {state.source ? (
+            <span className="inline-flex items-center gap-1.5">
+              <Copy className="h-4 w-4 text-primary" />
+              Using {state.source.label} as a template. Enter the new address and photos.
+            </span>
+          ) : (
+            <TemplatePickerDialog />
+          )}
+        </div>
+      )}
+
       {/* Step indicator */}
       <StepIndicator
         currentStep={currentStep}
@@ -249,7 +349,7 @@ export default function CreatePage() {
             ) : (
               <>
                 <Sparkles className="h-4 w-4" />
-                Generate Video
+                {state.source?.kind === "revision" ? "Generate Revision" : "Generate Video"}
               </>
             )
           ) : (
@@ -1,7 +1,9 @@
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/server';
 import { VideoGallery } from '@/components/dashboard/VideoGallery';
+import { DraftList } from '@/components/dashboard/DraftList';
 import { Button } from '@/components/ui/button';
+import { DRAFT_SUMMARY_COLUMNS, toDraftSummary } from '@/lib/wizard/drafts';
 import type { VideoWithListing, VideoStatus } from '@/types/video';
 
 // Processing statuses that should be checked for timeout
@@ -19,7 +21,8 @@ const PROCESSING_TIMEOUT_MINUTES = 20;
 
 /**
  * Dashboard page - Video gallery showing user's generated videos.
- * Displays 9:16 cards in responsive grid with status badges.
+ * Displays 9:16 cards in responsive grid with status badges,
+ * with in-progress wizard drafts listed above the gallery.
  */
 export default async function DashboardPage() {
   const supabase = await createClient();
@@ -42,6 +45,10 @@ export default async function DashboardPage() {
       duration_seconds,
       error_message,
       created_at,
+      version,
+      parent_video_id,
+      outputs,
+      language,
       listing:listings!inner (
         address,
         city,
@@ -51,6 +58,14 @@ export default async function DashboardPage() {
     .eq('user_id', user?.id)
     .order('created_at', { ascending: false });
 
+  // Fetch in-progress wizard drafts
+  const { data: draftRows } = await supabase
+    .from('wizard_drafts')
+    .select(DRAFT_SUMMARY_COLUMNS)
+    .eq('user_id', user?.id)
+    .order('updated_at', { ascending: false });
+  const drafts = (draftRows || []).map(toDraftSummary);
+
   // Check for and mark stale processing videos as failed
   const now = new Date();
   const timeoutMs = PROCESSING_TIMEOUT_MINUTES * 60 * 1000;
@@ -89,6 +104,10 @@ export default async function DashboardPage() {
       duration_seconds: v.duration_seconds,
       error_message: isStale ? 'Processing timed out after 20 minutes' : v.error_message,
       created_at: v.created_at,
+      version: v.version ?? 1,
+      parent_video_id: v.parent_video_id,
+      outputs: v.outputs ?? {},
+      language: v.language ?? 'en',
       listing,
     };
   });
@@ -112,6 +131,9 @@ export default async function DashboardPage() {
         </Link>
       </div>
 
+      {/* Drafts resume the wizard where the user left off */}
+      <DraftList initialDrafts={drafts} />
+
       {/* Video grid or empty state */}
       {typedVideos.length > 0 ? (
         <VideoGallery initialVideos={typedVideos} userId={user?.id || ''} />
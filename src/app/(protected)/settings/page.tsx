@@ -0,0 +1,50 @@
+import Link from 'next/link';
+import { ChevronRight, LayoutList, SpellCheck } from 'lucide-react';
+
+const SETTINGS_SECTIONS = [
+  {
+    href: '/settings/pronunciation',
+    title: 'Pronunciation',
+    description: 'Teach the narrator how to say street names, neighborhoods and brand terms.',
+    icon: SpellCheck,
+  },
+  {
+    href: '/settings/section-templates',
+    title: 'Section Templates',
+    description: 'Define your own script sections and which rooms each one covers.',
+    icon: LayoutList,
+  },
+];
+
+/**
+ * Settings hub - links to each settings section.
+ */
+export default function SettingsPage() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-heading font-semibold">Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          Preferences that apply to every video you create
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {SETTINGS_SECTIONS.map(({ href, title, description, icon: Icon }) => (
+          <Link
+            key={href}
+            href={href}
+            className="flex items-center gap-4 rounded-lg border border-border/50 bg-card/80 p-4 transition-colors hover:bg-muted/50"
+          >
+            <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium">{title}</p>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { PronunciationLexicon } from '@/components/settings/PronunciationLexicon';
+
+/**
+ * Pronunciation settings - the user's and team's pronunciation lexicon.
+ */
+export default function PronunciationSettingsPage() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link
+          href="/settings"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Settings
+        </Link>
+        <h1 className="text-3xl font-heading font-semibold mt-2">Pronunciation</h1>
+        <p className="text-muted-foreground mt-1">
+          Terms the narrator should say differently. Captions keep the original spelling.
+        </p>
+      </div>
+
+      <PronunciationLexicon />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { SectionTemplates } from '@/components/settings/SectionTemplates';
+
+/**
+ * Section template settings - custom tour structures for the script.
+ */
+export default function SectionTemplatesSettingsPage() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link
+          href="/settings"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Settings
+        </Link>
+        <h1 className="text-3xl font-heading font-semibold mt-2">Section Templates</h1>
+        <p className="text-muted-foreground mt-1">
+          Tour structures for land, condos and commercial listings. Pick one in the Script step.
+        </p>
+      </div>
+
+      <SectionTemplates />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import * as mm from "music-metadata";
+import { createServiceRoleClient } from "@/lib/supabase/service";
+import { toSpeechSample } from "@/lib/script";
 
 /**
  * POST /api/audio/duration
@@ -9,6 +11,14 @@ import * as mm from "music-metadata";
  *
  * Expects JSON body: { "url": "https://..." }
  * Returns: { "data": { "url": "...", "duration": 5.23 } }
+ *
+ * Optional calibration fields, for narration clips:
+ * - voiceId: string - voice that read the clip
+ * - wordCount: number - the section's sectionImageMapping wordCount (the
+ *   script as written, before TTS normalization)
+ * - language?: string - narration language (default: en)
+ * When present, and the request carries the n8n Bearer secret, the
+ * measurement is recorded as a speaking-rate sample for the voice.
  */
 export async function POST(request: Request) {
   try {
@@ -44,6 +54,22 @@ export async function POST(request: Request) {
 
     const duration = metadata.format.duration || 0;
 
+    // Record a speaking-rate sample (authenticated n8n calls only)
+    const expectedSecret = process.env.N8N_WEBHOOK_SECRET;
+    const isTrusted =
+      !!expectedSecret && request.headers.get("Authorization") === `Bearer ${expectedSecret}`;
+    if (isTrusted && typeof body.voiceId === "string" && typeof body.wordCount === "number") {
+      const sample = toSpeechSample(body.voiceId, body.wordCount, duration, body.language, "render");
+      if (sample) {
+        const { error: sampleError } = await createServiceRoleClient()
+          .from("voice_speech_samples")
+          .insert(sample);
+        if (sampleError) {
+          console.error("Error recording speech sample:", sampleError);
+        }
+      }
+    }
+
     // Return in format expected by n8n workflow (matching backend.edgeairealty.com response)
     return NextResponse.json({
       data: {
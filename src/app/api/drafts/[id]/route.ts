@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  deserializeWizardState,
+  getDraftTitle,
+  serializeWizardState,
+} from "@/lib/wizard/drafts";
+
+/**
+ * GET /api/drafts/[id]
+ *
+ * Loads a single draft with its full wizard state for rehydration.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS restricts rows to the owner; the explicit filter keeps intent clear
+    const { data: draft, error } = await supabase
+      .from("wizard_drafts")
+      .select("id, title, state, updated_at")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (error || !draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: draft.id,
+      title: draft.title,
+      state: deserializeWizardState(draft.state),
+      updatedAt: draft.updated_at,
+    });
+  } catch (error) {
+    console.error("Get draft error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch draft" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/drafts/[id]
+ *
+ * Autosave endpoint - replaces the stored wizard state.
+ * Body: { state: WizardState }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (!body.state) {
+      return NextResponse.json(
+        { error: "Draft state is required" },
+        { status: 400 }
+      );
+    }
+
+    const state = deserializeWizardState(body.state);
+
+    const { data: draft, error } = await supabase
+      .from("wizard_drafts")
+      .update({
+        title: getDraftTitle(state),
+        current_step: state.currentStep,
+        state: serializeWizardState(state),
+      })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select("id, updated_at")
+      .single();
+
+    if (error || !draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: draft.id, updatedAt: draft.updated_at });
+  } catch (error) {
+    console.error("Update draft error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save draft" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]
+ *
+ * Discards a draft. Only the owner can delete their drafts.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from("wizard_drafts")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting draft:", error);
+      return NextResponse.json(
+        { error: "Failed to delete draft" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete draft error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete draft" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  DRAFT_SUMMARY_COLUMNS,
+  deserializeWizardState,
+  getDraftTitle,
+  serializeWizardState,
+  toDraftSummary,
+} from "@/lib/wizard/drafts";
+
+/**
+ * GET /api/drafts
+ *
+ * Lists the user's in-progress wizard drafts, most recently edited first.
+ * Only summary fields are returned - the full state is loaded per draft.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("wizard_drafts")
+      .select(DRAFT_SUMMARY_COLUMNS)
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching drafts:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch drafts" },
+        { status: 500 }
+      );
+    }
+
+    const drafts = (data || []).map(toDraftSummary);
+
+    return NextResponse.json({ drafts });
+  } catch (error) {
+    console.error("List drafts error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch drafts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/drafts
+ *
+ * Creates a new draft from the current wizard state.
+ * Body: { state: WizardState }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (!body.state) {
+      return NextResponse.json(
+        { error: "Draft state is required" },
+        { status: 400 }
+      );
+    }
+
+    const state = deserializeWizardState(body.state);
+
+    const { data: draft, error } = await supabase
+      .from("wizard_drafts")
+      .insert({
+        user_id: user.id,
+        title: getDraftTitle(state),
+        current_step: state.currentStep,
+        state: serializeWizardState(state),
+      })
+      .select("id, updated_at")
+      .single();
+
+    if (error || !draft) {
+      console.error("Error creating draft:", error);
+      return NextResponse.json(
+        { error: "Failed to create draft" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ id: draft.id, updatedAt: draft.updated_at });
+  } catch (error) {
+    console.error("Create draft error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create draft" },
+      { status: 500 }
+    );
+  }
+}
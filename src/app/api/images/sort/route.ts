@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { analyzeImages, type RoomType } from "@/lib/openai";
+import { getPropertyTypeProfile } from "@/lib/script";
 
 /**
  * POST /api/images/sort
  *
  * Analyzes images using GPT-4o Vision to generate descriptive labels and features.
- * Expects JSON body with imageUrls array of {url, filename} objects.
+ * Expects JSON body with imageUrls array of {url, filename} objects, and the
+ * listing's propertyType so land and commercial photos get suitable room types.
  * Returns analyzed images sorted for video sequence with editable labels.
  */
 export async function POST(request: NextRequest) {
@@ -28,8 +30,9 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { imageUrls } = body as {
+    const { imageUrls, propertyType } = body as {
       imageUrls: { url: string; filename: string }[];
+      propertyType?: string;
     };
 
     if (!imageUrls || !Array.isArray(imageUrls) || imageUrls.length === 0) {
@@ -73,7 +76,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Analyze images using GPT-4o Vision
-    const analyzed = await analyzeImages(validUrls);
+    const analyzed = await analyzeImages(validUrls, getPropertyTypeProfile(propertyType));
 
     // Sort by room type order for video sequence
     // Flow: Exterior → Outdoor → Living spaces → Private spaces → Amenities
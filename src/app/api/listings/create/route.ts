@@ -2,7 +2,20 @@ import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createServiceRoleClient } from "@/lib/supabase/service";
 import type { PropertyData, WizardImage, ScriptSection, StyleOptions } from "@/lib/wizard/types";
-import { transformWizardToN8n, buildWebhookUrl, triggerYoutubeVideo, type MusicTrackMeta } from "@/lib/n8n";
+import { transformWizardToN8n, type MusicTrackMeta, type PronunciationOptions } from "@/lib/n8n";
+import {
+  PRONUNCIATION_ENTRY_COLUMNS,
+  getLexiconOwnerFilter,
+  mergeLexicons,
+  toPronunciationEntry,
+} from "@/lib/pronunciation";
+import { getVideoOrchestrator } from "@/lib/orchestrator";
+import { parseSectionStructure } from "@/lib/script";
+import { getVoiceSpeakingRate } from "@/lib/script/voice-rates";
+import { getBlockingPhrases } from "@/lib/compliance";
+
+// Concurrent revisions of one listing can claim the same version number
+const MAX_VERSION_ATTEMPTS = 3;
 
 /**
  * POST /api/listings/create
@@ -13,6 +26,12 @@ import { transformWizardToN8n, buildWebhookUrl, triggerYoutubeVideo, type MusicT
  * - images: WizardImage[]
  * - scriptSections: ScriptSection[]
  * - styleOptions: StyleOptions
+ * - revisionOf?: string - video ID being revised; the render reuses that
+ *   video's listing and is recorded as the next version in its chain
+ * - languageOf?: string - video ID this is a language version of; the render
+ *   reuses that video's listing and version number in another language
+ * - fairHousingOverride?: string[] - high-severity Fair Housing phrases the
+ *   user confirmed; required when the script has any, and stored on the video
  */
 export async function POST(request: Request) {
   try {
@@ -60,12 +79,16 @@ export async function POST(request: Request) {
 
     // Parse request body
     const body = await request.json();
-    const { propertyData, images, scriptSections, styleOptions } = body as {
+    const { propertyData, images, scriptSections, styleOptions, revisionOf, languageOf, fairHousingOverride } = body as {
       propertyData: PropertyData;
       images: WizardImage[];
       scriptSections: ScriptSection[];
       styleOptions: StyleOptions;
+      revisionOf?: string;
+      languageOf?: string;
+      fairHousingOverride?: string[];
     };
+    const language = styleOptions?.narrationLanguage || "en";
 
     // Validate required fields
     if (!propertyData?.address) {
@@ -82,6 +105,16 @@ export async function POST(request: Request) {
       );
     }
 
+    // High-severity Fair Housing language needs the user's confirmation of exactly these phrases
+    const blockingPhrases = getBlockingPhrases(scriptSections ?? []);
+    const confirmed = new Set(Array.isArray(fairHousingOverride) ? fairHousingOverride : []);
+    if (blockingPhrases.some((phrase) => !confirmed.has(phrase))) {
+      return NextResponse.json(
+        { error: "Fair Housing review needed: confirm or revise the flagged language" },
+        { status: 400 }
+      );
+    }
+
     // Map property type to database enum
     const propertyTypeMap: Record<string, string> = {
       single_family: "single_family",
@@ -93,47 +126,109 @@ export async function POST(request: Request) {
     };
     const dbPropertyType = propertyTypeMap[propertyData.propertyType] || "other";
 
-    // Create listing record
-    const { data: listing, error: listingError } = await supabase
-      .from("listings")
-      .insert({
-        user_id: user.id,
-        address: propertyData.address,
-        city: propertyData.city,
-        state: propertyData.state,
-        zip: propertyData.zipCode,
-        price: propertyData.listingPrice,
-        bedrooms: propertyData.bedrooms,
-        bathrooms: propertyData.bathrooms,
-        sqft: propertyData.squareFeet,
-        property_type: dbPropertyType,
-        description: propertyData.description,
-        neighborhood_pois: propertyData.features || [],
-        images: images.map((img) => ({
-          id: img.id,
-          url: img.enhancement !== "original" && img.enhancedUrls[img.enhancement as keyof typeof img.enhancedUrls]
-            ? img.enhancedUrls[img.enhancement as keyof typeof img.enhancedUrls]
-            : img.url,
-          originalUrl: img.url,
-          filename: img.filename,
-          order: img.order,
-          label: img.label,
-          roomType: img.roomType,
-          features: img.features,
-          enhancement: img.enhancement,
-        })),
-      })
-      .select()
-      .single();
-
-    if (listingError) {
-      console.error("Error creating listing:", listingError);
+    if (revisionOf && languageOf) {
       return NextResponse.json(
-        { error: "Failed to create listing" },
-        { status: 500 }
+        { error: "A video can't be both a revision and a language version" },
+        { status: 400 }
       );
     }
 
+    // Highest version recorded on a listing
+    const getLatestVersion = async (listingId: string): Promise<number> => {
+      const { data: latest } = await supabase
+        .from("videos")
+        .select("version")
+        .eq("listing_id", listingId)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return latest?.version ?? 1;
+    };
+
+    // Revisions and language versions render against the parent video's existing listing
+    let parentVideo: { id: string; listing_id: string } | null = null;
+    let version = 1;
+    const parentId = revisionOf || languageOf;
+    if (parentId) {
+      const { data: parent, error: parentError } = await supabase
+        .from("videos")
+        .select("id, listing_id, version, language")
+        .eq("id", parentId)
+        .eq("user_id", user.id)
+        .single();
+
+      if (parentError || !parent) {
+        return NextResponse.json(
+          { error: revisionOf ? "Video to revise not found" : "Source video not found" },
+          { status: 404 }
+        );
+      }
+      parentVideo = parent;
+
+      if (languageOf) {
+        // Same cut in another language - shares the source's version number
+        if ((parent.language ?? "en") === language) {
+          return NextResponse.json(
+            { error: "Choose a different language than the source video" },
+            { status: 400 }
+          );
+        }
+        version = parent.version ?? 1;
+      } else {
+        // Next version within the listing (handles revising an older version)
+        version = (await getLatestVersion(parent.listing_id)) + 1;
+      }
+    }
+
+    const listingFields = {
+      address: propertyData.address,
+      city: propertyData.city,
+      state: propertyData.state,
+      zip: propertyData.zipCode,
+      price: propertyData.listingPrice,
+      bedrooms: propertyData.bedrooms,
+      bathrooms: propertyData.bathrooms,
+      sqft: propertyData.squareFeet,
+      property_type: dbPropertyType,
+      description: propertyData.description,
+      neighborhood_pois: propertyData.features || [],
+      images: images.map((img) => ({
+        id: img.id,
+        url: img.enhancement !== "original" && img.enhancedUrls[img.enhancement as keyof typeof img.enhancedUrls]
+          ? img.enhancedUrls[img.enhancement as keyof typeof img.enhancedUrls]
+          : img.url,
+        originalUrl: img.url,
+        filename: img.filename,
+        order: img.order,
+        label: img.label,
+        roomType: img.roomType,
+        features: img.features,
+        enhancement: img.enhancement,
+      })),
+    };
+
+    // Create the listing record; revisions and language versions reuse the parent's,
+    // which is only updated once their video exists
+    let listingId: string;
+    if (parentVideo) {
+      listingId = parentVideo.listing_id;
+    } else {
+      const { data: listing, error: listingError } = await supabase
+        .from("listings")
+        .insert({ user_id: user.id, ...listingFields })
+        .select("id")
+        .single();
+
+      if (listingError || !listing) {
+        console.error("Error saving listing:", listingError);
+        return NextResponse.json(
+          { error: "Failed to create listing" },
+          { status: 500 }
+        );
+      }
+      listingId = listing.id;
+    }
+
     // Fetch music track metadata if a track is selected
     let musicTrack: MusicTrackMeta | undefined;
     if (styleOptions.musicEnabled && styleOptions.musicSelection?.trackId) {
@@ -156,61 +251,137 @@ export async function POST(request: Request) {
       }
     }
 
+    // Load the pronunciation lexicon (personal entries override team entries)
+    const { data: pronunciationProfile } = await supabase
+      .from("profiles")
+      .select("team_id")
+      .eq("id", user.id)
+      .single();
+
+    const { data: pronunciationRows, error: pronunciationError } = await supabase
+      .from("pronunciation_entries")
+      .select(PRONUNCIATION_ENTRY_COLUMNS)
+      .or(getLexiconOwnerFilter(user.id, pronunciationProfile?.team_id));
+
+    if (pronunciationError) {
+      // Non-fatal: render with the script as written
+      console.error("Error loading pronunciation lexicon:", pronunciationError);
+    }
+
+    const pronunciation: PronunciationOptions = {
+      entries: mergeLexicons((pronunciationRows || []).map(toPronunciationEntry)),
+    };
+
+    // Measured pace of the selected voice, for the narration duration estimate
+    const voiceRate = await getVoiceSpeakingRate(supabase, styleOptions.voiceId, styleOptions.narrationLanguage);
+
     // Transform wizard data to n8n payload format (now with beat data)
+    // Section template images are mapped by; an invalid one falls back to the default sections
+    const templateSections = styleOptions.sectionTemplate
+      ? parseSectionStructure(styleOptions.sectionTemplate.sections)
+      : null;
+    const sectionTemplate =
+      styleOptions.sectionTemplate && templateSections && !("error" in templateSections)
+        ? { ...styleOptions.sectionTemplate, sections: templateSections }
+        : undefined;
+
     const n8nPayload = transformWizardToN8n(
       propertyData,
       images,
       scriptSections,
-      styleOptions,
+      { ...styleOptions, sectionTemplate },
       user.email || "",
-      musicTrack
+      musicTrack,
+      pronunciation,
+      voiceRate
     );
-    const webhookUrl = buildWebhookUrl("youtubeVideo");
+    // n8n by default; VIDEO_ORCHESTRATOR=local renders via the ffmpeg-service
+    const orchestrator = getVideoOrchestrator();
+    const triggerOptions = { isTest: process.env.NODE_ENV !== "production" };
+    const webhookUrl = orchestrator.getEndpoint(triggerOptions);
 
     // Create video record with n8n payload for debugging
-    const { data: video, error: videoError } = await supabase
-      .from("videos")
-      .insert({
-        listing_id: listing.id,
-        user_id: user.id,
-        status: "pending",
-        script_sections: scriptSections.map((section) => ({
-          id: section.id,
-          type: section.type,
-          title: section.title,
-          content: section.content,
-          imageIds: section.imageIds,
-          order: section.order,
-        })),
-        voice_id: styleOptions.voiceId,
-        music_enabled: styleOptions.musicEnabled,
-        mls_dual_output: styleOptions.mlsDualOutput,
-        n8n_payload: n8nPayload,
-        n8n_webhook_url: webhookUrl,
-      })
-      .select()
-      .single();
+    const insertVideo = () =>
+      supabase
+        .from("videos")
+        .insert({
+          listing_id: listingId,
+          user_id: user.id,
+          status: "pending",
+          script_sections: scriptSections.map((section) => ({
+            id: section.id,
+            type: section.type,
+            title: section.title,
+            content: section.content,
+            imageIds: section.imageIds,
+            order: section.order,
+          })),
+          voice_id: styleOptions.voiceId,
+          music_enabled: styleOptions.musicEnabled,
+          mls_dual_output: styleOptions.mlsDualOutput,
+          fair_housing_override: blockingPhrases.length > 0 ? blockingPhrases : null,
+          n8n_payload: n8nPayload,
+          n8n_webhook_url: webhookUrl,
+          parent_video_id: parentVideo?.id ?? null,
+          version,
+          language,
+          // What this version rendered, so its prefill doesn't follow later edits to the listing
+          listing_snapshot: listingFields,
+        })
+        .select()
+        .single();
+
+    let { data: video, error: videoError } = await insertVideo();
+    // The unique (listing_id, version, language) constraint rejects a revision
+    // that lost the race for its version; take the next free one
+    for (
+      let attempt = 1;
+      videoError?.code === "23505" && revisionOf && parentVideo && attempt < MAX_VERSION_ATTEMPTS;
+      attempt++
+    ) {
+      version = (await getLatestVersion(parentVideo.listing_id)) + 1;
+      ({ data: video, error: videoError } = await insertVideo());
+    }
+
+    if (videoError?.code === "23505" && languageOf) {
+      return NextResponse.json(
+        { error: "This video already has a version in that language" },
+        { status: 409 }
+      );
+    }
 
     if (videoError) {
       console.error("Error creating video:", videoError);
-      // Clean up the listing if video creation fails
-      await supabase.from("listings").delete().eq("id", listing.id);
+      // Clean up the listing if video creation fails (revisions and language versions keep theirs)
+      if (!parentVideo) {
+        await supabase.from("listings").delete().eq("id", listingId);
+      }
       return NextResponse.json(
         { error: "Failed to create video record" },
         { status: 500 }
       );
     }
 
+    // The shared listing shows the newest version's details
+    if (parentVideo) {
+      const { error: listingError } = await supabase
+        .from("listings")
+        .update(listingFields)
+        .eq("id", listingId);
+      if (listingError) {
+        // Non-fatal: the video carries its own snapshot
+        console.error("Error updating listing:", listingError);
+      }
+    }
+
     // Add video ID to payload for completion callback
     const payloadWithVideoId = {
       ...n8nPayload,
       videoId: video.id,
     };
 
-    // Trigger n8n Youtube Video workflow
-    const webhookResponse = await triggerYoutubeVideo(payloadWithVideoId, {
-      isTest: process.env.NODE_ENV !== "production",
-    });
+    // Start the render
+    const webhookResponse = await orchestrator.trigger(payloadWithVideoId, triggerOptions);
 
     if (webhookResponse.success) {
       // Update video status to processing
@@ -223,13 +394,15 @@ export async function POST(request: Request) {
         .eq("id", video.id);
     } else {
       // Log the error but don't fail - video record exists for retry
-      console.error("n8n webhook trigger failed:", webhookResponse.error);
+      console.error(`${orchestrator.name} render trigger failed:`, webhookResponse.error);
     }
 
     return NextResponse.json({
       success: true,
-      listingId: listing.id,
+      listingId,
       videoId: video.id,
+      version,
+      orchestrator: orchestrator.name,
       n8nWebhookUrl: webhookUrl,
       n8nTriggered: webhookResponse.success,
       n8nExecutionId: webhookResponse.executionId,
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  PRONUNCIATION_ENTRY_COLUMNS,
+  getLexiconOwnerFilter,
+  parsePronunciationInput,
+  toPronunciationEntry,
+} from "@/lib/pronunciation";
+
+/**
+ * PATCH /api/pronunciation/[id]
+ *
+ * Updates a personal or team entry.
+ *
+ * Request body:
+ * - term: string
+ * - replacement: string
+ * - kind?: "respelling" | "alias"
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = parsePronunciationInput(await request.json());
+    if ("error" in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("team_id")
+      .eq("id", user.id)
+      .single();
+
+    const { data, error } = await supabase
+      .from("pronunciation_entries")
+      .update(input)
+      .eq("id", id)
+      .or(getLexiconOwnerFilter(user.id, profile?.team_id))
+      .select(PRONUNCIATION_ENTRY_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: `"${input.term}" is already in this lexicon` },
+        { status: 409 }
+      );
+    }
+    if (error || !data) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry: toPronunciationEntry(data) });
+  } catch (error) {
+    console.error("Update pronunciation entry error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update pronunciation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/pronunciation/[id]
+ *
+ * Removes a personal or team entry.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("team_id")
+      .eq("id", user.id)
+      .single();
+
+    const { error } = await supabase
+      .from("pronunciation_entries")
+      .delete()
+      .eq("id", id)
+      .or(getLexiconOwnerFilter(user.id, profile?.team_id));
+
+    if (error) {
+      console.error("Error deleting pronunciation entry:", error);
+      return NextResponse.json(
+        { error: "Failed to delete pronunciation" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete pronunciation entry error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete pronunciation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  PRONUNCIATION_ENTRY_COLUMNS,
+  getLexiconOwnerFilter,
+  parsePronunciationInput,
+  toPronunciationEntry,
+} from "@/lib/pronunciation";
+
+/**
+ * GET /api/pronunciation
+ *
+ * Lists the user's personal and team pronunciation entries, with the
+ * team (if any).
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("team_id, teams(name)")
+      .eq("id", user.id)
+      .single();
+
+    const { data, error } = await supabase
+      .from("pronunciation_entries")
+      .select(PRONUNCIATION_ENTRY_COLUMNS)
+      .or(getLexiconOwnerFilter(user.id, profile?.team_id))
+      .order("term", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching pronunciation entries:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch pronunciation entries" },
+        { status: 500 }
+      );
+    }
+
+    const team = profile?.teams as { name: string } | { name: string }[] | null | undefined;
+    const teamName = Array.isArray(team) ? team[0]?.name : team?.name;
+
+    return NextResponse.json({
+      entries: (data || []).map(toPronunciationEntry),
+      team: profile?.team_id ? { id: profile.team_id, name: teamName || "Team" } : null,
+    });
+  } catch (error) {
+    console.error("List pronunciation entries error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch pronunciation entries" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/pronunciation
+ *
+ * Adds a term to the lexicon.
+ *
+ * Request body:
+ * - term: string - Text as written in the script
+ * - replacement: string - What TTS should read instead
+ * - kind?: "respelling" | "alias" (default: "respelling")
+ * - scope?: "user" | "team" (default: "user"); team entries require a team
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = parsePronunciationInput(body);
+    if ("error" in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    let teamId: string | null = null;
+    if (body.scope === "team") {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("team_id")
+        .eq("id", user.id)
+        .single();
+
+      if (!profile?.team_id) {
+        return NextResponse.json(
+          { error: "You are not a member of a team" },
+          { status: 400 }
+        );
+      }
+      teamId = profile.team_id;
+    }
+
+    const { data, error } = await supabase
+      .from("pronunciation_entries")
+      .insert({
+        user_id: teamId ? null : user.id,
+        team_id: teamId,
+        term: input.term,
+        replacement: input.replacement,
+        kind: input.kind,
+        created_by: user.id,
+      })
+      .select(PRONUNCIATION_ENTRY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // Unique (owner, lower(term)) index
+      if (error?.code === "23505") {
+        return NextResponse.json(
+          { error: `"${input.term}" is already in this lexicon` },
+          { status: 409 }
+        );
+      }
+      console.error("Error creating pronunciation entry:", error);
+      return NextResponse.json(
+        { error: "Failed to add pronunciation" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ entry: toPronunciationEntry(data) }, { status: 201 });
+  } catch (error) {
+    console.error("Create pronunciation entry error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to add pronunciation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getOpenAI } from "@/lib/openai";
+import type { NarrationLanguage, NarrationTone } from "@/lib/wizard/types";
+import {
+  calculateSectionWordBudgets,
+  getCalibratedLanguageProfile,
+  getSectionStructure,
+  getToneProfile,
+  groupImagesBySection,
+  parseSectionStructure,
+  tightenScriptSections,
+  type ScriptImageInput,
+  type ScriptPropertyInput,
+  type TightenInputSection,
+} from "@/lib/script";
+import { getVoiceSpeakingRate } from "@/lib/script/voice-rates";
+
+/**
+ * POST /api/script/fit
+ *
+ * Tighten the sections of an edited script that run past their word
+ * budgets. Sections within budget come back unchanged.
+ *
+ * Request body:
+ * - propertyData: ScriptPropertyInput - features to keep mentioning
+ * - images: ScriptImageInput[] - tour images, used for the word budgets
+ * - sections: { type, content }[] - the current full script
+ * - tone?: NarrationTone - narrator persona used for the script (default: luxury)
+ * - language?: NarrationLanguage - language the script is written in (default: en)
+ * - voiceId?: string - selected voice; budgets use its measured speaking rate when known
+ * - structure?: ScriptSectionDefinition[] - section template the script uses (default: the property type's structure)
+ *
+ * Returns: { sections: TightenResult[] } - every section with before/after counts
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { propertyData, images, sections, tone, language, voiceId, structure: rawStructure } = await request.json() as {
+      propertyData: ScriptPropertyInput;
+      images: ScriptImageInput[];
+      sections: TightenInputSection[];
+      tone?: NarrationTone;
+      language?: NarrationLanguage;
+      voiceId?: string;
+      structure?: unknown;
+    };
+
+    // Validate inputs
+    if (!propertyData || !images || images.length === 0) {
+      return NextResponse.json(
+        { error: "Property data and images are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(sections) || sections.length === 0) {
+      return NextResponse.json(
+        { error: "sections must be the current script" },
+        { status: 400 }
+      );
+    }
+
+    const structure = rawStructure
+      ? parseSectionStructure(rawStructure)
+      : getSectionStructure(null, propertyData.propertyType);
+    if ("error" in structure) {
+      return NextResponse.json({ error: structure.error }, { status: 400 });
+    }
+
+    const toneProfile = getToneProfile(tone);
+    const voiceRate = await getVoiceSpeakingRate(await createClient(), voiceId, language);
+    const languageProfile = getCalibratedLanguageProfile(language, voiceRate);
+
+    // Same grouping and budgets as full generation
+    const sortedImages = [...images].sort((a, b) => a.order - b.order);
+    const sectionGroups = groupImagesBySection(sortedImages, structure);
+    const wordBudgets = calculateSectionWordBudgets(
+      sectionGroups,
+      languageProfile.maxTotalWords,
+      languageProfile.wordsPerMinute,
+      structure
+    );
+
+    const result = await tightenScriptSections(
+      getOpenAI(),
+      sections.map((s) => ({ type: s.type, content: s.content || "" })),
+      wordBudgets,
+      sectionGroups,
+      propertyData.features || [],
+      toneProfile,
+      languageProfile,
+      language
+    );
+
+    return NextResponse.json({ sections: result });
+  } catch (error) {
+    console.error("Script fit error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fit script" },
+      { status: 500 }
+    );
+  }
+}
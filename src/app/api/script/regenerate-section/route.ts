@@ -0,0 +1,294 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getOpenAI } from "@/lib/openai";
+import type {
+  NarrationLanguage,
+  NarrationTone,
+  ScriptSectionDefinition,
+  ScriptSectionType,
+} from "@/lib/wizard/types";
+import {
+  FORBIDDEN_PATTERNS,
+  NARRATIVE_STYLE_RULES,
+  STYLE_RULES,
+  calculateSectionWordBudgets,
+  countScriptWords,
+  formatPropertyFacts,
+  getCalibratedLanguageProfile,
+  getPropertyTypeProfile,
+  getSectionApproach,
+  getSectionStructure,
+  getStateName,
+  getToneProfile,
+  groupImagesBySection,
+  parseSectionStructure,
+  type GeneratedSection,
+  type LanguageProfile,
+  type PropertyTypeProfile,
+  type ScriptImageInput,
+  type ScriptPropertyInput,
+  type SectionWordBudget,
+} from "@/lib/script";
+import { getVoiceSpeakingRate } from "@/lib/script/voice-rates";
+
+/**
+ * Longest instruction accepted from the user.
+ */
+const MAX_INSTRUCTION_LENGTH = 300;
+
+/**
+ * Current narration for one section, as shown in the Script step.
+ */
+interface CurrentSection {
+  type: ScriptSectionType;
+  content: string;
+}
+
+/**
+ * POST /api/script/regenerate-section
+ *
+ * Rewrite a single section of an existing script, keeping tone and
+ * transitions consistent with the sections around it.
+ *
+ * Request body:
+ * - propertyData: ScriptPropertyInput
+ * - images: ScriptImageInput[] - tour images, used for the section's images and word budget
+ * - sections: { type, content }[] - the current full script
+ * - sectionType: ScriptSectionType - section to rewrite
+ * - instruction?: string - free-text direction ("mention the wine cellar", "shorter, punchier")
+ * - tone?: NarrationTone - narrator persona used for the script (default: luxury)
+ * - language?: NarrationLanguage - language the script is written in (default: en)
+ * - voiceId?: string - selected voice; budgets use its measured speaking rate when known
+ * - structure?: ScriptSectionDefinition[] - section template the script uses (default: the property type's structure)
+ *
+ * Returns: { section: GeneratedSection, targetWords: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      propertyData,
+      images,
+      sections,
+      sectionType,
+      instruction,
+      tone,
+      language,
+      voiceId,
+      structure: rawStructure,
+    } = await request.json() as {
+      propertyData: ScriptPropertyInput;
+      images: ScriptImageInput[];
+      sections: CurrentSection[];
+      sectionType: ScriptSectionType;
+      instruction?: string;
+      tone?: NarrationTone;
+      language?: NarrationLanguage;
+      voiceId?: string;
+      structure?: unknown;
+    };
+
+    // Validate inputs
+    if (!propertyData || !images || images.length === 0) {
+      return NextResponse.json(
+        { error: "Property data and images are required" },
+        { status: 400 }
+      );
+    }
+
+    const structure = rawStructure
+      ? parseSectionStructure(rawStructure)
+      : getSectionStructure(null, propertyData.propertyType);
+    if ("error" in structure) {
+      return NextResponse.json({ error: structure.error }, { status: 400 });
+    }
+
+    const config = structure.find((c) => c.type === sectionType);
+    if (!config) {
+      return NextResponse.json(
+        { error: "Invalid sectionType" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(sections)) {
+      return NextResponse.json(
+        { error: "sections must be the current script" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedInstruction = (instruction || "").trim().slice(0, MAX_INSTRUCTION_LENGTH);
+    const toneProfile = getToneProfile(tone);
+    const propertyProfile = getPropertyTypeProfile(propertyData.propertyType);
+    const voiceRate = await getVoiceSpeakingRate(await createClient(), voiceId, language);
+    const languageProfile = getCalibratedLanguageProfile(language, voiceRate);
+
+    // Same grouping and budgets as full generation so the section fits its footage
+    const sortedImages = [...images].sort((a, b) => a.order - b.order);
+    const sectionGroups = groupImagesBySection(sortedImages, structure);
+    const budget = calculateSectionWordBudgets(
+      sectionGroups,
+      languageProfile.maxTotalWords,
+      languageProfile.wordsPerMinute,
+      structure
+    ).find((b) => b.type === sectionType)!;
+    const sectionImages = sectionGroups.get(sectionType) || [];
+
+    const prompt = buildSectionPrompt(
+      propertyData,
+      sections,
+      budget,
+      sectionImages,
+      trimmedInstruction,
+      propertyProfile,
+      languageProfile,
+      structure
+    );
+
+    const response = await getOpenAI().chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: `You are ${toneProfile.persona} rewriting ONE section of an existing tour script.
+
+The rewritten section must read as part of the same script: match the voice, tense and point of view of the surrounding sections, pick up from the end of the previous section and lead naturally into the next one. Do not repeat phrases already used elsewhere in the script.
+
+${NARRATIVE_STYLE_RULES}
+
+${[toneProfile.rules, propertyProfile.rules, languageProfile.rules].filter(Boolean).join("\n\n")}
+
+${FORBIDDEN_PATTERNS}
+
+OUTPUT: JSON only: {"content": "..."}`,
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      max_tokens: 500,
+      temperature: 0.6, // A little more variety than full generation - the user asked for a new take
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("No response from GPT-4");
+    }
+
+    // Parse the JSON response
+    let jsonStr = content.trim();
+    if (jsonStr.startsWith("```")) {
+      jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```$/g, "").trim();
+    }
+
+    const generated = JSON.parse(jsonStr) as { content?: string };
+    if (!generated.content?.trim()) {
+      throw new Error("Empty section returned");
+    }
+
+    const wordCount = countScriptWords(generated.content, language);
+    console.log(
+      `Section regenerated (${sectionType}): ${wordCount} ${languageProfile.unit} (budget: ${budget.targetWords})` +
+        (trimmedInstruction ? ` - "${trimmedInstruction}"` : "")
+    );
+
+    const section: GeneratedSection = {
+      type: config.type,
+      title: config.title,
+      content: generated.content.trim(),
+      imageIds: sectionImages.map((img) => img.id),
+    };
+
+    return NextResponse.json({ section, targetWords: budget.targetWords });
+  } catch (error) {
+    console.error("Section regeneration error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to regenerate section" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Build the prompt for rewriting one section.
+ * The full current script is included so the model can keep continuity,
+ * with the target section marked and the neighbours' edges called out.
+ */
+function buildSectionPrompt(
+  property: ScriptPropertyInput,
+  sections: CurrentSection[],
+  budget: SectionWordBudget,
+  sectionImages: ScriptImageInput[],
+  instruction: string,
+  propertyProfile: PropertyTypeProfile,
+  languageProfile: LanguageProfile,
+  structure: ScriptSectionDefinition[]
+): string {
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(price);
+
+  // Current script in tour order, target marked
+  const ordered = structure
+    .map((config) => ({ config, current: sections.find((s) => s.type === config.type) }))
+    .filter(({ current }) => current?.content.trim());
+  const currentScript = ordered
+    .map(({ config, current }) =>
+      config.type === budget.type
+        ? `[${config.title.toUpperCase()} - REWRITE THIS SECTION]\n${current!.content}`
+        : `[${config.title}]\n${current!.content}`
+    )
+    .join("\n\n");
+
+  // Edges the rewrite has to connect to
+  const targetIndex = ordered.findIndex(({ config }) => config.type === budget.type);
+  const previous = targetIndex > 0 ? ordered[targetIndex - 1] : undefined;
+  const next = targetIndex >= 0 && targetIndex < ordered.length - 1 ? ordered[targetIndex + 1] : undefined;
+  const lastSentence = (text: string) => text.trim().split(/(?<=[.!?])\s+/).pop();
+  const firstSentence = (text: string) => text.trim().split(/(?<=[.!?])\s+/)[0];
+  const continuity = [
+    previous && `- Previous section ends: "${lastSentence(previous.current!.content)}"`,
+    next && `- Next section begins: "${firstSentence(next.current!.content)}"`,
+  ].filter(Boolean).join("\n");
+
+  // Images shown while this section plays
+  const imageList = sectionImages.length > 0
+    ? sectionImages
+        .map((img, i) => `${i + 1}. "${img.label}"${img.features.length > 0 ? ` - ${img.features.join(", ")}` : ""}`)
+        .join("\n")
+    : "(no images - this section plays over a transition or the closing)";
+
+  // Agent contact for closing
+  const agentContact =
+    budget.type === "closing" && (property.agentPhone || property.agentSocial)
+      ? `\n**AGENT CONTACT (reference in closing):** ${[property.agentPhone, property.agentSocial].filter(Boolean).join(", ")}`
+      : "";
+
+  const minWords = Math.round(budget.targetWords * 0.75);
+
+  return `Rewrite the ${budget.title} section of this property tour script.
+
+**PROPERTY:**
+${property.address}, ${property.city}, ${getStateName(property.state)}
+${[formatPrice(property.price), formatPropertyFacts(property, propertyProfile)].filter(Boolean).join(" | ")}
+${property.description ? `Description: ${property.description}` : ""}${agentContact}
+
+**CURRENT SCRIPT:**
+${currentScript || "(empty)"}
+
+**IMAGES IN THIS SECTION:** (${sectionImages.length}, shown in this order)
+${imageList}
+
+**SECTION GOAL:**
+- ${getSectionApproach(structure.find((s) => s.type === budget.type)!)}
+
+**⚠️ WORD BUDGET:** ${minWords}-${budget.targetWords} ${languageProfile.unit} (${budget.clipSeconds}s of footage). Stay inside this range.
+
+**CONTINUITY:**
+${continuity || "- This is the only section with narration"}
+${instruction ? `\n**USER INSTRUCTION (follow this):**\n${instruction}\n` : ""}
+**STYLE RULES:**
+${STYLE_RULES}
+
+Return only the new ${budget.title} narration, written in ${languageProfile.name}, as {"content": "..."}.`;
+}
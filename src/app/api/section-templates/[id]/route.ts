@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  SECTION_TEMPLATE_COLUMNS,
+  parseSectionTemplateInput,
+  toSectionTemplate,
+} from "@/lib/script";
+
+/**
+ * PATCH /api/section-templates/[id]
+ *
+ * Updates a section template. Drafts and videos that already use it keep
+ * their own copy of the sections.
+ *
+ * Request body:
+ * - name: string
+ * - sections: { title, roomTypes, approach? }[]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = parseSectionTemplateInput(await request.json());
+    if ("error" in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("section_templates")
+      .update(input)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select(SECTION_TEMPLATE_COLUMNS)
+      .single();
+
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: `You already have a template named "${input.name}"` },
+        { status: 409 }
+      );
+    }
+    if (error || !data) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ template: toSectionTemplate(data) });
+  } catch (error) {
+    console.error("Update section template error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update section template" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/section-templates/[id]
+ *
+ * Removes a section template.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from("section_templates")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting section template:", error);
+      return NextResponse.json(
+        { error: "Failed to delete section template" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete section template error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete section template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  SECTION_TEMPLATE_COLUMNS,
+  parseSectionTemplateInput,
+  toSectionTemplate,
+} from "@/lib/script";
+
+/**
+ * GET /api/section-templates
+ *
+ * Lists the user's section templates by name.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("section_templates")
+      .select(SECTION_TEMPLATE_COLUMNS)
+      .eq("user_id", user.id)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching section templates:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch section templates" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ templates: (data || []).map(toSectionTemplate) });
+  } catch (error) {
+    console.error("List section templates error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch section templates" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/section-templates
+ *
+ * Saves a new section template.
+ *
+ * Request body:
+ * - name: string - Template name ("Condo", "Land")
+ * - sections: { title, roomTypes, approach? }[] - Opening first, closing last
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = parseSectionTemplateInput(await request.json());
+    if ("error" in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("section_templates")
+      .insert({
+        user_id: user.id,
+        name: input.name,
+        sections: input.sections,
+      })
+      .select(SECTION_TEMPLATE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // Unique (user_id, lower(name)) index
+      if (error?.code === "23505") {
+        return NextResponse.json(
+          { error: `You already have a template named "${input.name}"` },
+          { status: 409 }
+        );
+      }
+      console.error("Error creating section template:", error);
+      return NextResponse.json(
+        { error: "Failed to save section template" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ template: toSectionTemplate(data) }, { status: 201 });
+  } catch (error) {
+    console.error("Create section template error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save section template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  CAPTION_FORMATS,
+  buildCaptionCues,
+  formatCaptions,
+  getSectionTexts,
+  type CaptionFormat,
+  type CaptionLevel,
+  type NarrationTiming,
+} from "@/lib/captions";
+import { getCalibratedLanguageProfile } from "@/lib/script";
+import { getVoiceSpeakingRate } from "@/lib/script/voice-rates";
+
+/**
+ * GET /api/videos/[id]/captions?format=srt|vtt&level=phrase|word
+ *
+ * Returns sidecar captions for a video as an SRT or WebVTT attachment.
+ * Cues are timed from the script sections and the narration timings the
+ * render reported, falling back to estimates for older videos.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get("format") || "srt") as CaptionFormat;
+    const level = (searchParams.get("level") || "phrase") as CaptionLevel;
+
+    if (!CAPTION_FORMATS[format]) {
+      return NextResponse.json(
+        { error: "format must be 'srt' or 'vtt'" },
+        { status: 400 }
+      );
+    }
+
+    if (level !== "phrase" && level !== "word") {
+      return NextResponse.json(
+        { error: "level must be 'phrase' or 'word'" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // RLS ensures user can only access their own videos
+    const { data: video, error: videoError } = await supabase
+      .from("videos")
+      .select("id, script_sections, narration_timings, language, voice_id")
+      .eq("id", id)
+      .single();
+
+    if (videoError || !video) {
+      return NextResponse.json(
+        { error: "Video not found" },
+        { status: 404 }
+      );
+    }
+
+    // Videos rendered without measured timings are estimated at the voice's pace
+    const voiceRate = await getVoiceSpeakingRate(supabase, video.voice_id, video.language);
+    const cues = buildCaptionCues(
+      getSectionTexts(video.script_sections as Array<{ content?: string; order?: number }>),
+      video.narration_timings as NarrationTiming[] | null,
+      {
+        level,
+        language: video.language,
+        wordsPerMinute: getCalibratedLanguageProfile(video.language, voiceRate).wordsPerMinute,
+      }
+    );
+
+    if (cues.length === 0) {
+      return NextResponse.json(
+        { error: "Video has no narration script" },
+        { status: 400 }
+      );
+    }
+
+    const { contentType, extension } = CAPTION_FORMATS[format];
+    return new NextResponse(formatCaptions(cues, format), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="captions.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Captions error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate captions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { ASPECT_RATIO_OPTIONS, type AspectRatio } from "@/lib/wizard/types";
+import { CAPTION_FORMATS, type CaptionFormat } from "@/lib/captions";
 
 /**
  * Sanitizes an address into a filename-safe string.
@@ -23,12 +25,25 @@ interface DownloadResponse {
     url: string | null;
     filename: string;
   };
+  /** Branded render per aspect ratio, landscape first */
+  formats: Array<{
+    aspectRatio: AspectRatio;
+    url: string;
+    filename: string;
+  }>;
+  /** Sidecar caption files generated from the narration script */
+  captions: Record<CaptionFormat, {
+    url: string;
+    filename: string;
+  }>;
 }
 
 /**
  * GET /api/videos/[id]/download
  *
- * Returns download URLs for branded and unbranded video versions.
+ * Returns download URLs for branded and unbranded video versions,
+ * plus each social aspect ratio rendered for the video and SRT/WebVTT
+ * caption downloads.
  * Validates ownership via Supabase RLS before returning URLs.
  * Generates descriptive filenames from listing address.
  */
@@ -66,6 +81,7 @@ export async function GET(
         status,
         branded_url,
         unbranded_url,
+        outputs,
         listing:listings!inner(
           address,
           city,
@@ -104,6 +120,19 @@ export async function GET(
     const listing = listingData[0];
     const baseFilename = sanitizeFilename(listing.address);
 
+    // Landscape falls back to branded_url for videos rendered before outputs existed
+    const outputs = {
+      ...(video.outputs as Partial<Record<AspectRatio, string>> | null),
+      "16:9": video.branded_url,
+    };
+    const formats = ASPECT_RATIO_OPTIONS.filter((option) => outputs[option.value]).map(
+      (option) => ({
+        aspectRatio: option.value,
+        url: outputs[option.value] as string,
+        filename: `${baseFilename}-branded-${option.value.replace(":", "x")}.mp4`,
+      })
+    );
+
     const response: DownloadResponse = {
       branded: {
         url: video.branded_url,
@@ -113,6 +142,17 @@ export async function GET(
         url: video.unbranded_url,
         filename: `${baseFilename}-unbranded.mp4`,
       },
+      formats,
+      captions: {
+        srt: {
+          url: `/api/videos/${id}/captions?format=srt`,
+          filename: `${baseFilename}.${CAPTION_FORMATS.srt.extension}`,
+        },
+        vtt: {
+          url: `/api/videos/${id}/captions?format=vtt`,
+          filename: `${baseFilename}.${CAPTION_FORMATS.vtt.extension}`,
+        },
+      },
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  PREFILL_LISTING_COLUMNS,
+  PREFILL_VIDEO_COLUMNS,
+  buildLanguageState,
+  buildRevisionState,
+  buildTemplateState,
+  getRenderedListing,
+  type PrefillListingRow,
+  type PrefillMode,
+  type PrefillMusicTrack,
+  type PrefillVideoRow,
+} from "@/lib/wizard/prefill";
+
+const PREFILL_MODES: PrefillMode[] = ["template", "revision", "language"];
+
+const PREFILL_BUILDERS: Record<PrefillMode, typeof buildTemplateState> = {
+  template: buildTemplateState,
+  revision: buildRevisionState,
+  language: buildLanguageState,
+};
+
+/**
+ * GET /api/videos/[id]/prefill?mode=template|revision|language
+ *
+ * Builds a WizardState from a past video so the wizard can start from it.
+ * - template: keeps script, voice, music and branding; clears address and photos
+ * - revision: restores the full listing for a new render of a completed video
+ * - language: restores the listing for a new language version of a completed video
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const mode = (request.nextUrl.searchParams.get("mode") || "template") as PrefillMode;
+
+    if (!PREFILL_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Unsupported prefill mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS restricts both reads to the owner's rows
+    const { data: video, error: videoError } = await supabase
+      .from("videos")
+      .select(PREFILL_VIDEO_COLUMNS)
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (videoError || !video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const { data: listing, error: listingError } = await supabase
+      .from("listings")
+      .select(PREFILL_LISTING_COLUMNS)
+      .eq("id", video.listing_id)
+      .single();
+
+    if (listingError || !listing) {
+      return NextResponse.json({ error: "Listing not found" }, { status: 404 });
+    }
+
+    const videoRow = video as unknown as PrefillVideoRow;
+
+    // Only finished renders can be revised or narrated in another language
+    if (mode !== "template" && videoRow.status !== "completed") {
+      return NextResponse.json(
+        {
+          error: mode === "revision"
+            ? "Only completed videos can be revised"
+            : "Only completed videos can get a language version",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Match the stored music URL back to a library track
+    let musicTrack: PrefillMusicTrack | null = null;
+    if (videoRow.n8n_payload?.music) {
+      const { data: track } = await supabase
+        .from("music_tracks")
+        .select("id, title, file_url")
+        .eq("file_url", videoRow.n8n_payload.music)
+        .maybeSingle();
+      musicTrack = track;
+    }
+
+    const buildState = PREFILL_BUILDERS[mode];
+    const state = buildState(
+      videoRow,
+      getRenderedListing(videoRow, listing as unknown as PrefillListingRow),
+      musicTrack
+    );
+
+    return NextResponse.json({ state });
+  } catch (error) {
+    console.error("Video prefill error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load video" },
+      { status: 500 }
+    );
+  }
+}
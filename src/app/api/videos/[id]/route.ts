@@ -4,7 +4,7 @@ import { createClient } from "@/lib/supabase/server";
 /**
  * DELETE /api/videos/[id]
  *
- * Delete a video and its associated listing.
+ * Delete a video, and its listing once no other versions remain.
  * Only the owner can delete their videos.
  */
 export async function DELETE(
@@ -54,8 +54,13 @@ export async function DELETE(
       );
     }
 
-    // Also delete the associated listing
-    if (video.listing_id) {
+    // Also delete the associated listing, unless other versions still use it
+    const { count: remainingVersions } = await supabase
+      .from("videos")
+      .select("id", { count: "exact", head: true })
+      .eq("listing_id", video.listing_id);
+
+    if (video.listing_id && !remainingVersions) {
       const { error: deleteListingError } = await supabase
         .from("listings")
         .delete()
@@ -1,5 +1,9 @@
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
 import { createServiceRoleClient } from "@/lib/supabase/service";
+import { finalizeRender } from "@/lib/ffmpeg";
+import type { NarrationTiming } from "@/lib/captions";
+import { ASPECT_RATIO_OPTIONS, type AspectRatio, type CaptionStyle } from "@/lib/wizard/types";
+import type { VideoOutputs } from "@/types/video";
 
 /**
  * POST /api/videos/complete
@@ -8,16 +12,52 @@ import { createServiceRoleClient } from "@/lib/supabase/service";
  * This endpoint receives callbacks from n8n when video generation completes
  * (either successfully or with an error) and updates the database accordingly.
  *
+ * Social aspect ratios requested in the wizard but missing from `outputs`
+ * are reframed from the landscape video by the ffmpeg-service afterwards.
+ * When a caption style was chosen the video stays in "rendering" until
+ * the captions are burned in.
+ *
  * Security: Validates Authorization header against N8N_WEBHOOK_SECRET.
  */
 
 interface CompletionPayload {
   video_id: string;
   video_url: string;
+  unbranded_url?: string; // MLS render without agent branding (when mlsDualOutput was requested)
   thumbnail_url?: string;
   status: "completed" | "failed";
   error_message?: string;
   execution_id: string;
+  outputs?: Record<string, string>; // Optional per-ratio URLs rendered by the workflow
+  narration_timings?: NarrationTiming[]; // Optional per-section narration start/duration (seconds)
+}
+
+const ASPECT_RATIOS = ASPECT_RATIO_OPTIONS.map((option) => option.value);
+
+/**
+ * Keep only known aspect ratios with string URLs.
+ */
+function sanitizeOutputs(outputs: CompletionPayload["outputs"]): VideoOutputs {
+  const result: VideoOutputs = {};
+  for (const [ratio, url] of Object.entries(outputs || {})) {
+    if (ASPECT_RATIOS.includes(ratio as AspectRatio) && typeof url === "string" && url) {
+      result[ratio as AspectRatio] = url;
+    }
+  }
+  return result;
+}
+
+/**
+ * Keep narration timings only when every entry has numeric start/duration.
+ */
+function sanitizeNarrationTimings(
+  timings: CompletionPayload["narration_timings"]
+): NarrationTiming[] | null {
+  if (!Array.isArray(timings) || timings.length === 0) return null;
+  const valid = timings.every(
+    (t) => Number.isFinite(t?.start) && Number.isFinite(t?.duration) && t.start >= 0 && t.duration >= 0
+  );
+  return valid ? timings.map((t) => ({ start: t.start, duration: t.duration })) : null;
 }
 
 export async function POST(request: Request) {
@@ -95,7 +135,7 @@ export async function POST(request: Request) {
     // Check if video exists
     const { data: existingVideo, error: fetchError } = await supabase
       .from("videos")
-      .select("id")
+      .select("id, n8n_payload")
       .eq("id", body.video_id)
       .single();
 
@@ -112,11 +152,28 @@ export async function POST(request: Request) {
       n8n_execution_id: body.execution_id,
     };
 
+    const requested = existingVideo.n8n_payload as {
+      aspectRatios?: AspectRatio[];
+      captionStyle?: CaptionStyle;
+      heroImageUrl?: string;
+    } | null;
+    const burnCaptions = !!requested?.captionStyle && requested.captionStyle !== "none";
+    const narrationTimings = sanitizeNarrationTimings(body.narration_timings);
+
+    let outputs: VideoOutputs = {};
     if (body.status === "completed") {
-      // For completed videos, set the branded_url (unbranded deferred per 03-CONTEXT.md)
+      // For completed videos, set the branded and (when rendered) unbranded URLs
+      outputs = { ...sanitizeOutputs(body.outputs), "16:9": body.video_url };
       updateData.branded_url = body.video_url;
-      updateData.thumbnail_url = body.thumbnail_url || null;
+      updateData.unbranded_url = body.unbranded_url || null;
+      updateData.outputs = outputs;
+      // Without a rendered thumbnail, fall back to the hero exterior photo
+      updateData.thumbnail_url = body.thumbnail_url || requested?.heroImageUrl || null;
+      updateData.narration_timings = narrationTimings;
       updateData.error_message = null; // Clear any previous error
+      if (burnCaptions) {
+        updateData.status = "rendering";
+      }
     } else {
       // For failed videos, set the error message
       updateData.error_message = body.error_message;
@@ -136,6 +193,19 @@ export async function POST(request: Request) {
       );
     }
 
+    // Burn in captions and reframe any social formats the workflow didn't render
+    if (body.status === "completed" && (burnCaptions || (requested?.aspectRatios?.length ?? 0) > 1)) {
+      after(() =>
+        finalizeRender(body.video_id, {
+          videoUrl: body.video_url,
+          unbrandedUrl: body.unbranded_url || null,
+          narrationTimings,
+          // Workflow-rendered formats have no captions; redo them from the clean render
+          outputs: burnCaptions ? {} : outputs,
+        })
+      );
+    }
+
     return NextResponse.json({
       success: true,
       videoId: body.video_id,
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { createHash } from "crypto";
+import * as mm from "music-metadata";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service";
+import { ELEVENLABS_TTS_MODEL, synthesizeSpeech } from "@/lib/elevenlabs/client";
+import {
+  PRONUNCIATION_ENTRY_COLUMNS,
+  getLexiconOwnerFilter,
+  mergeLexicons,
+  toPronunciationEntry,
+} from "@/lib/pronunciation";
+import { countScriptWords, toSpeechSample } from "@/lib/script";
+import { sanitizeForTts } from "@/lib/tts";
+
+/** Longest section text accepted for a preview */
+const MAX_PREVIEW_CHARS = 1500;
+
+/** Storage folder for cached previews in the audio-files bucket */
+const PREVIEW_FOLDER = "previews";
+
+/**
+ * POST /api/voices/preview
+ * Synthesizes one script section with the chosen voice, exactly as the
+ * render will send it to TTS (lexicon and normalization applied).
+ * Results are cached in the audio-files bucket by voice and text hash,
+ * so replaying an unchanged section costs nothing. Fresh clips are also
+ * recorded as speech samples, tagged as previews; only render samples
+ * feed the calibrated speaking rate.
+ *
+ * Request body:
+ * - voiceId: string - ElevenLabs voice ID
+ * - text: string - Section narration as written
+ * - language?: string - Narration language (default: "en")
+ *
+ * Returns: { url, duration, cached }
+ */
+export async function POST(request: Request) {
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: "ElevenLabs API key not configured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { voiceId, text, language } = (await request.json()) as {
+      voiceId?: string;
+      text?: string;
+      language?: string;
+    };
+
+    if (!voiceId || !/^[A-Za-z0-9]+$/.test(voiceId)) {
+      return NextResponse.json(
+        { error: "A valid voiceId is required" },
+        { status: 400 }
+      );
+    }
+    if (!text?.trim()) {
+      return NextResponse.json(
+        { error: "Section text is required" },
+        { status: 400 }
+      );
+    }
+    if (text.length > MAX_PREVIEW_CHARS) {
+      return NextResponse.json(
+        { error: `Sections are limited to ${MAX_PREVIEW_CHARS} characters for preview` },
+        { status: 400 }
+      );
+    }
+
+    // Same pronunciation lexicon the render uses
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("team_id")
+      .eq("id", user.id)
+      .single();
+
+    const { data: pronunciationRows } = await supabase
+      .from("pronunciation_entries")
+      .select(PRONUNCIATION_ENTRY_COLUMNS)
+      .or(getLexiconOwnerFilter(user.id, profile?.team_id));
+
+    const lexicon = mergeLexicons((pronunciationRows || []).map(toPronunciationEntry));
+    const ttsText = sanitizeForTts(text, lexicon, language || "en");
+
+    // Anything that changes the audio is part of the cache key
+    const hash = createHash("sha256")
+      .update(JSON.stringify([ELEVENLABS_TTS_MODEL, ttsText]))
+      .digest("hex");
+    const path = `${PREVIEW_FOLDER}/${voiceId}/${hash}.mp3`;
+
+    const serviceClient = createServiceRoleClient();
+    const storage = serviceClient.storage.from("audio-files");
+
+    const { data: cached } = await storage.info(path);
+    const cachedDuration = Number(cached?.metadata?.duration);
+    if (cached && Number.isFinite(cachedDuration)) {
+      return NextResponse.json({
+        url: storage.getPublicUrl(path).data.publicUrl,
+        duration: cachedDuration,
+        cached: true,
+      });
+    }
+
+    const audio = await synthesizeSpeech(apiKey, voiceId, ttsText);
+
+    const metadata = await mm.parseBuffer(Buffer.from(audio), { mimeType: "audio/mpeg" });
+    const duration = Math.round((metadata.format.duration || 0) * 1000) / 1000;
+
+    const { error: uploadError } = await storage.upload(path, audio, {
+      contentType: "audio/mpeg",
+      upsert: true,
+      metadata: { duration },
+    });
+
+    // Kept for reference; voice_speaking_rates only counts render samples
+    const sample = toSpeechSample(voiceId, countScriptWords(text, language), duration, language, "preview");
+    if (sample) {
+      const { error: sampleError } = await serviceClient.from("voice_speech_samples").insert(sample);
+      if (sampleError) {
+        console.error("Error recording speech sample:", sampleError);
+      }
+    }
+
+    if (uploadError) {
+      console.error("Error caching voice preview:", uploadError);
+      return NextResponse.json(
+        { error: "Failed to store preview audio" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      url: storage.getPublicUrl(path).data.publicUrl,
+      duration,
+      cached: false,
+    });
+  } catch (error) {
+    console.error("Error generating voice preview:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate preview" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FileEdit, ImageIcon, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { WIZARD_STEP_LABELS } from '@/lib/wizard/types';
+import type { WizardDraftSummary } from '@/lib/wizard/drafts';
+
+interface DraftListProps {
+  initialDrafts: WizardDraftSummary[];
+}
+
+/**
+ * Format an ISO timestamp as a short relative label ("5m ago", "2d ago").
+ */
+function formatRelativeTime(iso: string): string {
+  const diffMinutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (diffMinutes < 1) return 'just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  const diffHours = Math.round(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${Math.round(diffHours / 24)}d ago`;
+}
+
+/**
+ * DraftList shows in-progress wizard sessions saved server-side.
+ * Each draft can be resumed at the step it was left on, or discarded.
+ */
+export function DraftList({ initialDrafts }: DraftListProps) {
+  const [drafts, setDrafts] = useState<WizardDraftSummary[]>(initialDrafts);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleDelete = async (draftId: string) => {
+    setDeletingId(draftId);
+    try {
+      const response = await fetch(`/api/drafts/${draftId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete draft');
+      }
+      setDrafts((prev) => prev.filter((d) => d.id !== draftId));
+    } catch (error) {
+      console.error('Delete draft error:', error);
+      toast.error('Failed to delete draft');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <FileEdit className="h-5 w-5 text-muted-foreground" />
+        <h2 className="text-xl font-heading font-medium">Drafts</h2>
+        <Badge variant="secondary">{drafts.length}</Badge>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {drafts.map((draft) => (
+          <div
+            key={draft.id}
+            className="flex items-center gap-3 rounded-lg border border-border/50 bg-card/80 p-3"
+          >
+            <div className="flex h-14 w-14 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+              {draft.thumbnail_url ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={draft.thumbnail_url}
+                  alt=""
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <ImageIcon className="h-5 w-5 text-muted-foreground" />
+              )}
+            </div>
+
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">
+                {draft.title || 'Untitled draft'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {WIZARD_STEP_LABELS[draft.current_step]} step
+                {draft.image_count > 0 && ` · ${draft.image_count} photos`}
+                {' · '}
+                {formatRelativeTime(draft.updated_at)}
+              </p>
+            </div>
+
+            <div className="flex shrink-0 items-center gap-1">
+              <Button asChild size="sm" variant="outline">
+                <Link href={`/create?draft=${draft.id}`}>Resume</Link>
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(draft.id)}
+                disabled={deletingId === draft.id}
+                aria-label="Delete draft"
+              >
+                {deletingId === draft.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Download, Share2, Building2, Loader2 } from 'lucide-react';
+import { Download, Share2, Building2, Loader2, RectangleVertical, Square, Captions } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,10 +12,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { ASPECT_RATIO_OPTIONS, type AspectRatio } from '@/lib/wizard/types';
+import type { VideoOutputs } from '@/types/video';
+import type { CaptionFormat } from '@/lib/captions';
 
 interface MediaKitDialogProps {
   videoId: string;
   address: string;
+  outputs?: VideoOutputs;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
@@ -29,21 +33,50 @@ interface DownloadUrls {
     url: string | null;
     filename: string;
   };
+  formats: Array<{
+    aspectRatio: AspectRatio;
+    url: string;
+    filename: string;
+  }>;
+  captions: Record<CaptionFormat, {
+    url: string;
+    filename: string;
+  }>;
 }
 
+const CAPTION_LABELS: Record<CaptionFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+};
+
+const FORMAT_ICONS: Partial<Record<AspectRatio, typeof Square>> = {
+  '9:16': RectangleVertical,
+  '1:1': Square,
+};
+
 /**
- * MediaKitDialog presents download options for branded and unbranded video versions.
+ * MediaKitDialog presents download options for branded and unbranded video versions,
+ * plus vertical and square social formats when they were rendered and
+ * SRT/WebVTT caption files.
  * Fetches download URLs from API and triggers browser downloads with descriptive filenames.
  */
 export function MediaKitDialog({
   videoId,
   address,
+  outputs = {},
   open,
   onOpenChange,
 }: MediaKitDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [downloadUrls, setDownloadUrls] = useState<DownloadUrls | null>(null);
-  const [downloadingType, setDownloadingType] = useState<'branded' | 'unbranded' | 'both' | null>(null);
+  const [downloadingType, setDownloadingType] = useState<
+    'branded' | 'unbranded' | 'both' | AspectRatio | CaptionFormat | null
+  >(null);
+
+  // Social formats rendered for this video (landscape is the Branded download)
+  const socialFormats = ASPECT_RATIO_OPTIONS.filter(
+    (option) => option.value !== '16:9' && outputs[option.value]
+  );
 
   // Fetch download URLs when dialog opens
   const fetchUrls = async () => {
@@ -71,6 +104,9 @@ export function MediaKitDialog({
   // Trigger browser download via blob fetch (works for cross-origin URLs)
   const triggerDownload = async (url: string, filename: string) => {
     const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
     const blob = await response.blob();
     const blobUrl = URL.createObjectURL(blob);
 
@@ -125,6 +161,50 @@ export function MediaKitDialog({
     }
   };
 
+  // Handle social format download
+  const handleFormatDownload = async (aspectRatio: AspectRatio) => {
+    setDownloadingType(aspectRatio);
+
+    const urls = await fetchUrls();
+    const format = urls?.formats.find((f) => f.aspectRatio === aspectRatio);
+    if (!format) {
+      if (urls) toast.error('That format is not available yet');
+      setDownloadingType(null);
+      return;
+    }
+
+    try {
+      await triggerDownload(format.url, format.filename);
+      toast.success(`Downloading ${aspectRatio} video`);
+    } catch (error) {
+      console.error('Download failed:', error);
+      toast.error('Download failed. Please try again.');
+    } finally {
+      setDownloadingType(null);
+    }
+  };
+
+  // Handle caption file download
+  const handleCaptionDownload = async (format: CaptionFormat) => {
+    setDownloadingType(format);
+
+    const urls = await fetchUrls();
+    if (!urls) {
+      setDownloadingType(null);
+      return;
+    }
+
+    try {
+      await triggerDownload(urls.captions[format].url, urls.captions[format].filename);
+      toast.success(`Downloading ${CAPTION_LABELS[format]} captions`);
+    } catch (error) {
+      console.error('Caption download failed:', error);
+      toast.error('Caption download failed. Please try again.');
+    } finally {
+      setDownloadingType(null);
+    }
+  };
+
   // Reset state when dialog closes
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen) {
@@ -196,6 +276,71 @@ export function MediaKitDialog({
           </button>
         </div>
 
+        {/* Social formats */}
+        {socialFormats.length > 0 && (
+          <div className="space-y-2 pb-4">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              Social Formats
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {socialFormats.map((option) => {
+                const Icon = FORMAT_ICONS[option.value] || Square;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => handleFormatDownload(option.value)}
+                    disabled={isLoading || downloadingType !== null}
+                    className={cn(
+                      'flex items-center gap-3 p-3 rounded-lg border border-border text-left',
+                      'bg-background hover:bg-muted/50 transition-colors',
+                      'disabled:opacity-50 disabled:cursor-not-allowed',
+                      'focus:outline-none focus:ring-2 focus:ring-gold/50'
+                    )}
+                  >
+                    {downloadingType === option.value ? (
+                      <Loader2 className="w-5 h-5 text-gold animate-spin shrink-0" />
+                    ) : (
+                      <Icon className="w-5 h-5 text-gold shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">
+                        {option.label} {option.value}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {option.description}
+                      </p>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Caption files */}
+        <div className="flex items-center gap-2 pb-4">
+          <Captions className="w-4 h-4 text-muted-foreground shrink-0" />
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground mr-auto">
+            Captions
+          </p>
+          {(Object.keys(CAPTION_LABELS) as CaptionFormat[]).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleCaptionDownload(format)}
+              disabled={isLoading || downloadingType !== null}
+            >
+              {downloadingType === format ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              {CAPTION_LABELS[format]}
+            </Button>
+          ))}
+        </div>
+
         {/* Download both button */}
         <Button
           onClick={() => handleDownload('both')}
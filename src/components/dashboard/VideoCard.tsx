@@ -2,8 +2,9 @@
 
 import { motion } from 'framer-motion';
 import Image from 'next/image';
+import { useRouter } from 'next/navigation';
 import { useRef, useState } from 'react';
-import { Loader2, Play, Download, Trash2 } from 'lucide-react';
+import { Loader2, Play, Download, Trash2, Copy, PencilLine, Languages } from 'lucide-react';
 import { VideoWithListing, VIDEO_STATUS_CONFIG } from '@/types/video';
 import { cn } from '@/lib/utils';
 import { VideoProgressOverlay } from './VideoProgressOverlay';
@@ -23,6 +24,7 @@ import {
 
 interface VideoCardProps {
   video: VideoWithListing;
+  versionCount?: number;
   onSelect?: () => void;
   onDelete?: (videoId: string) => void;
   isSelectionMode?: boolean;
@@ -35,15 +37,19 @@ interface VideoCardProps {
  * Shows thumbnail (or placeholder), status badge, and property address.
  * Hover state includes subtle scale and border highlight.
  * Completed videos autoplay on hover.
+ * Listings with revisions show a version badge (v1, v2, v3...).
+ * Non-English narrations show a language badge (ES, ZH).
  */
 export function VideoCard({
   video,
+  versionCount = 1,
   onSelect,
   onDelete,
   isSelectionMode = false,
   isSelected = false,
   onToggleSelect,
 }: VideoCardProps) {
+  const router = useRouter();
   const statusConfig = VIDEO_STATUS_CONFIG[video.status];
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isHovering, setIsHovering] = useState(false);
@@ -187,8 +193,18 @@ export function VideoCard({
           />
         )}
 
-        {/* Status badge - top right */}
-        <div className="absolute top-3 right-3 z-10">
+        {/* Status, version and language badges - top right */}
+        <div className="absolute top-3 right-3 z-10 flex items-center gap-1.5">
+          {video.language && video.language !== 'en' && (
+            <span className="px-2 py-1 rounded-full text-xs font-medium uppercase backdrop-blur-sm bg-black/50 text-white border border-white/20">
+              {video.language}
+            </span>
+          )}
+          {versionCount > 1 && (
+            <span className="px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm bg-black/50 text-white border border-white/20">
+              v{video.version}
+            </span>
+          )}
           <span
             className={cn(
               'px-2.5 py-1 rounded-full text-xs font-medium backdrop-blur-sm',
@@ -269,6 +285,60 @@ export function VideoCard({
           <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent p-4 pt-12 z-10">
             <div className="flex items-end justify-between">
               <p className="text-sm font-medium text-white truncate flex-1 mr-2">{displayAddress}</p>
+              {/* Re-render this listing with an edited script, voice or music */}
+              {canPlayVideo && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    router.push(`/create?revise=${video.id}`);
+                  }}
+                  className={cn(
+                    'p-2 mr-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors',
+                    'opacity-0 group-hover:opacity-100',
+                    'focus:outline-none focus:opacity-100'
+                  )}
+                  aria-label="Revise video"
+                  title="Revise"
+                >
+                  <PencilLine className="w-4 h-4 text-white" />
+                </button>
+              )}
+              {/* Narrate this listing in another language, as a separate video */}
+              {canPlayVideo && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    router.push(`/create?language=${video.id}`);
+                  }}
+                  className={cn(
+                    'p-2 mr-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors',
+                    'opacity-0 group-hover:opacity-100',
+                    'focus:outline-none focus:opacity-100'
+                  )}
+                  aria-label="Add language version"
+                  title="Add language version"
+                >
+                  <Languages className="w-4 h-4 text-white" />
+                </button>
+              )}
+              {/* Start a new video using this one as a template */}
+              {canPlayVideo && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    router.push(`/create?template=${video.id}`);
+                  }}
+                  className={cn(
+                    'p-2 mr-1 rounded-full bg-white/10 hover:bg-white/20 transition-colors',
+                    'opacity-0 group-hover:opacity-100',
+                    'focus:outline-none focus:opacity-100'
+                  )}
+                  aria-label="Use as template"
+                  title="Use as template"
+                >
+                  <Copy className="w-4 h-4 text-white" />
+                </button>
+              )}
               {/* Download button for completed videos */}
               {canPlayVideo && (
                 <button
@@ -304,6 +374,7 @@ export function VideoCard({
         <MediaKitDialog
           videoId={video.id}
           address={displayAddress}
+          outputs={video.outputs}
           open={mediaKitOpen}
           onOpenChange={setMediaKitOpen}
         />
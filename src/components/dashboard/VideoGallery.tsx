@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { VideoCard } from './VideoCard';
@@ -18,7 +18,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import type { VideoWithListing, VideoStatus } from '@/types/video';
+import type { VideoWithListing, VideoStatus, VideoOutputs } from '@/types/video';
 import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
 interface VideoGalleryProps {
@@ -37,6 +37,10 @@ interface VideoRecord {
   duration_seconds: number | null;
   error_message: string | null;
   created_at: string;
+  version: number;
+  parent_video_id: string | null;
+  outputs: VideoOutputs;
+  language: string;
 }
 
 /**
@@ -53,6 +57,14 @@ export function VideoGallery({ initialVideos, userId }: VideoGalleryProps) {
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const router = useRouter();
 
+  // Number of versions per listing, for v1/v2/v3 badges on revised listings.
+  // Language versions share their source's version number, so count distinct versions.
+  const versionCounts = useMemo(() => {
+    const versions = new Map<string, Set<number>>();
+    videos.forEach((v) => versions.set(v.listing_id, (versions.get(v.listing_id) || new Set()).add(v.version)));
+    return new Map([...versions].map(([listingId, set]) => [listingId, set.size]));
+  }, [videos]);
+
   // Toggle selection for a single video
   const handleToggleSelect = useCallback((videoId: string) => {
     setSelectedIds((prev) => {
@@ -175,6 +187,7 @@ export function VideoGallery({ initialVideos, userId }: VideoGalleryProps) {
                     unbranded_url: updatedVideo.unbranded_url,
                     duration_seconds: updatedVideo.duration_seconds,
                     error_message: updatedVideo.error_message,
+                    outputs: updatedVideo.outputs ?? video.outputs,
                   }
                 : video
             )
@@ -191,6 +204,7 @@ export function VideoGallery({ initialVideos, userId }: VideoGalleryProps) {
                   unbranded_url: updatedVideo.unbranded_url,
                   duration_seconds: updatedVideo.duration_seconds,
                   error_message: updatedVideo.error_message,
+                  outputs: updatedVideo.outputs ?? current.outputs,
                 }
               : current
           );
@@ -263,6 +277,7 @@ export function VideoGallery({ initialVideos, userId }: VideoGalleryProps) {
           <VideoCard
             key={video.id}
             video={video}
+            versionCount={versionCounts.get(video.listing_id) || 1}
             onSelect={() => setSelectedVideo(video)}
             onDelete={handleDelete}
             isSelectionMode={isSelectionMode}
@@ -118,6 +118,7 @@ export function VideoPlayerDialog({ video, open, onOpenChange }: VideoPlayerDial
       <MediaKitDialog
         videoId={video.id}
         address={displayAddress}
+        outputs={video.outputs}
         open={mediaKitOpen}
         onOpenChange={setMediaKitOpen}
       />
@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Loader2, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAX_REPLACEMENT_LENGTH,
+  MAX_TERM_LENGTH,
+  PRONUNCIATION_KIND_LABELS,
+  type PronunciationEntry,
+  type PronunciationKind,
+  type PronunciationScope,
+} from '@/lib/pronunciation';
+
+interface EntryForm {
+  term: string;
+  replacement: string;
+  kind: PronunciationKind;
+}
+
+const EMPTY_FORM: EntryForm = { term: '', replacement: '', kind: 'respelling' };
+
+const KIND_OPTIONS = Object.entries(PRONUNCIATION_KIND_LABELS) as [PronunciationKind, string][];
+
+/**
+ * Term / pronunciation / kind inputs shared by the add row and inline edits.
+ */
+function EntryFields({
+  form,
+  onChange,
+}: {
+  form: EntryForm;
+  onChange: (form: EntryForm) => void;
+}) {
+  return (
+    <>
+      <Input
+        value={form.term}
+        onChange={(e) => onChange({ ...form, term: e.target.value })}
+        placeholder="Tchoupitoulas St"
+        maxLength={MAX_TERM_LENGTH}
+        aria-label="Term"
+      />
+      <Input
+        value={form.replacement}
+        onChange={(e) => onChange({ ...form, replacement: e.target.value })}
+        placeholder="chop-ih-TOO-lus Street"
+        maxLength={MAX_REPLACEMENT_LENGTH}
+        aria-label="Pronunciation"
+      />
+      <Select
+        value={form.kind}
+        onValueChange={(value) => onChange({ ...form, kind: value as PronunciationKind })}
+      >
+        <SelectTrigger className="w-full sm:w-[180px]" aria-label="Kind">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {KIND_OPTIONS.map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
+
+/**
+ * PronunciationLexicon manages the user's personal and team pronunciation
+ * entries. Entries are applied to narration text before TTS.
+ */
+export function PronunciationLexicon() {
+  const [entries, setEntries] = useState<PronunciationEntry[]>([]);
+  const [team, setTeam] = useState<{ id: string; name: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newEntry, setNewEntry] = useState<EntryForm>(EMPTY_FORM);
+  const [newScope, setNewScope] = useState<PronunciationScope>('user');
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<EntryForm>(EMPTY_FORM);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/pronunciation');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load lexicon');
+        setEntries(data.entries);
+        setTeam(data.team);
+      } catch (error) {
+        console.error('Load lexicon error:', error);
+        toast.error('Failed to load pronunciation lexicon');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const sortEntries = (list: PronunciationEntry[]) =>
+    [...list].sort((a, b) => a.term.localeCompare(b.term));
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/pronunciation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...newEntry, scope: newScope }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add pronunciation');
+      setEntries((prev) => sortEntries([...prev, data.entry]));
+      setNewEntry(EMPTY_FORM);
+    } catch (error) {
+      console.error('Add pronunciation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add pronunciation');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSave = async (entryId: string) => {
+    setBusyId(entryId);
+    try {
+      const response = await fetch(`/api/pronunciation/${entryId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editForm),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update pronunciation');
+      setEntries((prev) => sortEntries(prev.map((e) => (e.id === entryId ? data.entry : e))));
+      setEditingId(null);
+    } catch (error) {
+      console.error('Update pronunciation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update pronunciation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    setBusyId(entryId);
+    try {
+      const response = await fetch(`/api/pronunciation/${entryId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete pronunciation');
+      }
+      setEntries((prev) => prev.filter((e) => e.id !== entryId));
+    } catch (error) {
+      console.error('Delete pronunciation error:', error);
+      toast.error('Failed to delete pronunciation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const canAdd = newEntry.term.trim() && newEntry.replacement.trim() && !isAdding;
+
+  return (
+    <section className="space-y-6">
+      {/* Add entry */}
+      <div className="rounded-lg border border-border/50 bg-card/80 p-4 space-y-3">
+        <div className="grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+          <EntryFields form={newEntry} onChange={setNewEntry} />
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {team ? (
+            <Select value={newScope} onValueChange={(value) => setNewScope(value as PronunciationScope)}>
+              <SelectTrigger className="w-[220px]" aria-label="Applies to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="user">Just me</SelectItem>
+                <SelectItem value="team">Everyone on {team.name}</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleAdd} disabled={!canAdd}>
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add term
+          </Button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No terms yet. Add street names, neighborhoods or brand names the narrator gets wrong.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+          {entries.map((entry) =>
+            editingId === entry.id ? (
+              <div key={entry.id} className="grid gap-2 p-3 sm:grid-cols-[1fr_1fr_auto_auto]">
+                <EntryFields form={editForm} onChange={setEditForm} />
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleSave(entry.id)}
+                    disabled={busyId === entry.id || !editForm.term.trim() || !editForm.replacement.trim()}
+                    aria-label="Save"
+                  >
+                    {busyId === entry.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => setEditingId(null)} aria-label="Cancel">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div key={entry.id} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{entry.term}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    Says &ldquo;{entry.replacement}&rdquo;
+                  </p>
+                </div>
+                <Badge variant="outline">{PRONUNCIATION_KIND_LABELS[entry.kind]}</Badge>
+                {entry.scope === 'team' && (
+                  <Badge variant="secondary" className="gap-1">
+                    <Users className="h-3 w-3" />
+                    Team
+                  </Badge>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(entry.id);
+                    setEditForm({ term: entry.term, replacement: entry.replacement, kind: entry.kind });
+                  }}
+                  aria-label={`Edit ${entry.term}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleDelete(entry.id)}
+                  disabled={busyId === entry.id}
+                  aria-label={`Delete ${entry.term}`}
+                >
+                  {busyId === entry.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
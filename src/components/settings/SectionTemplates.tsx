@@ -0,0 +1,393 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ROOM_TYPE_OPTIONS, type RoomType, type ScriptSectionDefinition } from '@/lib/wizard/types';
+import {
+  MAX_SECTION_APPROACH_LENGTH,
+  MAX_SECTION_TITLE_LENGTH,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_SECTIONS,
+  SCRIPT_SECTION_CONFIG,
+  SECTION_TEMPLATE_PRESETS,
+  parseSectionStructure,
+  type SectionTemplate,
+} from '@/lib/script';
+
+interface TemplateForm {
+  name: string;
+  sections: ScriptSectionDefinition[];
+}
+
+/**
+ * Starting points for a new template: the default six sections, then the presets.
+ */
+const STARTING_POINTS = [
+  { name: 'Default', sections: SCRIPT_SECTION_CONFIG },
+  ...SECTION_TEMPLATE_PRESETS,
+];
+
+/**
+ * Name and section rows shared by new templates and edits.
+ * Room types belong to one section at a time; picking one that another
+ * section has moves it here.
+ */
+function TemplateEditor({
+  form,
+  onChange,
+}: {
+  form: TemplateForm;
+  onChange: (form: TemplateForm) => void;
+}) {
+  const { sections } = form;
+  const lastIndex = sections.length - 1;
+
+  const updateSection = (index: number, update: Partial<ScriptSectionDefinition>) =>
+    onChange({
+      ...form,
+      sections: sections.map((s, i) => (i === index ? { ...s, ...update } : s)),
+    });
+
+  const toggleRoomType = (index: number, roomType: RoomType) =>
+    onChange({
+      ...form,
+      sections: sections.map((s, i) => {
+        if (i === index) {
+          return s.roomTypes.includes(roomType)
+            ? { ...s, roomTypes: s.roomTypes.filter((r) => r !== roomType) }
+            : { ...s, roomTypes: [...s.roomTypes, roomType] };
+        }
+        return { ...s, roomTypes: s.roomTypes.filter((r) => r !== roomType) };
+      }),
+    });
+
+  const moveSection = (index: number, offset: number) => {
+    const next = [...sections];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange({ ...form, sections: next });
+  };
+
+  const addSection = () =>
+    onChange({
+      ...form,
+      sections: [
+        ...sections.slice(0, lastIndex),
+        { type: '', title: '', roomTypes: [] },
+        sections[lastIndex],
+      ],
+    });
+
+  return (
+    <div className="space-y-3">
+      <Input
+        value={form.name}
+        onChange={(e) => onChange({ ...form, name: e.target.value })}
+        placeholder="Condo"
+        maxLength={MAX_TEMPLATE_NAME_LENGTH}
+        aria-label="Template name"
+      />
+
+      {sections.map((section, index) => {
+        const isOpening = index === 0;
+        const isClosing = index === lastIndex;
+        return (
+          <div key={index} className="rounded-md border border-border/50 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={section.title}
+                onChange={(e) => updateSection(index, { title: e.target.value })}
+                placeholder={isOpening ? 'Opening' : isClosing ? 'Closing' : 'Lot & Zoning'}
+                maxLength={MAX_SECTION_TITLE_LENGTH}
+                aria-label="Section title"
+              />
+              {!isOpening && !isClosing && (
+                <div className="flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveSection(index, -1)}
+                    disabled={index === 1}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === lastIndex - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => onChange({ ...form, sections: sections.filter((_, i) => i !== index) })}
+                    aria-label={`Remove ${section.title || 'section'}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {isClosing ? (
+              <p className="text-xs text-muted-foreground">
+                Call to action over the end card - no images
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-1">
+                  {ROOM_TYPE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => toggleRoomType(index, option.value)}
+                      className={cn(
+                        'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                        section.roomTypes.includes(option.value)
+                          ? 'border-primary bg-primary/10 text-foreground'
+                          : 'border-border/50 text-muted-foreground hover:bg-muted/50'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {!isOpening && (
+                  <Input
+                    value={section.approach || ''}
+                    onChange={(e) => updateSection(index, { approach: e.target.value })}
+                    placeholder="Direction for the narration (optional), e.g. describe acreage, access and zoning"
+                    maxLength={MAX_SECTION_APPROACH_LENGTH}
+                    aria-label="Narration direction"
+                  />
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addSection}
+        disabled={sections.length >= MAX_TEMPLATE_SECTIONS}
+      >
+        <Plus className="h-4 w-4" />
+        Add section
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * SectionTemplates manages the user's tour structures. A template replaces
+ * the default six script sections, and decides which images each section's
+ * narration plays over.
+ */
+export function SectionTemplates() {
+  const [templates, setTemplates] = useState<SectionTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // 'new' while creating a template, a template id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>({ name: '', sections: [] });
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/section-templates');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load templates');
+        setTemplates(data.templates);
+      } catch (error) {
+        console.error('Load section templates error:', error);
+        toast.error('Failed to load section templates');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const sortTemplates = (list: SectionTemplate[]) =>
+    [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const startNew = (startingPoint: string) => {
+    const preset = STARTING_POINTS.find((p) => p.name === startingPoint) ?? STARTING_POINTS[0];
+    setEditingId('new');
+    setForm({
+      name: preset.name === 'Default' ? '' : preset.name,
+      sections: preset.sections.map((s) => ({ ...s, roomTypes: [...s.roomTypes] })),
+    });
+  };
+
+  const handleSave = async () => {
+    const sections = parseSectionStructure(form.sections);
+    if ('error' in sections) {
+      toast.error(sections.error);
+      return;
+    }
+
+    const id = editingId;
+    setBusyId(id);
+    try {
+      const response = await fetch(
+        id === 'new' ? '/api/section-templates' : `/api/section-templates/${id}`,
+        {
+          method: id === 'new' ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: form.name, sections }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save template');
+      setTemplates((prev) =>
+        sortTemplates(
+          id === 'new'
+            ? [...prev, data.template]
+            : prev.map((t) => (t.id === id ? data.template : t))
+        )
+      );
+      setEditingId(null);
+    } catch (error) {
+      console.error('Save section template error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    setBusyId(templateId);
+    try {
+      const response = await fetch(`/api/section-templates/${templateId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete template');
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+    } catch (error) {
+      console.error('Delete section template error:', error);
+      toast.error('Failed to delete template');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const editor = (
+    <div className="rounded-lg border border-border/50 bg-card/80 p-4 space-y-4">
+      <TemplateEditor form={form} onChange={setForm} />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={() => setEditingId(null)}>
+          <X className="h-4 w-4" />
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={busyId === editingId || !form.name.trim()}>
+          {busyId === editingId ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Save template
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="space-y-6">
+      {/* New template */}
+      {editingId === 'new' ? (
+        editor
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/50 bg-card/80 p-4">
+          <div>
+            <p className="font-medium">New template</p>
+            <p className="text-sm text-muted-foreground">
+              Start from the default sections or a preset, then rename, reorder and remap rooms.
+            </p>
+          </div>
+          <Select value="" onValueChange={startNew} disabled={editingId !== null}>
+            <SelectTrigger className="w-[200px]" aria-label="Start from">
+              <SelectValue placeholder="Start from..." />
+            </SelectTrigger>
+            <SelectContent>
+              {STARTING_POINTS.map((preset) => (
+                <SelectItem key={preset.name} value={preset.name}>
+                  {preset.name === 'Default' ? 'Default sections' : preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Templates */}
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No templates yet. Scripts use the default six sections until you add one.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+          {templates.map((template) =>
+            editingId === template.id ? (
+              <div key={template.id} className="p-3">
+                {editor}
+              </div>
+            ) : (
+              <div key={template.id} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{template.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {template.sections.map((s) => s.title).join(' → ')}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(template.id);
+                    setForm({
+                      name: template.name,
+                      sections: template.sections.map((s) => ({ ...s, roomTypes: [...s.roomTypes] })),
+                    });
+                  }}
+                  disabled={editingId !== null}
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleDelete(template.id)}
+                  disabled={busyId === template.id}
+                  aria-label={`Delete ${template.name}`}
+                >
+                  {busyId === template.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect } from "react";
+import { Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWizard } from "@/lib/wizard/wizard-context";
+
+/**
+ * Whether a keyboard event originates from a text field.
+ * Text fields keep their native undo so typing isn't undone wholesale.
+ */
+function isTextInputTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "TEXTAREA" ||
+    (target.tagName === "INPUT" &&
+      !["checkbox", "radio", "button", "submit"].includes(
+        (target as HTMLInputElement).type
+      ))
+  );
+}
+
+/**
+ * HistoryToolbar - Undo/redo controls for the create wizard.
+ *
+ * Features:
+ * - Undo/Redo buttons reflecting stack availability
+ * - Cmd/Ctrl+Z to undo, Cmd/Ctrl+Shift+Z or Ctrl+Y to redo
+ * - Shortcuts are ignored while editing text fields
+ */
+export function HistoryToolbar() {
+  const { undo, redo, canUndo, canRedo, state } = useWizard();
+  const disabled = state.isSubmitting;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (disabled || isTextInputTarget(event.target)) return;
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, disabled]);
+
+  return (
+    <div className="mb-4 flex items-center justify-end gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={undo}
+        disabled={!canUndo || disabled}
+        className="gap-1.5 text-muted-foreground"
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="h-4 w-4" />
+        Undo
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={redo}
+        disabled={!canRedo || disabled}
+        className="gap-1.5 text-muted-foreground"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="h-4 w-4" />
+        Redo
+      </Button>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 import { useWizard } from "@/lib/wizard/wizard-context";
 import type { PropertyData } from "@/lib/wizard/types";
 import type { PropertyLookupResponse } from "@/lib/propertyLookup/types";
+import { getPropertyTypeProfile, type PropertyDetailField } from "@/lib/script";
 
 /**
  * localStorage key for persisting property data between sessions.
@@ -50,8 +51,37 @@ const LOT_SIZE_UNITS = [
   { value: "acres", label: "acres" },
 ] as const;
 
+/**
+ * Labels for the details that vary by property type.
+ */
+const DETAIL_FIELD_LABELS: Record<PropertyDetailField, string> = {
+  bedrooms: "Bedrooms",
+  bathrooms: "Bathrooms",
+  squareFeet: "Sq Ft",
+  lotSize: "Lot Size",
+  zoning: "Zoning",
+  frontage: "Road Frontage",
+  capRate: "Cap Rate",
+  tenants: "Tenants",
+};
+
+const DETAIL_FIELDS = Object.keys(DETAIL_FIELD_LABELS) as PropertyDetailField[];
+
+/**
+ * Optional number input; a cleared input comes through as NaN.
+ */
+const optionalNumber = (message: string) => z.number().min(0, message).or(z.nan()).optional();
+
+/**
+ * Whether a detail input was left empty.
+ */
+function isBlankDetail(value: string | number | undefined): boolean {
+  return value === undefined || (typeof value === "number" ? Number.isNaN(value) : !value.trim());
+}
+
 /**
  * Zod schema for property data validation.
+ * Which details are required depends on the property type's profile.
  */
 const propertyDataSchema = z.object({
   address: z.string().min(1, "Address is required"),
@@ -59,11 +89,15 @@ const propertyDataSchema = z.object({
   state: z.string().min(1, "State is required"),
   zipCode: z.string().min(1, "ZIP code is required"),
   propertyType: z.string().min(1, "Property type is required"),
-  bedrooms: z.number().min(0, "Bedrooms must be 0 or more"),
-  bathrooms: z.number().min(0, "Bathrooms must be 0 or more"),
-  squareFeet: z.number().min(0, "Square feet must be 0 or more"),
-  lotSize: z.number().min(0, "Lot size must be 0 or more").optional(),
+  bedrooms: optionalNumber("Bedrooms must be 0 or more"),
+  bathrooms: optionalNumber("Bathrooms must be 0 or more"),
+  squareFeet: optionalNumber("Square feet must be 0 or more"),
+  lotSize: optionalNumber("Lot size must be 0 or more"),
   lotSizeUnit: z.enum(["sqft", "acres"]).optional(),
+  zoning: z.string().optional(),
+  frontage: optionalNumber("Frontage must be 0 or more"),
+  capRate: optionalNumber("Cap rate must be 0 or more"),
+  tenants: z.string().optional(),
   listingPrice: z.number().min(0, "Price must be 0 or more"),
   description: z.string().optional(),
   // Agent branding for closing card (optional)
@@ -73,6 +107,12 @@ const propertyDataSchema = z.object({
   agentSocial: z.string().optional(),
   agentCta: z.string().optional(),
   agentBrandName: z.string().optional(),
+}).superRefine((data, ctx) => {
+  for (const field of getPropertyTypeProfile(data.propertyType).requiredFields) {
+    if (isBlankDetail(data[field])) {
+      ctx.addIssue({ code: "custom", path: [field], message: `${DETAIL_FIELD_LABELS[field]} is required` });
+    }
+  }
 });
 
 type PropertyFormData = z.infer<typeof propertyDataSchema>;
@@ -122,6 +162,10 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
         squareFeet: state.propertyData.squareFeet || undefined,
         lotSize: state.propertyData.lotSize || undefined,
         lotSizeUnit: state.propertyData.lotSizeUnit || "acres",
+        zoning: state.propertyData.zoning || "",
+        frontage: state.propertyData.frontage || undefined,
+        capRate: state.propertyData.capRate || undefined,
+        tenants: state.propertyData.tenants || "",
         listingPrice: state.propertyData.listingPrice || undefined,
         description: state.propertyData.description || "",
         agentName: state.propertyData.agentName || "",
@@ -189,9 +233,10 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
           console.error("Error loading saved branding:", error);
         }
 
-        // Load property data from localStorage (if wizard state is empty)
+        // Load property data from localStorage (if wizard state is empty
+        // and the session wasn't seeded from a template)
         try {
-          if (typeof window !== "undefined" && !state.propertyData.address) {
+          if (typeof window !== "undefined" && !state.propertyData.address && !state.source) {
             const savedPropertyData = localStorage.getItem(PROPERTY_DATA_STORAGE_KEY);
             if (savedPropertyData) {
               const parsed = JSON.parse(savedPropertyData);
@@ -206,6 +251,10 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
               if (parsed.squareFeet !== undefined) setValue("squareFeet", parsed.squareFeet);
               if (parsed.lotSize !== undefined) setValue("lotSize", parsed.lotSize);
               if (parsed.lotSizeUnit) setValue("lotSizeUnit", parsed.lotSizeUnit);
+              if (parsed.zoning) setValue("zoning", parsed.zoning);
+              if (parsed.frontage !== undefined) setValue("frontage", parsed.frontage);
+              if (parsed.capRate !== undefined) setValue("capRate", parsed.capRate);
+              if (parsed.tenants) setValue("tenants", parsed.tenants);
               if (parsed.listingPrice !== undefined) setValue("listingPrice", parsed.listingPrice);
               if (parsed.description) setValue("description", parsed.description);
               if (parsed.features && Array.isArray(parsed.features)) {
@@ -223,6 +272,10 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
     }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
     const propertyType = watch("propertyType");
+    const propertyProfile = getPropertyTypeProfile(propertyType);
+    const showDetail = (field: PropertyDetailField) => propertyProfile.detailFields.includes(field);
+    const requiredMark = (field: PropertyDetailField) =>
+      propertyProfile.requiredFields.includes(field) ? " *" : "";
     const lotSizeUnit = watch("lotSizeUnit");
     const watchedAddress = watch("address");
     const watchedCity = watch("city");
@@ -376,8 +429,17 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
      */
     const onSubmit = useCallback(
       async (data: PropertyFormData) => {
+        // Details the property type doesn't use (or left empty) aren't kept
+        const profile = getPropertyTypeProfile(data.propertyType);
+        const details = Object.fromEntries(
+          DETAIL_FIELDS.map((field) => [
+            field,
+            profile.detailFields.includes(field) && !isBlankDetail(data[field]) ? data[field] : undefined,
+          ])
+        ) as Partial<PropertyData>;
         const propertyData: Partial<PropertyData> = {
           ...data,
+          ...details,
           features: pois,
           agentLogoUrl,
           agentPhotoUrl,
@@ -407,11 +469,15 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
               state: data.state,
               zipCode: data.zipCode,
               propertyType: data.propertyType,
-              bedrooms: data.bedrooms,
-              bathrooms: data.bathrooms,
-              squareFeet: data.squareFeet,
-              lotSize: data.lotSize,
+              bedrooms: details.bedrooms,
+              bathrooms: details.bathrooms,
+              squareFeet: details.squareFeet,
+              lotSize: details.lotSize,
               lotSizeUnit: data.lotSizeUnit,
+              zoning: details.zoning,
+              frontage: details.frontage,
+              capRate: details.capRate,
+              tenants: details.tenants,
               listingPrice: data.listingPrice,
               description: data.description,
               features: pois,
@@ -637,86 +703,158 @@ export const PropertyDataStep = forwardRef<PropertyDataStepHandle>(
           </div>
 
           <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
-            <div className="space-y-2">
-              <Label htmlFor="bedrooms">Bedrooms</Label>
-              <Input
-                id="bedrooms"
-                type="number"
-                min="0"
-                placeholder="3"
-                className="focus-visible:ring-primary/50"
-                {...register("bedrooms", { valueAsNumber: true })}
-              />
-              {errors.bedrooms && (
-                <p className="text-sm text-destructive">{errors.bedrooms.message}</p>
-              )}
-            </div>
+            {showDetail("bedrooms") && (
+              <div className="space-y-2">
+                <Label htmlFor="bedrooms">Bedrooms{requiredMark("bedrooms")}</Label>
+                <Input
+                  id="bedrooms"
+                  type="number"
+                  min="0"
+                  placeholder="3"
+                  className="focus-visible:ring-primary/50"
+                  {...register("bedrooms", { valueAsNumber: true })}
+                />
+                {errors.bedrooms && (
+                  <p className="text-sm text-destructive">{errors.bedrooms.message}</p>
+                )}
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="bathrooms">Bathrooms</Label>
-              <Input
-                id="bathrooms"
-                type="number"
-                min="0"
-                step="0.5"
-                placeholder="2.5"
-                className="focus-visible:ring-primary/50"
-                {...register("bathrooms", { valueAsNumber: true })}
-              />
-              {errors.bathrooms && (
-                <p className="text-sm text-destructive">{errors.bathrooms.message}</p>
-              )}
-            </div>
+            {showDetail("bathrooms") && (
+              <div className="space-y-2">
+                <Label htmlFor="bathrooms">Bathrooms{requiredMark("bathrooms")}</Label>
+                <Input
+                  id="bathrooms"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="2.5"
+                  className="focus-visible:ring-primary/50"
+                  {...register("bathrooms", { valueAsNumber: true })}
+                />
+                {errors.bathrooms && (
+                  <p className="text-sm text-destructive">{errors.bathrooms.message}</p>
+                )}
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="squareFeet">Sq Ft</Label>
-              <Input
-                id="squareFeet"
-                type="number"
-                min="0"
-                placeholder="2500"
-                className="focus-visible:ring-primary/50"
-                {...register("squareFeet", { valueAsNumber: true })}
-              />
-              {errors.squareFeet && (
-                <p className="text-sm text-destructive">{errors.squareFeet.message}</p>
-              )}
-            </div>
+            {showDetail("squareFeet") && (
+              <div className="space-y-2">
+                <Label htmlFor="squareFeet">Sq Ft{requiredMark("squareFeet")}</Label>
+                <Input
+                  id="squareFeet"
+                  type="number"
+                  min="0"
+                  placeholder="2500"
+                  className="focus-visible:ring-primary/50"
+                  {...register("squareFeet", { valueAsNumber: true })}
+                />
+                {errors.squareFeet && (
+                  <p className="text-sm text-destructive">{errors.squareFeet.message}</p>
+                )}
+              </div>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="lotSize">Lot Size</Label>
-              <div className="flex gap-1">
+            {showDetail("lotSize") && (
+              <div className="space-y-2">
+                <Label htmlFor="lotSize">Lot Size{requiredMark("lotSize")}</Label>
+                <div className="flex gap-1">
+                  <Input
+                    id="lotSize"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={lotSizeUnit === "acres" ? "0.25" : "10890"}
+                    className="min-w-0 flex-1 focus-visible:ring-primary/50"
+                    {...register("lotSize", { valueAsNumber: true })}
+                  />
+                  <Select
+                    value={lotSizeUnit || "sqft"}
+                    onValueChange={(value: "sqft" | "acres") =>
+                      setValue("lotSizeUnit", value, { shouldValidate: true })
+                    }
+                  >
+                    <SelectTrigger className="w-[70px] shrink-0 focus-visible:ring-primary/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOT_SIZE_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>
+                          {unit.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {errors.lotSize && (
+                  <p className="text-sm text-destructive">{errors.lotSize.message}</p>
+                )}
+              </div>
+            )}
+            {showDetail("zoning") && (
+              <div className="space-y-2">
+                <Label htmlFor="zoning">Zoning{requiredMark("zoning")}</Label>
+                <Input
+                  id="zoning"
+                  placeholder={propertyType === "commercial" ? "C-2" : "R-1"}
+                  className="focus-visible:ring-primary/50"
+                  {...register("zoning")}
+                />
+                {errors.zoning && (
+                  <p className="text-sm text-destructive">{errors.zoning.message}</p>
+                )}
+              </div>
+            )}
+
+            {showDetail("frontage") && (
+              <div className="space-y-2">
+                <Label htmlFor="frontage">Road Frontage (ft){requiredMark("frontage")}</Label>
+                <Input
+                  id="frontage"
+                  type="number"
+                  min="0"
+                  placeholder="250"
+                  className="focus-visible:ring-primary/50"
+                  {...register("frontage", { valueAsNumber: true })}
+                />
+                {errors.frontage && (
+                  <p className="text-sm text-destructive">{errors.frontage.message}</p>
+                )}
+              </div>
+            )}
+
+            {showDetail("capRate") && (
+              <div className="space-y-2">
+                <Label htmlFor="capRate">Cap Rate (%){requiredMark("capRate")}</Label>
                 <Input
-                  id="lotSize"
+                  id="capRate"
                   type="number"
                   min="0"
                   step="0.01"
-                  placeholder={lotSizeUnit === "acres" ? "0.25" : "10890"}
-                  className="min-w-0 flex-1 focus-visible:ring-primary/50"
-                  {...register("lotSize", { valueAsNumber: true })}
+                  placeholder="6.5"
+                  className="focus-visible:ring-primary/50"
+                  {...register("capRate", { valueAsNumber: true })}
                 />
-                <Select
-                  value={lotSizeUnit || "sqft"}
-                  onValueChange={(value: "sqft" | "acres") =>
-                    setValue("lotSizeUnit", value, { shouldValidate: true })
-                  }
-                >
-                  <SelectTrigger className="w-[70px] shrink-0 focus-visible:ring-primary/50">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {LOT_SIZE_UNITS.map((unit) => (
-                      <SelectItem key={unit.value} value={unit.value}>
-                        {unit.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                {errors.capRate && (
+                  <p className="text-sm text-destructive">{errors.capRate.message}</p>
+                )}
               </div>
-              {errors.lotSize && (
-                <p className="text-sm text-destructive">{errors.lotSize.message}</p>
-              )}
-            </div>
+            )}
+
+            {showDetail("tenants") && (
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="tenants">Tenants{requiredMark("tenants")}</Label>
+                <Input
+                  id="tenants"
+                  placeholder="Two national retailers, leases through 2029"
+                  className="focus-visible:ring-primary/50"
+                  {...register("tenants")}
+                />
+                {errors.tenants && (
+                  <p className="text-sm text-destructive">{errors.tenants.message}</p>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
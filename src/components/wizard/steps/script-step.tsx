@@ -15,18 +15,65 @@ import {
   Check,
   Pencil,
   Gem,
+  Copy,
+  ShieldCheck,
+  AlertTriangle,
+  Play,
+  Square,
+  Scissors,
+  X,
+  History,
+  Undo2,
+  LayoutList,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { useWizard } from "@/lib/wizard/wizard-context";
-import type { ScriptSection, ScriptSectionType, WizardImage, PropertyData } from "@/lib/wizard/types";
-import { WIZARD_VALIDATION } from "@/lib/wizard/types";
+import type {
+  BuiltInSectionType,
+  NarrationLanguage,
+  NarrationTone,
+  ScriptRevision,
+  ScriptSection,
+  ScriptSectionType,
+  WizardImage,
+} from "@/lib/wizard/types";
+import { NARRATION_LANGUAGE_OPTIONS, NARRATION_TONE_OPTIONS } from "@/lib/wizard/types";
+import {
+  SCRIPT_REVISION_SOURCE_LABELS,
+  applyScriptRevision,
+  getRevisionContent,
+  getSectionRevisions,
+} from "@/lib/wizard/script-history";
+import {
+  countScriptWords,
+  getLanguageProfile,
+  getSectionStructure,
+  type LanguageProfile,
+  type SectionTemplate,
+  type TightenResult,
+} from "@/lib/script";
+import {
+  FAIR_HOUSING_CATEGORY_LABELS,
+  MLS_FINDING_LABELS,
+  applyFairHousingSuggestion,
+  diffWords,
+  getBlockingPhrases,
+  getMlsSafeScript,
+  lintFairHousing,
+  lintScriptSections,
+  type FairHousingIssue,
+  type MlsSafeSection,
+} from "@/lib/compliance";
 
 /**
  * Section configuration with icons and display info.
  */
 const SECTION_CONFIG: Record<
-  ScriptSectionType,
+  BuiltInSectionType,
   { title: string; icon: React.ElementType; description: string }
 > = {
   opening: {
@@ -62,26 +109,162 @@ const SECTION_CONFIG: Record<
 };
 
 /**
- * Word count color based on WIZARD_VALIDATION limits.
- * Green: under MAX_SECTION_WORDS (60)
- * Amber: 60-70 (slightly over)
- * Red: over 70 (timing issues likely)
+ * Display info for a section. Sections from a section template use their
+ * own title (falling back to the key) and a generic icon.
  */
-function getWordCountColor(count: number): string {
+function getSectionConfig(
+  type: ScriptSectionType,
+  title?: string
+): { title: string; icon: React.ElementType; description: string } {
+  const config = SECTION_CONFIG[type as BuiltInSectionType];
+  if (config) {
+    return config;
+  }
+  return {
+    title: title || type.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase()),
+    icon: LayoutList,
+    description: "Custom section",
+  };
+}
+
+/**
+ * Words (or characters) allowed over the language's per-section limit
+ * before a section is rejected.
+ */
+const SECTION_WORD_SLACK = 10;
+
+/**
+ * Word count color based on the language's section limit.
+ * Green: under maxSectionWords (60 for English)
+ * Amber: up to SECTION_WORD_SLACK over (slightly over)
+ * Red: beyond that (timing issues likely)
+ */
+function getWordCountColor(count: number, language: LanguageProfile): string {
   if (count === 0) return "text-muted-foreground";
-  if (count <= WIZARD_VALIDATION.MAX_SECTION_WORDS) return "text-green-500";
-  if (count <= WIZARD_VALIDATION.MAX_SECTION_WORDS + 10) return "text-amber-500";
+  if (count <= language.maxSectionWords) return "text-green-500";
+  if (count <= language.maxSectionWords + SECTION_WORD_SLACK) return "text-amber-500";
   return "text-red-500";
 }
 
 /**
- * Estimate narration duration based on words (~150 words/minute).
+ * Estimate narration duration at the language's TTS pace.
  */
-function estimateDuration(wordCount: number): string {
-  const seconds = Math.round((wordCount / 150) * 60);
+function estimateDuration(wordCount: number, language: LanguageProfile): string {
+  const seconds = Math.round((wordCount / language.wordsPerMinute) * 60);
   return `~${seconds}s`;
 }
 
+/**
+ * Seconds of narration a section can take at the language's TTS pace.
+ */
+function getSectionBudgetSeconds(language: LanguageProfile): number {
+  return Math.round((language.maxSectionWords / language.wordsPerMinute) * 60);
+}
+
+/**
+ * Plays a section read by the chosen voice through the same TTS path as
+ * the render, and reports the measured length against the section budget.
+ */
+interface NarrationPreviewProps {
+  text: string;
+  voiceId?: string;
+  voiceName?: string;
+  language: NarrationLanguage;
+}
+
+function NarrationPreview({ text, voiceId, voiceName, language }: NarrationPreviewProps) {
+  const [preview, setPreview] = React.useState<{
+    text: string;
+    voiceId: string;
+    url: string;
+    duration: number;
+  } | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isPlaying, setIsPlaying] = React.useState(false);
+  const [previewError, setPreviewError] = React.useState<string | null>(null);
+  const audioRef = React.useRef<HTMLAudioElement | null>(null);
+
+  const budgetSeconds = getSectionBudgetSeconds(getLanguageProfile(language));
+  const isCurrent = !!preview && preview.text === text && preview.voiceId === voiceId;
+
+  // Stop playback when the section closes
+  React.useEffect(() => () => audioRef.current?.pause(), []);
+
+  const play = (url: string) => {
+    audioRef.current?.pause();
+    const audio = new Audio(url);
+    audio.onended = () => setIsPlaying(false);
+    audioRef.current = audio;
+    audio.play().catch(() => setIsPlaying(false));
+    setIsPlaying(true);
+  };
+
+  const handleClick = async () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      return;
+    }
+    if (!voiceId || !text.trim()) return;
+    if (isCurrent) {
+      play(preview.url);
+      return;
+    }
+
+    setIsLoading(true);
+    setPreviewError(null);
+    try {
+      const response = await fetch("/api/voices/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ voiceId, text, language }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to generate preview");
+
+      setPreview({ text, voiceId, url: data.url, duration: data.duration });
+      play(data.url);
+    } catch (err) {
+      console.error("Voice preview error:", err);
+      setPreviewError(err instanceof Error ? err.message : "Failed to generate preview");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!voiceId) {
+    return <span className="text-muted-foreground">Pick a voice in Style to preview</span>;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleClick}
+        disabled={isLoading || !text.trim()}
+        className="h-7 gap-1.5 text-xs"
+        title={voiceName ? `Preview with ${voiceName}` : "Preview narration"}
+      >
+        {isLoading ? (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        ) : isPlaying ? (
+          <Square className="h-3 w-3" />
+        ) : (
+          <Play className="h-3 w-3" />
+        )}
+        {isPlaying ? "Stop" : "Listen"}
+      </Button>
+      {isCurrent && (
+        <span className={preview.duration > budgetSeconds ? "text-amber-500" : "text-green-500"}>
+          {preview.duration.toFixed(1)}s of {budgetSeconds}s
+        </span>
+      )}
+      {previewError && !isCurrent && <span className="text-red-500">{previewError}</span>}
+    </div>
+  );
+}
+
 /**
  * Typewriter animation for loading state.
  */
@@ -178,6 +361,64 @@ function ThumbnailStrip({ imageIds, images }: ThumbnailStripProps) {
   );
 }
 
+/**
+ * Inline Fair Housing flags for one section, with one-click replacements.
+ */
+interface FairHousingFlagsProps {
+  issues: FairHousingIssue[];
+  onApply: (issue: FairHousingIssue) => void;
+}
+
+function FairHousingFlags({ issues, onApply }: FairHousingFlagsProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {issues.map((issue) => (
+        <li
+          key={`${issue.ruleId}-${issue.index}`}
+          className={cn(
+            "flex items-start justify-between gap-3 rounded-md border px-3 py-2 text-xs",
+            issue.severity === "high"
+              ? "border-red-500/30 bg-red-500/5"
+              : "border-amber-500/30 bg-amber-500/5"
+          )}
+        >
+          <div className="flex items-start gap-2">
+            <AlertTriangle
+              className={cn(
+                "mt-0.5 h-3.5 w-3.5 shrink-0",
+                issue.severity === "high" ? "text-red-500" : "text-amber-500"
+              )}
+            />
+            <div>
+              <p className="text-foreground">
+                &ldquo;{issue.text}&rdquo;
+                <span className="text-muted-foreground">
+                  {" "}• {FAIR_HOUSING_CATEGORY_LABELS[issue.category]}
+                </span>
+              </p>
+              <p className="text-muted-foreground">{issue.reason}</p>
+            </div>
+          </div>
+          {issue.suggestion && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onApply(issue)}
+              className="h-6 shrink-0 px-2 text-xs"
+            >
+              Use &ldquo;{issue.suggestion}&rdquo;
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * Single section editor card.
  */
@@ -187,8 +428,11 @@ interface SectionEditorProps {
   isExpanded: boolean;
   onToggle: () => void;
   onChange: (content: string) => void;
-  onRegenerate: () => void;
+  onRegenerate: (instruction?: string) => void;
   isRegenerating: boolean;
+  language: NarrationLanguage;
+  voiceId?: string;
+  voiceName?: string;
 }
 
 function SectionEditor({
@@ -199,14 +443,22 @@ function SectionEditor({
   onChange,
   onRegenerate,
   isRegenerating,
+  language,
+  voiceId,
+  voiceName,
 }: SectionEditorProps) {
-  const config = SECTION_CONFIG[section.type];
+  const config = getSectionConfig(section.type, section.title);
   const Icon = config.icon;
-  const wordCount = section.content.trim().split(/\s+/).filter(Boolean).length;
+  const languageProfile = getLanguageProfile(language);
+  const wordCount = countScriptWords(section.content, language);
   const isEdited = section.content !== section.originalContent;
 
   const [localContent, setLocalContent] = React.useState(section.content);
+  const [instruction, setInstruction] = React.useState("");
   const debounceRef = React.useRef<NodeJS.Timeout | null>(null);
+  // Lint what's in the textarea so flags follow typing without the debounce
+  const fairHousingIssues = React.useMemo(() => lintFairHousing(localContent), [localContent]);
+  const hasHighSeverity = fairHousingIssues.some((issue) => issue.severity === "high");
 
   // Sync local content when section changes externally
   React.useEffect(() => {
@@ -226,6 +478,15 @@ function SectionEditor({
     }, 500);
   };
 
+  const handleApplySuggestion = (issue: FairHousingIssue) => {
+    const newContent = applyFairHousingSuggestion(localContent, issue);
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    setLocalContent(newContent);
+    onChange(newContent);
+  };
+
   return (
     <motion.div
       layout
@@ -248,13 +509,23 @@ function SectionEditor({
                   Edited
                 </span>
               )}
+              {fairHousingIssues.length > 0 && (
+                <span
+                  className={cn(
+                    "rounded px-1.5 py-0.5 text-[10px] font-medium",
+                    hasHighSeverity ? "bg-red-500/10 text-red-500" : "bg-amber-500/10 text-amber-500"
+                  )}
+                >
+                  Fair Housing ({fairHousingIssues.length})
+                </span>
+              )}
             </div>
             <p className="text-xs text-muted-foreground">{config.description}</p>
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <span className={cn("text-xs", getWordCountColor(wordCount))}>
-            {wordCount} words
+          <span className={cn("text-xs", getWordCountColor(wordCount, languageProfile))}>
+            {wordCount} {languageProfile.unit}
           </span>
           {isExpanded ? (
             <ChevronUp className="h-4 w-4 text-muted-foreground" />
@@ -287,34 +558,386 @@ function SectionEditor({
                 rows={4}
               />
 
+              {/* Fair Housing flags */}
+              <FairHousingFlags issues={fairHousingIssues} onApply={handleApplySuggestion} />
+
               {/* Footer */}
-              <div className="flex items-center justify-between text-xs">
-                <div className="flex items-center gap-4 text-muted-foreground">
-                  <span className={getWordCountColor(wordCount)}>
-                    {wordCount} words
+              <div className="flex items-center justify-between gap-3 text-xs">
+                <div className="flex shrink-0 items-center gap-4 text-muted-foreground">
+                  <span className={getWordCountColor(wordCount, languageProfile)}>
+                    {wordCount} {languageProfile.unit}
                   </span>
-                  <span>{estimateDuration(wordCount)}</span>
+                  <span>{estimateDuration(wordCount, languageProfile)}</span>
+                  <NarrationPreview
+                    text={localContent}
+                    voiceId={voiceId}
+                    voiceName={voiceName}
+                    language={language}
+                  />
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={onRegenerate}
-                  disabled={isRegenerating}
-                  className="h-7 gap-1.5 text-xs"
-                >
-                  {isRegenerating ? (
-                    <Loader2 className="h-3 w-3 animate-spin" />
+                <div className="flex min-w-0 flex-1 items-center justify-end gap-2">
+                  <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !isRegenerating) {
+                        e.preventDefault();
+                        onRegenerate(instruction.trim() || undefined);
+                      }
+                    }}
+                    placeholder="Optional: mention the wine cellar, shorter..."
+                    maxLength={300}
+                    className="h-7 w-full max-w-xs rounded-md border border-border/50 bg-background px-2 text-xs text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRegenerate(instruction.trim() || undefined)}
+                    disabled={isRegenerating}
+                    className="h-7 gap-1.5 text-xs"
+                  >
+                    {isRegenerating ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-3 w-3" />
+                    )}
+                    Regenerate
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
+
+/**
+ * Side-by-side preview of what the MLS (unbranded) narration drops.
+ */
+interface MlsPreviewProps {
+  sections: MlsSafeSection[];
+  titles: Map<ScriptSectionType, string>;
+}
+
+function MlsPreview({ sections, titles }: MlsPreviewProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const changed = sections.filter((s) => s.omitted || s.content !== s.original);
+  const findingCount = changed.reduce((sum, s) => sum + s.findings.length, 0);
+
+  if (changed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center justify-between px-4 py-3 hover:bg-muted/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10">
+            <ShieldCheck className="h-4 w-4 text-primary" />
+          </div>
+          <div className="text-left">
+            <span className="font-medium text-foreground">MLS Version</span>
+            <p className="text-xs text-muted-foreground">
+              {findingCount > 0
+                ? `${findingCount} agent detail${findingCount === 1 ? "" : "s"} removed from the unbranded narration`
+                : "Closing call-to-action is left out of the unbranded narration"}
+            </p>
+          </div>
+        </div>
+        {isOpen ? (
+          <ChevronUp className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="border-t border-border/50"
+          >
+            <div className="p-4 space-y-4">
+              {changed.map((section) => (
+                <div key={section.sectionId} className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">
+                      {getSectionConfig(section.type, titles.get(section.type)).title}
+                    </span>
+                    {section.findings.map((finding) => (
+                      <span
+                        key={`${finding.kind}-${finding.index}`}
+                        className="rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-medium text-amber-500"
+                      >
+                        {MLS_FINDING_LABELS[finding.kind]}: {finding.text}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <div className="rounded-md border border-border/50 bg-background p-3 text-xs leading-relaxed">
+                      <p className="mb-1 font-medium text-muted-foreground">Branded</p>
+                      {diffWords(section.original, section.content).map((segment, i) =>
+                        segment.type === "added" ? null : (
+                          <span
+                            key={i}
+                            className={cn(
+                              segment.type === "removed" && "bg-red-500/10 text-red-500 line-through"
+                            )}
+                          >
+                            {segment.text}
+                          </span>
+                        )
+                      )}
+                    </div>
+                    <div className="rounded-md border border-border/50 bg-background p-3 text-xs leading-relaxed">
+                      <p className="mb-1 font-medium text-muted-foreground">MLS</p>
+                      {section.omitted ? (
+                        <span className="italic text-muted-foreground">
+                          Section omitted from the unbranded video
+                        </span>
+                      ) : (
+                        section.content || (
+                          <span className="italic text-muted-foreground">No narration left</span>
+                        )
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+/**
+ * Short timestamp for a revision ("3:42 PM", or "Oct 12, 3:42 PM" on other days).
+ */
+function formatRevisionTime(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: "short", day: "numeric" })}, ${time}`;
+}
+
+/**
+ * Revision list with word-level diffs against the current script.
+ */
+interface ScriptHistoryPanelProps {
+  history: ScriptRevision[];
+  sections: ScriptSection[];
+  onRestore: (revision: ScriptRevision, sectionType?: ScriptSectionType) => void;
+}
+
+function ScriptHistoryPanel({ history, sections, onRestore }: ScriptHistoryPanelProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const titles = new Map(sections.map((s) => [s.type, s.title]));
+  const [filter, setFilter] = React.useState<ScriptSectionType | "all">("all");
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+
+  // Newest first; a section filter only lists revisions that changed that section
+  const revisions = React.useMemo(
+    () => (filter === "all" ? history : getSectionRevisions(history, filter)).slice().reverse(),
+    [history, filter]
+  );
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+
+  // Sections the selected revision would change if restored
+  const changes = selected
+    ? sections
+        .filter((section) => filter === "all" || section.type === filter)
+        .map((section) => ({
+          section,
+          content: getRevisionContent(selected, section.type),
+        }))
+        .filter(({ section, content }) => content && content !== section.content)
+    : [];
+
+  if (history.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card overflow-hidden">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full items-center justify-between px-4 py-3 hover:bg-muted/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10">
+            <History className="h-4 w-4 text-primary" />
+          </div>
+          <div className="text-left">
+            <span className="font-medium text-foreground">Script History</span>
+            <p className="text-xs text-muted-foreground">
+              {history.length} versions saved • Compare and restore any earlier version
+            </p>
+          </div>
+        </div>
+        {isOpen ? (
+          <ChevronUp className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="border-t border-border/50"
+          >
+            <div className="p-4 space-y-4">
+              <Select
+                value={filter}
+                onValueChange={(value) => {
+                  setFilter(value as ScriptSectionType | "all");
+                  setSelectedId(null);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Whole script</SelectItem>
+                  {sections.map((section) => (
+                    <SelectItem key={section.type} value={section.type}>
+                      {getSectionConfig(section.type, section.title).title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="grid gap-4 sm:grid-cols-[200px_1fr]">
+                <div className="flex max-h-72 flex-col gap-1 overflow-y-auto">
+                  {revisions.map((revision, index) => (
+                    <button
+                      key={revision.id}
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        "rounded-md px-3 py-2 text-left text-xs transition-colors",
+                        revision.id === selectedId ? "bg-primary/10" : "hover:bg-muted/50"
+                      )}
+                    >
+                      <span className="font-medium text-foreground">
+                        {SCRIPT_REVISION_SOURCE_LABELS[revision.source]}
+                        {revision.sectionType && ` • ${getSectionConfig(revision.sectionType, titles.get(revision.sectionType)).title}`}
+                      </span>
+                      <p className="text-muted-foreground">
+                        {formatRevisionTime(revision.createdAt)}
+                        {index === 0 && " • Latest"}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  {!selected ? (
+                    <p className="text-sm text-muted-foreground">
+                      Select a version to compare it with the current script
+                    </p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {filter === "all" ? "Same as the current script" : "Same as the current section"}
+                    </p>
                   ) : (
-                    <RefreshCw className="h-3 w-3" />
+                    <>
+                      {changes.map(({ section, content }) => (
+                        <div key={section.type} className="space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">
+                            {getSectionConfig(section.type, section.title).title}
+                          </p>
+                          <div className="rounded-md border border-border/50 bg-background p-3 text-xs leading-relaxed">
+                            {diffWords(section.content, content).map((segment, i) => (
+                              <span
+                                key={i}
+                                className={cn(
+                                  segment.type === "removed" && "bg-red-500/10 text-red-500 line-through",
+                                  segment.type === "added" && "bg-green-500/10 text-green-600"
+                                )}
+                              >
+                                {segment.text}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          onRestore(selected, filter === "all" ? undefined : filter);
+                          setSelectedId(null);
+                        }}
+                        className="gap-2"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                        {filter === "all" ? "Restore this version" : "Restore this section"}
+                      </Button>
+                    </>
                   )}
-                  Regenerate
-                </Button>
+                </div>
               </div>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
-    </motion.div>
+    </div>
+  );
+}
+
+/**
+ * Before/after word counts from the last Fit to video pass.
+ */
+interface FitResultsProps {
+  results: TightenResult[];
+  titles: Map<ScriptSectionType, string>;
+  unit: LanguageProfile["unit"];
+  onDismiss: () => void;
+}
+
+function FitResults({ results, titles, unit, onDismiss }: FitResultsProps) {
+  const tightened = results.filter((r) => r.tightened);
+
+  return (
+    <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium text-foreground">
+          <Scissors className="h-4 w-4 text-primary" />
+          {tightened.length > 0
+            ? `Tightened ${tightened.length} section${tightened.length === 1 ? "" : "s"} to fit the video`
+            : "Every section already fits its footage"}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="h-7 w-7 p-0">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="mt-3 grid gap-1 sm:grid-cols-2">
+        {results.map((result) => (
+          <div key={result.type} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-muted-foreground">{getSectionConfig(result.type, titles.get(result.type)).title}</span>
+            <span className={cn(result.tightened ? "text-foreground" : "text-muted-foreground")}>
+              {result.tightened ? `${result.before} → ${result.after}` : result.before}
+              {" "}/ {result.targetWords} {unit}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
   );
 }
 
@@ -329,19 +952,53 @@ export interface ScriptStepHandle {
  * - 5 AI-generated tour sections
  * - Editable narration text
  * - Section-based regeneration
+ * - Fit to video: tightens over-budget sections with before/after counts
+ * - Script history with word-level diffs and restore
  * - Word counts and duration estimates
+ * - MLS-safe narration preview for the unbranded render
+ * - Fair Housing flags; high-severity language blocks Continue unless overridden
  */
 export const ScriptStep = React.forwardRef<ScriptStepHandle>(
   function ScriptStep(_, ref) {
-    const { state, updateScript, updateScriptSection } = useWizard();
+    const { state, updateScript, updateScriptSection, setStyleOptions, setFairHousingOverride } = useWizard();
     const { images, scriptSections, propertyData } = state;
+    const narrationTone = state.styleOptions.narrationTone ?? "luxury";
+    const narrationLanguage = state.styleOptions.narrationLanguage ?? "en";
+    const languageProfile = getLanguageProfile(narrationLanguage);
+    const unit = languageProfile.unit;
 
     const [isGenerating, setIsGenerating] = React.useState(false);
     const [regeneratingSection, setRegeneratingSection] = React.useState<string | null>(null);
-    const [expandedSections, setExpandedSections] = React.useState<Set<ScriptSectionType>>(
-      new Set(["opening", "living", "private", "amenities", "outdoor", "closing"])
+    // Sections start expanded, whatever structure the script uses
+    const [collapsedSections, setCollapsedSections] = React.useState<Set<ScriptSectionType>>(
+      new Set()
     );
     const [error, setError] = React.useState<string | null>(null);
+    const [isFitting, setIsFitting] = React.useState(false);
+    const [fitResults, setFitResults] = React.useState<TightenResult[] | null>(null);
+    const [sectionTemplates, setSectionTemplates] = React.useState<SectionTemplate[]>([]);
+    const selectedTemplate = state.styleOptions.sectionTemplate;
+
+    // High-severity Fair Housing hits across all sections
+    const blockingIssues = React.useMemo(
+      () =>
+        Object.values(lintScriptSections(scriptSections))
+          .flat()
+          .filter((issue) => issue.severity === "high"),
+      [scriptSections]
+    );
+
+    // The override confirms one exact set of phrases; any change to that set voids it
+    const blockingPhrases = React.useMemo(() => getBlockingPhrases(scriptSections), [scriptSections]);
+    const blockingKey = blockingPhrases.join("\n");
+    const overrideKey = state.fairHousingOverride.join("\n");
+    const fairHousingOverride = blockingPhrases.length > 0 && overrideKey === blockingKey;
+
+    React.useEffect(() => {
+      if (overrideKey && overrideKey !== blockingKey) {
+        setFairHousingOverride([]);
+      }
+    }, [overrideKey, blockingKey, setFairHousingOverride]);
 
     // Expose validate method to parent
     React.useImperativeHandle(ref, () => ({
@@ -359,40 +1016,49 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
         }
         // Check minimum character count per section
         const shortSections = scriptSections.filter(
-          (s) => s.content.trim().length < WIZARD_VALIDATION.MIN_SECTION_CHARS
+          (s) => s.content.trim().length < languageProfile.minSectionChars
         );
         if (shortSections.length > 0) {
           const sectionNames = shortSections
-            .map((s) => SECTION_CONFIG[s.type].title)
+            .map((s) => getSectionConfig(s.type, s.title).title)
             .join(", ");
           setError(
-            `Sections too short: ${sectionNames}. Each section needs at least ${WIZARD_VALIDATION.MIN_SECTION_CHARS} characters for proper narration timing.`
+            `Sections too short: ${sectionNames}. Each section needs at least ${languageProfile.minSectionChars} characters for proper narration timing.`
           );
           return false;
         }
 
         // Check maximum word count per section
         const longSections = scriptSections.filter(
-          (s) => s.content.trim().split(/\s+/).filter(Boolean).length > WIZARD_VALIDATION.MAX_SECTION_WORDS + 10
+          (s) => countScriptWords(s.content, narrationLanguage) > languageProfile.maxSectionWords + SECTION_WORD_SLACK
         );
         if (longSections.length > 0) {
           const sectionNames = longSections
-            .map((s) => SECTION_CONFIG[s.type].title)
+            .map((s) => getSectionConfig(s.type, s.title).title)
             .join(", ");
           setError(
-            `Sections too long: ${sectionNames}. Each section should be under ${WIZARD_VALIDATION.MAX_SECTION_WORDS + 10} words to avoid timing issues.`
+            `Sections too long: ${sectionNames}. Each section should be under ${languageProfile.maxSectionWords + SECTION_WORD_SLACK} ${unit} to avoid timing issues.`
           );
           return false;
         }
 
         // Check total word count
         const totalWordCount = scriptSections.reduce(
-          (sum, s) => sum + s.content.trim().split(/\s+/).filter(Boolean).length,
+          (sum, s) => sum + countScriptWords(s.content, narrationLanguage),
           0
         );
-        if (totalWordCount > WIZARD_VALIDATION.MAX_TOTAL_WORDS) {
+        if (totalWordCount > languageProfile.maxTotalWords) {
+          setError(
+            `Total script too long (${totalWordCount} ${unit}). Maximum is ${languageProfile.maxTotalWords} ${unit} to ensure proper audio timing.`
+          );
+          return false;
+        }
+
+        // Fair Housing: high-severity language needs an explicit override
+        if (blockingIssues.length > 0 && !fairHousingOverride) {
+          const phrases = [...new Set(blockingIssues.map((issue) => `"${issue.text}"`))].join(", ");
           setError(
-            `Total script too long (${totalWordCount} words). Maximum is ${WIZARD_VALIDATION.MAX_TOTAL_WORDS} words to ensure proper audio timing.`
+            `Fair Housing review needed: ${phrases}. Revise the flagged language or confirm the override below.`
           );
           return false;
         }
@@ -401,49 +1067,86 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
       },
     }));
 
-    // Auto-generate on mount if no sections
+    // Auto-generate on mount if no sections (language versions wait for the language choice)
     React.useEffect(() => {
-      if (scriptSections.length === 0 && images.length > 0 && !isGenerating) {
+      if (
+        scriptSections.length === 0 &&
+        images.length > 0 &&
+        !isGenerating &&
+        state.source?.kind !== "language"
+      ) {
         handleGenerate();
       }
     }, []); // Only on mount
 
+    // Load the user's section templates for the structure picker
+    React.useEffect(() => {
+      const loadTemplates = async () => {
+        try {
+          const response = await fetch("/api/section-templates");
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || "Failed to load section templates");
+          setSectionTemplates(data.templates);
+        } catch (err) {
+          console.error("Load section templates error:", err);
+        }
+      };
+      loadTemplates();
+    }, []);
+
+    /**
+     * Property and image details sent to the script routes.
+     */
+    const scriptRequestData = () => ({
+      propertyData: {
+        address: propertyData.address || "",
+        city: propertyData.city || "",
+        state: propertyData.state || "",
+        price: propertyData.listingPrice || 0,
+        beds: propertyData.bedrooms || 0,
+        baths: propertyData.bathrooms || 0,
+        sqft: propertyData.squareFeet || 0,
+        lotSize: propertyData.lotSize || undefined,
+        lotSizeUnit: propertyData.lotSizeUnit,
+        zoning: propertyData.zoning || undefined,
+        frontage: propertyData.frontage || undefined,
+        capRate: propertyData.capRate || undefined,
+        tenants: propertyData.tenants || undefined,
+        propertyType: propertyData.propertyType || "Luxury Home",
+        description: propertyData.description || "",
+        features: propertyData.features || [],
+        agentPhone: propertyData.agentPhone || "",
+        agentSocial: propertyData.agentSocial || "",
+      },
+      images: [...images]
+        .sort((a, b) => a.order - b.order)
+        .map((img, index) => ({
+          id: img.id,
+          label: img.label,
+          features: img.features,
+          roomType: img.roomType,
+          order: index,
+        })),
+      tone: narrationTone,
+      language: narrationLanguage,
+      // Budgets follow this voice's measured pace once it has been calibrated
+      voiceId: state.styleOptions.voiceId || undefined,
+      structure: selectedTemplate?.sections,
+    });
+
     /**
      * Generate the full script.
      */
     const handleGenerate = async () => {
       setIsGenerating(true);
       setError(null);
+      setFitResults(null);
 
       try {
         const response = await fetch("/api/script/generate", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            propertyData: {
-              address: propertyData.address || "",
-              city: propertyData.city || "",
-              state: propertyData.state || "",
-              price: propertyData.listingPrice || 0,
-              beds: propertyData.bedrooms || 0,
-              baths: propertyData.bathrooms || 0,
-              sqft: propertyData.squareFeet || 0,
-              propertyType: propertyData.propertyType || "Luxury Home",
-              description: propertyData.description || "",
-              features: propertyData.features || [],
-              agentPhone: propertyData.agentPhone || "",
-              agentSocial: propertyData.agentSocial || "",
-            },
-            images: [...images]
-              .sort((a, b) => a.order - b.order)
-              .map((img, index) => ({
-                id: img.id,
-                label: img.label,
-                features: img.features,
-                roomType: img.roomType,
-                order: index,
-              })),
-          }),
+          body: JSON.stringify(scriptRequestData()),
         });
 
         if (!response.ok) {
@@ -462,9 +1165,9 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
     };
 
     /**
-     * Regenerate a single section.
+     * Regenerate a single section, optionally steered by an instruction.
      */
-    const handleRegenerateSection = async (sectionId: string) => {
+    const handleRegenerateSection = async (sectionId: string, instruction?: string) => {
       const section = scriptSections.find((s) => s.id === sectionId);
       if (!section) return;
 
@@ -472,34 +1175,15 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
       setError(null);
 
       try {
-        // Re-generate the full script but only update this section
-        const response = await fetch("/api/script/generate", {
+        // Rewrite just this section, with the rest of the script as context
+        const response = await fetch("/api/script/regenerate-section", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            propertyData: {
-              address: propertyData.address || "",
-              city: propertyData.city || "",
-              state: propertyData.state || "",
-              price: propertyData.listingPrice || 0,
-              beds: propertyData.bedrooms || 0,
-              baths: propertyData.bathrooms || 0,
-              sqft: propertyData.squareFeet || 0,
-              propertyType: propertyData.propertyType || "Luxury Home",
-              description: propertyData.description || "",
-              features: propertyData.features || [],
-              agentPhone: propertyData.agentPhone || "",
-              agentSocial: propertyData.agentSocial || "",
-            },
-            images: [...images]
-              .sort((a, b) => a.order - b.order)
-              .map((img, index) => ({
-                id: img.id,
-                label: img.label,
-                features: img.features,
-                roomType: img.roomType,
-                order: index,
-              })),
+            ...scriptRequestData(),
+            sections: scriptSections.map((s) => ({ type: s.type, content: s.content })),
+            sectionType: section.type,
+            instruction,
           }),
         });
 
@@ -508,18 +1192,19 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
           throw new Error(err.error || "Failed to regenerate section");
         }
 
-        const { sections: newSections } = await response.json();
-        const newSection = newSections.find(
-          (s: ScriptSection) => s.type === section.type
-        );
+        const { section: newSection } = (await response.json()) as {
+          section: Pick<ScriptSection, "content" | "imageIds">;
+        };
 
-        if (newSection) {
-          updateScriptSection({
+        updateScriptSection(
+          {
             ...section,
             content: newSection.content,
             originalContent: newSection.content,
-          });
-        }
+            imageIds: newSection.imageIds,
+          },
+          "regenerated"
+        );
       } catch (err) {
         console.error("Section regeneration error:", err);
         setError(err instanceof Error ? err.message : "Failed to regenerate section");
@@ -528,11 +1213,72 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
       }
     };
 
+    /**
+     * Tighten over-budget sections down to their word budgets.
+     */
+    const handleFitToVideo = async () => {
+      setIsFitting(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/script/fit", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...scriptRequestData(),
+            sections: scriptSections.map((s) => ({ type: s.type, content: s.content })),
+          }),
+        });
+
+        if (!response.ok) {
+          const err = await response.json();
+          throw new Error(err.error || "Failed to fit script");
+        }
+
+        const { sections: results } = (await response.json()) as { sections: TightenResult[] };
+
+        // One update so the whole pass is a single undo step
+        if (results.some((r) => r.tightened)) {
+          updateScript(
+            scriptSections.map((section) => {
+              const result = results.find((r) => r.type === section.type && r.tightened);
+              return result ? { ...section, content: result.content } : section;
+            }),
+            "tightened"
+          );
+        }
+        setFitResults(results);
+      } catch (err) {
+        console.error("Script fit error:", err);
+        setError(err instanceof Error ? err.message : "Failed to fit script");
+      } finally {
+        setIsFitting(false);
+      }
+    };
+
+    /**
+     * Restore an earlier revision, for the whole script or one section.
+     */
+    const handleRestoreRevision = (revision: ScriptRevision, sectionType?: ScriptSectionType) => {
+      setFitResults(null);
+      if (sectionType) {
+        const section = scriptSections.find((s) => s.type === sectionType);
+        if (section) {
+          updateScriptSection(
+            { ...section, content: getRevisionContent(revision, sectionType) },
+            "restored"
+          );
+        }
+        return;
+      }
+      updateScript(applyScriptRevision(scriptSections, revision), "restored");
+    };
+
     /**
      * Toggle section expansion.
      */
     const toggleSection = (type: ScriptSectionType) => {
-      setExpandedSections((prev) => {
+      setCollapsedSections((prev) => {
         const next = new Set(prev);
         if (next.has(type)) {
           next.delete(type);
@@ -558,11 +1304,32 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
 
     // Calculate total word count and duration
     const totalWords = scriptSections.reduce(
-      (sum, s) => sum + s.content.trim().split(/\s+/).filter(Boolean).length,
+      (sum, s) => sum + countScriptWords(s.content, narrationLanguage),
       0
     );
-    const totalDuration = Math.round((totalWords / 150) * 60);
-    const isOverLimit = totalWords > WIZARD_VALIDATION.MAX_TOTAL_WORDS;
+    const totalDuration = Math.round((totalWords / languageProfile.wordsPerMinute) * 60);
+    const isOverLimit = totalWords > languageProfile.maxTotalWords;
+    // Template sections carry no image references until regenerated
+    const isTemplateScript =
+      state.source?.kind === "template" &&
+      scriptSections.every((s) => s.imageIds.length === 0);
+    // MLS dual output defaults on, so preview unless it was turned off
+    const sectionTitles = React.useMemo(
+      () => new Map(scriptSections.map((s) => [s.type, s.title])),
+      [scriptSections]
+    );
+    // A template deleted since it was picked stays selectable for this draft
+    const templateOptions =
+      selectedTemplate && !sectionTemplates.some((t) => t.id === selectedTemplate.id)
+        ? [...sectionTemplates, selectedTemplate]
+        : sectionTemplates;
+    const mlsSections = React.useMemo(
+      () =>
+        state.styleOptions.mlsDualOutput === false
+          ? []
+          : getMlsSafeScript(scriptSections, propertyData),
+      [scriptSections, propertyData, state.styleOptions.mlsDualOutput]
+    );
 
     return (
       <div className="flex flex-col gap-6">
@@ -577,24 +1344,135 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
               isOverLimit ? "text-red-500" : "text-muted-foreground"
             )}>
               {scriptSections.length > 0
-                ? `${totalWords}/${WIZARD_VALIDATION.MAX_TOTAL_WORDS} words • ~${totalDuration}s narration${isOverLimit ? ' ⚠️ Over limit!' : ''}`
+                ? `${totalWords}/${languageProfile.maxTotalWords} ${unit} • ~${totalDuration}s narration${isOverLimit ? ' ⚠️ Over limit!' : ''}`
                 : "AI will generate a cohesive narration for your tour"}
             </p>
           </div>
           {scriptSections.length > 0 && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleGenerate}
-              disabled={isGenerating}
-              className="gap-2"
-            >
-              <RefreshCw className={cn("h-4 w-4", isGenerating && "animate-spin")} />
-              Regenerate All
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={isOverLimit ? "default" : "outline"}
+                size="sm"
+                onClick={handleFitToVideo}
+                disabled={isGenerating || isFitting}
+                className="gap-2"
+              >
+                {isFitting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Scissors className="h-4 w-4" />
+                )}
+                Fit to video
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleGenerate}
+                disabled={isGenerating || isFitting}
+                className="gap-2"
+              >
+                <RefreshCw className={cn("h-4 w-4", isGenerating && "animate-spin")} />
+                Regenerate All
+              </Button>
+            </div>
           )}
         </div>
 
+        {/* Narration tone */}
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="narration-tone" className="text-base font-medium">
+              Narration Tone
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {NARRATION_TONE_OPTIONS.find((option) => option.value === narrationTone)?.description}
+              {scriptSections.length > 0 && " • Regenerate to apply a new tone"}
+            </p>
+          </div>
+          <Select
+            value={narrationTone}
+            onValueChange={(value) => setStyleOptions({ narrationTone: value as NarrationTone })}
+            disabled={isGenerating}
+          >
+            <SelectTrigger id="narration-tone" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NARRATION_TONE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Narration language */}
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="narration-language" className="text-base font-medium">
+              Language
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {NARRATION_LANGUAGE_OPTIONS.find((option) => option.value === narrationLanguage)?.description}
+              {scriptSections.length > 0 && " • Regenerate to write the script in a new language"}
+            </p>
+          </div>
+          <Select
+            value={narrationLanguage}
+            onValueChange={(value) => setStyleOptions({ narrationLanguage: value as NarrationLanguage })}
+            disabled={isGenerating}
+          >
+            <SelectTrigger id="narration-language" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NARRATION_LANGUAGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Section structure */}
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="section-template" className="text-base font-medium">
+              Sections
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {getSectionStructure(selectedTemplate, propertyData.propertyType).map((s) => s.title).join(" → ")}
+              {scriptSections.length > 0 && " • Regenerate to apply a new structure"}
+            </p>
+          </div>
+          <Select
+            value={selectedTemplate?.id ?? "default"}
+            onValueChange={(value) => {
+              const template = templateOptions.find((t) => t.id === value);
+              setStyleOptions({
+                sectionTemplate: template
+                  ? { id: template.id, name: template.name, sections: template.sections }
+                  : undefined,
+              });
+            }}
+            disabled={isGenerating}
+          >
+            <SelectTrigger id="section-template" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default ({getSectionStructure(null, propertyData.propertyType).length} sections)</SelectItem>
+              {templateOptions.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Loading state */}
         <AnimatePresence>
           {isGenerating && <TypewriterAnimation />}
@@ -620,23 +1498,72 @@ export const ScriptStep = React.forwardRef<ScriptStepHandle>(
             animate={{ opacity: 1, y: 0 }}
             className="flex flex-col gap-3"
           >
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Check className="h-4 w-4 text-green-500" />
-              <span>6 sections generated • Click to expand and edit</span>
-            </div>
+            {isTemplateScript ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Copy className="h-4 w-4 text-primary" />
+                <span>
+                  Script copied from {state.source?.label} • Update property details or Regenerate All
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Check className="h-4 w-4 text-green-500" />
+                <span>{scriptSections.length} sections generated • Click to expand and edit</span>
+              </div>
+            )}
+
+            {fitResults && (
+              <FitResults
+                results={fitResults}
+                titles={sectionTitles}
+                unit={unit}
+                onDismiss={() => setFitResults(null)}
+              />
+            )}
 
             {scriptSections.map((section) => (
               <SectionEditor
                 key={section.id}
                 section={section}
                 images={images}
-                isExpanded={expandedSections.has(section.type)}
+                isExpanded={!collapsedSections.has(section.type)}
                 onToggle={() => toggleSection(section.type)}
                 onChange={(content) => handleContentChange(section.id, content)}
-                onRegenerate={() => handleRegenerateSection(section.id)}
+                onRegenerate={(instruction) => handleRegenerateSection(section.id, instruction)}
                 isRegenerating={regeneratingSection === section.id}
+                language={narrationLanguage}
+                voiceId={state.styleOptions.voiceId || undefined}
+                voiceName={state.styleOptions.voiceName || undefined}
               />
             ))}
+
+            <ScriptHistoryPanel
+              history={state.scriptHistory}
+              sections={scriptSections}
+              onRestore={handleRestoreRevision}
+            />
+
+            <MlsPreview sections={mlsSections} titles={sectionTitles} />
+
+            {/* Fair Housing override */}
+            {blockingIssues.length > 0 && (
+              <label className="flex items-start gap-3 rounded-lg border border-red-500/30 bg-red-500/5 p-4 text-sm">
+                <Checkbox
+                  checked={fairHousingOverride}
+                  onCheckedChange={(checked) => {
+                    setFairHousingOverride(checked === true ? blockingPhrases : []);
+                    if (checked === true) setError(null);
+                  }}
+                  className="mt-0.5"
+                />
+                <span className="text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {blockingIssues.length} high-severity Fair Housing flag{blockingIssues.length === 1 ? "" : "s"}.
+                  </span>{" "}
+                  I&apos;ve reviewed the flagged language and want to continue anyway.
+                </span>
+              </label>
+            )}
           </motion.div>
         )}
 
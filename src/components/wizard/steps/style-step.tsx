@@ -11,8 +11,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { AudioRecorder } from "@/components/ui/audio-recorder";
 import { Badge } from "@/components/ui/badge";
 import { MusicSelector } from "@/components/wizard/music-selector";
+import { useWizard } from "@/lib/wizard/wizard-context";
 import { cn } from "@/lib/utils";
 import type { MusicSelection } from "@/lib/music";
+import {
+  ASPECT_RATIO_OPTIONS,
+  CAPTION_STYLE_OPTIONS,
+  type AspectRatio,
+  type CaptionStyle,
+} from "@/lib/wizard/types";
 import {
   Mic,
   Upload,
@@ -29,6 +36,9 @@ import {
   Clock,
   ChevronDown,
   ChevronRight,
+  RectangleHorizontal,
+  RectangleVertical,
+  Square,
 } from "lucide-react";
 
 interface VoiceData {
@@ -60,9 +70,17 @@ export interface StyleStepHandle {
     musicEnabled: boolean;
     musicSelection: MusicSelection;
     mlsDualOutput: boolean;
+    aspectRatios: AspectRatio[];
+    captionStyle: CaptionStyle;
   };
 }
 
+const ASPECT_RATIO_ICONS: Record<AspectRatio, typeof Square> = {
+  "16:9": RectangleHorizontal,
+  "9:16": RectangleVertical,
+  "1:1": Square,
+};
+
 // Group voices by use case for better organization
 const USE_CASE_LABELS: Record<string, string> = {
   narration: "Narration",
@@ -75,8 +93,22 @@ const USE_CASE_LABELS: Record<string, string> = {
 };
 
 export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
+  const { state, setStyleOptions } = useWizard();
+  // Restored drafts seed the local selections
+  const savedStyle = state.styleOptions;
+  // Library voices are limited to the script's language
+  const narrationLanguage = savedStyle.narrationLanguage ?? "en";
+
   // Voice selection state
-  const [selectedVoice, setSelectedVoice] = React.useState<SelectedVoice | null>(null);
+  const [selectedVoice, setSelectedVoice] = React.useState<SelectedVoice | null>(
+    savedStyle.voiceId
+      ? {
+          id: savedStyle.voiceId,
+          name: savedStyle.voiceName || "Selected voice",
+          source: savedStyle.voiceSource || "library",
+        }
+      : null
+  );
   const [activeTab, setActiveTab] = React.useState<string>("library");
 
   // My Voices tab state
@@ -110,9 +142,39 @@ export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
   const audioRef = React.useRef<HTMLAudioElement | null>(null);
 
   // Toggle states
-  const [musicEnabled, setMusicEnabled] = React.useState(true);
-  const [musicSelection, setMusicSelection] = React.useState<MusicSelection>({ type: "none" });
-  const [mlsDualOutput, setMlsDualOutput] = React.useState(true);
+  const [musicEnabled, setMusicEnabled] = React.useState(savedStyle.musicEnabled ?? true);
+  const [musicSelection, setMusicSelection] = React.useState<MusicSelection>(
+    savedStyle.musicSelection ?? { type: "none" }
+  );
+  const [mlsDualOutput, setMlsDualOutput] = React.useState(savedStyle.mlsDualOutput ?? true);
+  const [aspectRatios, setAspectRatios] = React.useState<AspectRatio[]>(
+    savedStyle.aspectRatios ?? ["16:9"]
+  );
+  const [captionStyle, setCaptionStyle] = React.useState<CaptionStyle>(
+    savedStyle.captionStyle ?? "none"
+  );
+
+  // Landscape is always rendered; social formats are reframed from it
+  const toggleAspectRatio = (ratio: AspectRatio) => {
+    if (ratio === "16:9") return;
+    setAspectRatios((prev) =>
+      prev.includes(ratio) ? prev.filter((r) => r !== ratio) : [...prev, ratio]
+    );
+  };
+
+  // Mirror selections into wizard state so drafts capture them
+  React.useEffect(() => {
+    setStyleOptions({
+      voiceId: selectedVoice?.id,
+      voiceName: selectedVoice?.name,
+      voiceSource: selectedVoice?.source,
+      musicEnabled,
+      musicSelection,
+      mlsDualOutput,
+      aspectRatios,
+      captionStyle,
+    });
+  }, [selectedVoice, musicEnabled, musicSelection, mlsDualOutput, aspectRatios, captionStyle, setStyleOptions]);
 
   // Favorites (stored in localStorage)
   const [favorites, setFavorites] = React.useState<Set<string>>(new Set());
@@ -165,6 +227,8 @@ export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
       musicEnabled,
       musicSelection: musicEnabled ? musicSelection : { type: "none" },
       mlsDualOutput,
+      aspectRatios,
+      captionStyle,
     }),
   }));
 
@@ -194,6 +258,7 @@ export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
       if (libraryFilters.age && libraryFilters.age !== "all") params.set("age", libraryFilters.age);
       if (libraryFilters.accent && libraryFilters.accent !== "all") params.set("accent", libraryFilters.accent);
       if (libraryFilters.search) params.set("search", libraryFilters.search);
+      params.set("language", narrationLanguage);
       params.set("page_size", "50");
 
       const response = await fetch(`/api/voices/library?${params.toString()}`);
@@ -205,7 +270,7 @@ export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
     } finally {
       setLoadingLibrary(false);
     }
-  }, [libraryFilters]);
+  }, [libraryFilters, narrationLanguage]);
 
   // Load voices on tab change
   React.useEffect(() => {
@@ -903,27 +968,96 @@ export const StyleStep = React.forwardRef<StyleStepHandle>((_, ref) => {
             )}
           </div>
 
-          {/* MLS Toggle - Hidden for now, keeping code for later */}
-          {false && (
-            <div className="flex items-center justify-between rounded-lg border p-4">
-              <div className="space-y-0.5">
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="mls-toggle" className="text-base font-medium">
-                    MLS Dual-Output
-                  </Label>
-                  <Badge variant="outline" className="text-xs">Recommended</Badge>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Generate both branded and unbranded (MLS-compliant) versions
-                </p>
+          {/* Output formats */}
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label className="text-base font-medium">Formats</Label>
+              <p className="text-sm text-muted-foreground">
+                Also export vertical and square versions for social media
+              </p>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {ASPECT_RATIO_OPTIONS.map((option) => {
+                const Icon = ASPECT_RATIO_ICONS[option.value];
+                const isSelected = aspectRatios.includes(option.value);
+                const isLocked = option.value === "16:9";
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleAspectRatio(option.value)}
+                    disabled={isLocked}
+                    aria-pressed={isSelected}
+                    className={cn(
+                      "flex items-center gap-3 rounded-lg border p-3 text-left transition-colors",
+                      isSelected
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-primary/50 hover:bg-muted/50",
+                      isLocked && "cursor-default"
+                    )}
+                  >
+                    <Icon className={cn("h-5 w-5 shrink-0", isSelected ? "text-primary" : "text-muted-foreground")} />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">
+                        {option.label} <span className="text-muted-foreground">{option.value}</span>
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {isLocked ? "Always included" : option.description}
+                      </p>
+                    </div>
+                    {isSelected && <Check className="h-4 w-4 shrink-0 text-primary" />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Burned-in captions */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="caption-style" className="text-base font-medium">
+                Captions
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                {CAPTION_STYLE_OPTIONS.find((option) => option.value === captionStyle)?.description}
+              </p>
+            </div>
+            <Select
+              value={captionStyle}
+              onValueChange={(value) => setCaptionStyle(value as CaptionStyle)}
+            >
+              <SelectTrigger id="caption-style" className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTION_STYLE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* MLS Toggle */}
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="mls-toggle" className="text-base font-medium">
+                  MLS Dual-Output
+                </Label>
+                <Badge variant="outline" className="text-xs">Recommended</Badge>
               </div>
-              <Switch
-                id="mls-toggle"
-                checked={mlsDualOutput}
-                onCheckedChange={setMlsDualOutput}
-              />
+              <p className="text-sm text-muted-foreground">
+                Generate both branded and unbranded (MLS-compliant) versions
+              </p>
             </div>
-          )}
+            <Switch
+              id="mls-toggle"
+              checked={mlsDualOutput}
+              onCheckedChange={setMlsDualOutput}
+            />
+          </div>
         </CardContent>
       </Card>
 
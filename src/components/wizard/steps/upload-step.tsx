@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { motion, AnimatePresence, Reorder } from "framer-motion";
-import { Sparkles, Loader2, GripVertical, Check, Pencil, X, Wand2, Expand } from "lucide-react";
+import { Sparkles, Loader2, GripVertical, Check, Pencil, X, Wand2, Expand, Layers, Star } from "lucide-react";
 import { nanoid } from "nanoid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,8 +17,24 @@ import { Dropzone, ImagePreviewGrid, type ImagePreview } from "@/components/ui/d
 import { ImageCompareSlider } from "@/components/ui/image-compare-slider";
 import { cn } from "@/lib/utils";
 import { useWizard } from "@/lib/wizard/wizard-context";
-import type { WizardImage, RoomType, EnhancementPreset, EnhancementStatus, EnhancedUrlCache } from "@/lib/wizard/types";
+import type {
+  WizardImage,
+  RoomType,
+  EnhancementPreset,
+  EnhancementStatus,
+  EnhancedUrlCache,
+  ScriptSectionDefinition,
+} from "@/lib/wizard/types";
 import { WIZARD_VALIDATION } from "@/lib/wizard/types";
+import { getPropertyTypeProfile } from "@/lib/script";
+import { perceptualHash, findDuplicateClusters, type DuplicateCluster } from "@/lib/image-dedupe";
+import {
+  measureImageQuality,
+  getImageQualityWarnings,
+  pickHeroImage,
+  type ImageClutter,
+  type ImageQuality,
+} from "@/lib/image-quality";
 import { AlertTriangle } from "lucide-react";
 
 /**
@@ -141,11 +157,26 @@ const SECTION_REQUIREMENTS: SectionRequirement[] = [
 
 /**
  * Check which sections are missing required images.
+ * Listings with their own section structure (a template, or a land,
+ * condo or commercial listing) need a photo for each section that maps rooms.
  */
-function getMissingSections(images: { roomType: RoomType }[]): SectionRequirement[] {
+function getMissingSections(
+  images: { roomType: RoomType }[],
+  structure?: ScriptSectionDefinition[]
+): SectionRequirement[] {
   const roomTypes = new Set(images.map((img) => img.roomType));
-
-  return SECTION_REQUIREMENTS.filter((req) => {
+  const requirements: SectionRequirement[] = structure
+    ? structure
+        .filter((section) => section.type !== "closing" && section.roomTypes.length > 0)
+        .map((section) => ({
+          section: section.type,
+          label: section.title,
+          roomTypes: section.roomTypes,
+          description: section.roomTypes.map((rt) => ROOM_TYPE_LABELS[rt]).join(", "),
+        }))
+    : SECTION_REQUIREMENTS;
+
+  return requirements.filter((req) => {
     // Check if any of the required room types are present
     return !req.roomTypes.some((rt) => roomTypes.has(rt));
   });
@@ -191,6 +222,90 @@ function MissingImagesWarning({ missingSections }: { missingSections: SectionReq
   );
 }
 
+/**
+ * DuplicateSuggestions - Groups of near-identical photos, with the
+ * best-scoring shot of each proposed to keep.
+ * Clicking a photo keeps it instead.
+ */
+function DuplicateSuggestions({
+  clusters,
+  images,
+  onKeepChange,
+  onDismiss,
+  onRemoveDuplicates,
+}: {
+  clusters: DuplicateCluster[];
+  images: ImagePreview[];
+  onKeepChange: (clusterKey: string, imageId: string) => void;
+  onDismiss: (clusterKey: string) => void;
+  onRemoveDuplicates: () => void;
+}) {
+  if (clusters.length === 0) return null;
+
+  const duplicateCount = clusters.reduce((sum, c) => sum + c.imageIds.length - 1, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-lg border border-border/50 bg-card/80 p-4"
+    >
+      <div className="flex items-start gap-3">
+        <Layers className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h4 className="font-medium text-foreground">Similar Shots Found</h4>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {duplicateCount} photo{duplicateCount !== 1 ? "s" : ""} repeat an angle you already have.
+              Keep one of each so your {WIZARD_VALIDATION.MAX_IMAGES} photos cover distinct rooms.
+            </p>
+          </div>
+
+          {clusters.map((cluster) => (
+            <div key={cluster.key} className="flex items-center gap-2">
+              <div className="flex flex-1 flex-wrap gap-2">
+                {cluster.imageIds.map((id) => {
+                  const image = images.find((img) => img.id === id);
+                  if (!image) return null;
+                  const isKept = id === cluster.keepId;
+                  return (
+                    <button
+                      key={id}
+                      type="button"
+                      onClick={() => onKeepChange(cluster.key, id)}
+                      className={cn(
+                        "relative h-16 w-16 overflow-hidden rounded-md border-2 transition-opacity",
+                        isKept ? "border-primary" : "border-transparent opacity-50 hover:opacity-80"
+                      )}
+                      title={isKept ? `Keeping ${image.file.name}` : `Keep ${image.file.name} instead`}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={image.preview} alt={image.file.name} className="h-full w-full object-cover" />
+                      {isKept && (
+                        <span className="absolute inset-x-0 bottom-0 bg-primary text-[10px] font-medium text-primary-foreground">
+                          Keep
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => onDismiss(cluster.key)}>
+                Keep all
+              </Button>
+            </div>
+          ))}
+
+          <Button variant="outline" size="sm" onClick={onRemoveDuplicates} className="gap-2">
+            <X className="h-4 w-4" />
+            Remove {duplicateCount} duplicate{duplicateCount !== 1 ? "s" : ""}
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
 /**
  * Analyzed image from API response.
  */
@@ -205,6 +320,25 @@ interface AnalyzedImage {
   enhancement: EnhancementPreset;
   enhancementStatus: EnhancementStatus;
   enhancedUrls: EnhancedUrlCache;
+  quality?: ImageQuality;
+}
+
+/**
+ * What's measured locally for each photo before it's uploaded.
+ */
+interface LocalMeasurement {
+  hash: string;
+  quality: ImageQuality;
+}
+
+/**
+ * Locally measured quality with the vision model's clutter rating added.
+ */
+function withClutter(
+  quality: ImageQuality | undefined,
+  clutter: ImageClutter | undefined
+): ImageQuality | undefined {
+  return quality && { ...quality, clutter };
 }
 
 /**
@@ -577,6 +711,7 @@ interface ImageCardProps {
   onRevertEnhancement: (id: string) => void;
   applyingId: string | null;
   onRemove: (id: string) => void;
+  isHero: boolean;
 }
 
 function ImageCard({
@@ -588,6 +723,7 @@ function ImageCard({
   onRevertEnhancement,
   applyingId,
   onRemove,
+  isHero,
 }: ImageCardProps) {
   const [isEditingLabel, setIsEditingLabel] = React.useState(false);
   const [isEditingFeatures, setIsEditingFeatures] = React.useState(false);
@@ -596,6 +732,7 @@ function ImageCard({
   const [isPreviewOpen, setIsPreviewOpen] = React.useState(false);
   const labelInputRef = React.useRef<HTMLInputElement>(null);
   const featuresInputRef = React.useRef<HTMLInputElement>(null);
+  const qualityWarnings = image.quality ? getImageQualityWarnings(image.quality) : [];
 
   React.useEffect(() => {
     if (isEditingLabel && labelInputRef.current) {
@@ -746,6 +883,15 @@ function ImageCard({
           >
             <span className="font-medium text-foreground">{image.label}</span>
             <Pencil className="h-3 w-3 text-muted-foreground opacity-0 transition-opacity group-hover/label:opacity-100" />
+            {isHero && (
+              <span
+                className="flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 text-[10px] font-medium text-primary"
+                title="Best exterior - opens the video and is the thumbnail candidate"
+              >
+                <Star className="h-2.5 w-2.5" />
+                Hero
+              </span>
+            )}
           </button>
         )}
 
@@ -773,6 +919,21 @@ function ImageCard({
             <Pencil className="h-2.5 w-2.5 shrink-0 text-muted-foreground opacity-0 transition-opacity group-hover/features:opacity-100" />
           </button>
         )}
+
+        {/* Photo quality warnings */}
+        {qualityWarnings.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {qualityWarnings.map((warning) => (
+              <span
+                key={warning.kind}
+                className="flex items-center gap-1 rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] text-amber-700 dark:text-amber-400"
+              >
+                <AlertTriangle className="h-2.5 w-2.5" />
+                {warning.message}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Remove button */}
@@ -842,6 +1003,8 @@ export interface UploadStepHandle {
  * Features:
  * - Drag-and-drop image upload
  * - GPT-4o Vision analysis with descriptive labels
+ * - Photo quality warnings (blur, exposure, tilt, resolution, clutter)
+ * - Best exterior picked as the opening hero
  * - Editable labels for each image
  * - Drag-to-reorder for video sequence
  * - Labels and features pass to script generation
@@ -856,17 +1019,26 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
       setEnhancementStatus,
       setEnhancedUrl,
       revertEnhancement,
+      historyRevision,
     } = useWizard();
     const [localImages, setLocalImages] = React.useState<ImagePreview[]>([]);
+    // Hash and quality of local photos (null when one couldn't be read)
+    const [measurements, setMeasurements] = React.useState<Map<string, LocalMeasurement | null>>(new Map());
+    const [keepChoices, setKeepChoices] = React.useState<Map<string, string>>(new Map());
+    const [dismissedClusters, setDismissedClusters] = React.useState<Set<string>>(new Set());
     const [isAnalyzing, setIsAnalyzing] = React.useState(false);
     const [analyzedImages, setAnalyzedImages] = React.useState<AnalyzedImage[]>([]);
     const [analyzeError, setAnalyzeError] = React.useState<string | null>(null);
     const [hasBeenAnalyzed, setHasBeenAnalyzed] = React.useState(false);
     const [applyingEnhancementId, setApplyingEnhancementId] = React.useState<string | null>(null);
 
-    // Check if we have images in wizard state already (returning to step)
+    // Check if we have images in wizard state already (returning to step),
+    // and resync after undo/redo replaces the wizard images
+    const syncedRevisionRef = React.useRef(historyRevision);
     React.useEffect(() => {
-      if (state.images.length > 0 && analyzedImages.length === 0) {
+      const isHistoryJump = syncedRevisionRef.current !== historyRevision;
+      if (isHistoryJump || (state.images.length > 0 && analyzedImages.length === 0)) {
+        syncedRevisionRef.current = historyRevision;
         const existingImages: AnalyzedImage[] = state.images.map((img) => ({
           id: img.id,
           url: img.url,
@@ -878,18 +1050,66 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: img.enhancement,
           enhancementStatus: img.enhancementStatus,
           enhancedUrls: img.enhancedUrls,
+          quality: img.quality,
         }));
         setAnalyzedImages(existingImages);
-        setHasBeenAnalyzed(true);
+        setHasBeenAnalyzed(existingImages.length > 0);
       }
-    }, [state.images, analyzedImages.length]);
+    }, [state.images, analyzedImages.length, historyRevision]);
+
+    // Hash and score newly added photos for near-duplicate detection and quality warnings
+    React.useEffect(() => {
+      const pending = localImages.filter((img) => !measurements.has(img.id));
+      if (pending.length === 0) return;
+
+      let cancelled = false;
+      const measurePending = async () => {
+        const results = new Map<string, LocalMeasurement | null>();
+        for (const img of pending) {
+          try {
+            const [hash, quality] = await Promise.all([
+              perceptualHash(img.preview),
+              measureImageQuality(img.preview),
+            ]);
+            results.set(img.id, { hash, quality });
+          } catch (err) {
+            console.error(`Failed to measure ${img.file.name}:`, err);
+            results.set(img.id, null);
+          }
+        }
+        if (!cancelled) {
+          setMeasurements((prev) => new Map([...prev, ...results]));
+        }
+      };
+      measurePending();
+      return () => {
+        cancelled = true;
+      };
+    }, [localImages, measurements]);
+
+    // Near-duplicate groups among local photos, with the user's keep choices applied
+    const duplicateClusters = React.useMemo(
+      () =>
+        findDuplicateClusters(
+          localImages.map((img) => ({ id: img.id, ...measurements.get(img.id) }))
+        )
+          .filter((cluster) => !dismissedClusters.has(cluster.key))
+          .map((cluster) => ({ ...cluster, keepId: keepChoices.get(cluster.key) ?? cluster.keepId })),
+      [localImages, measurements, dismissedClusters, keepChoices]
+    );
 
     // Compute missing sections
+    const sectionStructure =
+      state.styleOptions.sectionTemplate?.sections ??
+      getPropertyTypeProfile(state.propertyData.propertyType).sections;
     const missingSections = React.useMemo(
-      () => getMissingSections(analyzedImages),
-      [analyzedImages]
+      () => getMissingSections(analyzedImages, sectionStructure),
+      [analyzedImages, sectionStructure]
     );
 
+    // Best exterior, shown as the hero
+    const heroId = React.useMemo(() => pickHeroImage(analyzedImages)?.id, [analyzedImages]);
+
     // Expose validate method to parent
     React.useImperativeHandle(ref, () => ({
       validate: async () => {
@@ -927,9 +1147,10 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
         file,
         preview: URL.createObjectURL(file),
       }));
+      // Accept more than MAX_IMAGES so near-duplicates can be culled before analysis
       setLocalImages((prev) => {
         const combined = [...prev, ...newImages];
-        return combined.slice(0, WIZARD_VALIDATION.MAX_IMAGES);
+        return combined.slice(0, WIZARD_VALIDATION.MAX_UPLOAD_IMAGES);
       });
       setAnalyzedImages([]);
       setHasBeenAnalyzed(false);
@@ -949,6 +1170,19 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
       });
     }, []);
 
+    /**
+     * Remove every photo of the duplicate groups except the one kept.
+     */
+    const handleRemoveDuplicates = React.useCallback(() => {
+      const removeIds = new Set(
+        duplicateClusters.flatMap((cluster) => cluster.imageIds.filter((id) => id !== cluster.keepId))
+      );
+      setLocalImages((prev) => {
+        prev.filter((img) => removeIds.has(img.id)).forEach((img) => URL.revokeObjectURL(img.preview));
+        return prev.filter((img) => !removeIds.has(img.id));
+      });
+    }, [duplicateClusters]);
+
     /**
      * Analyze images using GPT-4o Vision API.
      */
@@ -957,6 +1191,10 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
         setAnalyzeError("Please add images first.");
         return;
       }
+      if (localImages.length > WIZARD_VALIDATION.MAX_IMAGES) {
+        setAnalyzeError(`Up to ${WIZARD_VALIDATION.MAX_IMAGES} images can be analyzed. Please remove some images.`);
+        return;
+      }
 
       setIsAnalyzing(true);
       setAnalyzeError(null);
@@ -970,7 +1208,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
         const analyzeResponse = await fetch("/api/images/sort", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ imageUrls: urls }),
+          body: JSON.stringify({ imageUrls: urls, propertyType: state.propertyData.propertyType }),
         });
 
         if (!analyzeResponse.ok) {
@@ -980,9 +1218,14 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
 
         const { analyzed } = await analyzeResponse.json();
 
+        // Local measurements by uploaded URL (uploads keep the local order)
+        const qualityByUrl = new Map(
+          urls.map((uploaded, idx) => [uploaded.url, measurements.get(localImages[idx].id)?.quality])
+        );
+
         // Map response to our format
-        const images: AnalyzedImage[] = analyzed.map(
-          (item: { url: string; filename: string; label: string; roomType: RoomType; features: string[]; originalUploadIndex: number }, idx: number) => ({
+        const sortedImages: AnalyzedImage[] = analyzed.map(
+          (item: { url: string; filename: string; label: string; roomType: RoomType; features: string[]; clutter?: ImageClutter; originalUploadIndex: number }, idx: number) => ({
             id: nanoid(),
             url: item.url,
             filename: item.filename || `image-${idx + 1}`,
@@ -993,9 +1236,14 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
             enhancement: "original" as EnhancementPreset,
             enhancementStatus: "idle" as EnhancementStatus,
             enhancedUrls: {},
+            quality: withClutter(qualityByUrl.get(item.url), item.clutter),
           })
         );
 
+        // Open on the best exterior
+        const hero = pickHeroImage(sortedImages);
+        const images = hero ? [hero, ...sortedImages.filter((img) => img !== hero)] : sortedImages;
+
         setAnalyzedImages(images);
         setHasBeenAnalyzed(true);
 
@@ -1012,6 +1260,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: "original",
           enhancementStatus: "idle",
           enhancedUrls: {},
+          quality: img.quality,
         }));
         addImages(wizardImages);
 
@@ -1055,6 +1304,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: img.enhancement,
           enhancementStatus: img.enhancementStatus,
           enhancedUrls: img.enhancedUrls,
+          quality: img.quality,
         }));
         reorderImages(wizardImages);
       },
@@ -1088,6 +1338,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: img.enhancement,
           enhancementStatus: img.enhancementStatus,
           enhancedUrls: img.enhancedUrls,
+          quality: img.quality,
         }));
         reorderImages(wizardImages);
       },
@@ -1245,6 +1496,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: img.enhancement,
           enhancementStatus: img.enhancementStatus,
           enhancedUrls: img.enhancedUrls,
+          quality: img.quality,
         }));
         reorderImages(wizardImages);
       },
@@ -1270,6 +1522,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
           enhancement: img.enhancement,
           enhancementStatus: img.enhancementStatus,
           enhancedUrls: img.enhancedUrls,
+          quality: img.quality,
         }));
         reorderImages(wizardImages);
       },
@@ -1301,11 +1554,21 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
             <Dropzone
               onFilesAdded={handleFilesAdded}
               accept="image/*"
-              maxFiles={WIZARD_VALIDATION.MAX_IMAGES}
+              maxFiles={WIZARD_VALIDATION.MAX_UPLOAD_IMAGES}
               maxSize={10 * 1024 * 1024}
               disabled={isAnalyzing}
             />
 
+            <DuplicateSuggestions
+              clusters={duplicateClusters}
+              images={localImages}
+              onKeepChange={(clusterKey, imageId) =>
+                setKeepChoices((prev) => new Map(prev).set(clusterKey, imageId))
+              }
+              onDismiss={(clusterKey) => setDismissedClusters((prev) => new Set(prev).add(clusterKey))}
+              onRemoveDuplicates={handleRemoveDuplicates}
+            />
+
             <ImagePreviewGrid
               images={localImages}
               onRemove={handleRemoveLocalImage}
@@ -1316,17 +1579,29 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
               <div className="flex flex-col items-center gap-4">
                 <Button
                   onClick={handleAnalyzeImages}
-                  disabled={isAnalyzing || localImages.length === 0}
+                  disabled={
+                    isAnalyzing ||
+                    localImages.length === 0 ||
+                    localImages.length > WIZARD_VALIDATION.MAX_IMAGES
+                  }
                   size="lg"
                   className="gap-2"
                 >
                   <Sparkles className="h-4 w-4" />
                   Analyze with AI
                 </Button>
-                <p className="text-xs text-muted-foreground">
-                  {localImages.length} image{localImages.length !== 1 ? "s" : ""}{" "}
-                  ready to analyze
-                </p>
+                {localImages.length > WIZARD_VALIDATION.MAX_IMAGES ? (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    {localImages.length} images • Remove{" "}
+                    {localImages.length - WIZARD_VALIDATION.MAX_IMAGES} more to analyze (max{" "}
+                    {WIZARD_VALIDATION.MAX_IMAGES})
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {localImages.length} image{localImages.length !== 1 ? "s" : ""}{" "}
+                    ready to analyze
+                  </p>
+                )}
               </div>
             )}
           </>
@@ -1410,7 +1685,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
                           const analyzeResponse = await fetch("/api/images/sort", {
                             method: "POST",
                             headers: { "Content-Type": "application/json" },
-                            body: JSON.stringify({ imageUrls: urls }),
+                            body: JSON.stringify({ imageUrls: urls, propertyType: state.propertyData.propertyType }),
                           });
 
                           if (!analyzeResponse.ok) {
@@ -1420,11 +1695,16 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
 
                           const { analyzed } = await analyzeResponse.json();
 
+                          // Local measurements by uploaded URL (uploads keep the local order)
+                          const qualityByUrl = new Map(
+                            urls.map((uploaded, idx) => [uploaded.url, measurements.get(localImages[idx].id)?.quality])
+                          );
+
                           // Merge with existing analyzed images
                           // For new images, offset originalUploadIndex by existing count
                           const existingCount = analyzedImages.length;
                           const newAnalyzedImages: AnalyzedImage[] = analyzed.map(
-                            (item: { url: string; filename: string; label: string; roomType: RoomType; features: string[]; originalUploadIndex: number }, idx: number) => ({
+                            (item: { url: string; filename: string; label: string; roomType: RoomType; features: string[]; clutter?: ImageClutter; originalUploadIndex: number }, idx: number) => ({
                               id: nanoid(),
                               url: item.url,
                               filename: item.filename || `image-${existingCount + idx + 1}`,
@@ -1436,6 +1716,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
                               enhancement: "original" as EnhancementPreset,
                               enhancementStatus: "idle" as EnhancementStatus,
                               enhancedUrls: {},
+                              quality: withClutter(qualityByUrl.get(item.url), item.clutter),
                             })
                           );
 
@@ -1455,6 +1736,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
                             enhancement: "original",
                             enhancementStatus: "idle",
                             enhancedUrls: {},
+                            quality: img.quality,
                           }));
                           addImages(wizardImages);
 
@@ -1509,6 +1791,7 @@ export const UploadStep = React.forwardRef<UploadStepHandle>(
                   onRevertEnhancement={handleRevertEnhancement}
                   applyingId={applyingEnhancementId}
                   onRemove={handleRemoveAnalyzedImage}
+                  isHero={image.id === heroId}
                 />
               ))}
             </Reorder.Group>
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, ImageIcon, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { createClient } from "@/lib/supabase/client";
+
+interface TemplateVideo {
+  id: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  listing: { address: string; city: string | null };
+}
+
+/**
+ * TemplatePickerDialog - "Start from existing video" entry point.
+ *
+ * Lists the user's completed videos; picking one reloads the wizard via
+ * ?template=<videoId> with that video's script, voice, music and branding.
+ */
+export function TemplatePickerDialog() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [videos, setVideos] = useState<TemplateVideo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch completed videos the first time the dialog opens
+  useEffect(() => {
+    if (!open || videos) return;
+
+    const supabase = createClient();
+    supabase
+      .from("videos")
+      .select(`
+        id,
+        thumbnail_url,
+        created_at,
+        listing:listings!inner (
+          address,
+          city
+        )
+      `)
+      .eq("status", "completed")
+      .order("created_at", { ascending: false })
+      .limit(24)
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) {
+          console.error("Error fetching template videos:", fetchError);
+          setError("Failed to load your videos");
+          return;
+        }
+        setVideos((data || []) as unknown as TemplateVideo[]);
+      });
+  }, [open, videos]);
+
+  const handleSelect = (videoId: string) => {
+    setOpen(false);
+    router.push(`/create?template=${videoId}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Copy className="h-4 w-4" />
+          Start from existing video
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Start from an existing video</DialogTitle>
+          <DialogDescription>
+            Reuse a past video&apos;s script, voice, music and branding. You&apos;ll
+            only need to enter the new address and upload photos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="py-6 text-center text-sm text-destructive">{error}</p>
+        ) : !videos ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : videos.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            You don&apos;t have any completed videos yet.
+          </p>
+        ) : (
+          <div className="max-h-[400px] space-y-2 overflow-y-auto">
+            {videos.map((video) => (
+              <button
+                key={video.id}
+                type="button"
+                onClick={() => handleSelect(video.id)}
+                className="flex w-full items-center gap-3 rounded-lg border border-border/50 p-2 text-left transition-colors hover:border-primary/50 hover:bg-muted/50"
+              >
+                <div className="flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+                  {video.thumbnail_url ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={video.thumbnail_url}
+                      alt=""
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <ImageIcon className="h-5 w-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">
+                    {video.listing.city
+                      ? `${video.listing.address}, ${video.listing.city}`
+                      : video.listing.address}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(video.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
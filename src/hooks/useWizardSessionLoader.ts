@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { useWizard } from "@/lib/wizard/wizard-context";
+import type { WizardState } from "@/lib/wizard/types";
+import type { PrefillMode } from "@/lib/wizard/prefill";
+
+/**
+ * Hook that seeds the wizard from the create page's query string.
+ *
+ * - ?draft=<id> resumes a saved draft
+ * - ?template=<videoId> starts from a past video's script, voice and music
+ * - ?revise=<videoId> reopens a completed video's listing for a new render
+ * - ?language=<videoId> reopens a completed video's listing for another language
+ *
+ * Step components initialize local state from the wizard on mount, so the
+ * page should hold off rendering steps while `isLoading` is true.
+ *
+ * @returns { isLoading } - Whether a requested session is still loading
+ */
+export function useWizardSessionLoader() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { draftId, loadDraft, hydrate } = useWizard();
+
+  const draftParam = searchParams.get("draft");
+  const templateParam = searchParams.get("template");
+  const reviseParam = searchParams.get("revise");
+  const languageParam = searchParams.get("language");
+  // Past video to prefill from, and how
+  const prefill: { videoId: string; mode: PrefillMode } | null = reviseParam
+    ? { videoId: reviseParam, mode: "revision" }
+    : languageParam
+      ? { videoId: languageParam, mode: "language" }
+      : templateParam
+        ? { videoId: templateParam, mode: "template" }
+        : null;
+  const prefillVideoId = prefill?.videoId ?? null;
+  const prefillMode = prefill?.mode ?? null;
+  const requestKey = draftParam
+    ? `draft:${draftParam}`
+    : prefill
+      ? `${prefill.mode}:${prefill.videoId}`
+      : null;
+
+  const [settledKey, setSettledKey] = useState<string | null>(null);
+  const requestRef = useRef<string | null>(null);
+
+  // Autosave rewrites the URL to the draft it just created - nothing to load
+  const isCurrentDraft = Boolean(draftParam) && draftParam === draftId;
+  const isLoading = requestKey !== null && requestKey !== settledKey && !isCurrentDraft;
+
+  useEffect(() => {
+    if (!requestKey || requestKey === settledKey || isCurrentDraft) return;
+    // One load per source: guards strict mode and re-runs from new callback identities
+    if (requestRef.current === requestKey) return;
+    requestRef.current = requestKey;
+
+    const load = async (): Promise<boolean> => {
+      if (draftParam) {
+        return loadDraft(draftParam);
+      }
+      if (!prefillVideoId || !prefillMode) return false;
+      try {
+        const response = await fetch(
+          `/api/videos/${prefillVideoId}/prefill?mode=${prefillMode}`
+        );
+        if (!response.ok) return false;
+        const data = await response.json();
+        hydrate(data.state as WizardState);
+        return true;
+      } catch (error) {
+        console.error("Failed to load video for prefill:", error);
+        return false;
+      }
+    };
+
+    load().then((loaded) => {
+      setSettledKey(requestKey);
+      if (loaded) return;
+      toast.error(
+        draftParam ? "Couldn't load that draft" : "Couldn't load that video",
+        { description: "Starting a new video instead." }
+      );
+      router.replace("/create");
+    });
+  }, [
+    requestKey,
+    settledKey,
+    isCurrentDraft,
+    draftParam,
+    prefillVideoId,
+    prefillMode,
+    loadDraft,
+    hydrate,
+    router,
+  ]);
+
+  return { isLoading };
+}
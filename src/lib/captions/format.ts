@@ -0,0 +1,68 @@
+/**
+ * Caption File Formats
+ *
+ * Serializes caption cues as SubRip (.srt) and WebVTT (.vtt).
+ */
+
+import type { CaptionCue } from "./timing";
+
+export type CaptionFormat = "srt" | "vtt";
+
+/**
+ * Content type and file extension per caption format.
+ */
+export const CAPTION_FORMATS: Record<CaptionFormat, { contentType: string; extension: string }> = {
+  srt: { contentType: "application/x-subrip; charset=utf-8", extension: "srt" },
+  vtt: { contentType: "text/vtt; charset=utf-8", extension: "vtt" },
+};
+
+/**
+ * Format seconds as HH:MM:SS{separator}mmm.
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Serialize cues as SubRip.
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) =>
+      [
+        String(i + 1),
+        `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}`,
+        cue.text,
+      ].join("\n")
+    )
+    .join("\n\n") + "\n";
+}
+
+/**
+ * Serialize cues as WebVTT.
+ */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) =>
+      [
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}`,
+        // "-->" would end the cue timing line early in some players
+        cue.text.replace(/-->/g, "->"),
+      ].join("\n")
+    )
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Serialize cues in the requested format.
+ */
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  return format === "srt" ? toSrt(cues) : toWebVtt(cues);
+}
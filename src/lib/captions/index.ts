@@ -0,0 +1,26 @@
+/**
+ * Captions Module
+ *
+ * Timed captions built from the narration script, exported as SRT/WebVTT
+ * or burned into the video by the ffmpeg-service.
+ */
+
+// Cue timing from script sections and narration durations
+export {
+  buildCaptionCues,
+  estimateNarrationTimings,
+  getSectionTexts,
+  type CaptionCue,
+  type CaptionCueOptions,
+  type CaptionLevel,
+  type NarrationTiming,
+} from "./timing";
+
+// SRT / WebVTT serialization
+export {
+  CAPTION_FORMATS,
+  formatCaptions,
+  toSrt,
+  toWebVtt,
+  type CaptionFormat,
+} from "./format";
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getLanguageProfile } from "@/lib/script";
+import { buildCaptionCues, estimateNarrationTimings, getSectionTexts } from "./timing";
+
+const english = "Welcome home. Sunlight pours through tall windows into an open living room with oak floors.";
+const mandarin = "欢迎来到1234 Oak St。阳光透过高大的窗户洒进宽敞的客厅，橡木地板温暖而精致，厨房配备全新的不锈钢电器。";
+
+describe("getSectionTexts", () => {
+  it("orders sections by their order field", () => {
+    assert.deepEqual(getSectionTexts([{ content: "b", order: 1 }, { content: "a", order: 0 }]), ["a", "b"]);
+  });
+});
+
+describe("estimateNarrationTimings", () => {
+  it("places sections back to back at the language's pace", () => {
+    const [first, second] = estimateNarrationTimings(["one two three", "four five"]);
+    assert.equal(first.start, 0);
+    assert.equal(first.duration, (3 / getLanguageProfile("en").wordsPerMinute) * 60);
+    assert.equal(second.start, first.duration);
+  });
+
+  it("uses a voice's calibrated pace when given", () => {
+    const [timing] = estimateNarrationTimings(["one two three four"], "en", 120);
+    assert.equal(timing.duration, 2);
+  });
+
+  it("counts Mandarin in characters", () => {
+    const [timing] = estimateNarrationTimings(["阳光明媚的客厅"], "zh");
+    assert.equal(timing.duration, (7 / getLanguageProfile("zh").wordsPerMinute) * 60);
+  });
+});
+
+describe("buildCaptionCues", () => {
+  it("breaks English phrases at punctuation and the word limit", () => {
+    const cues = buildCaptionCues([english], [{ start: 2, duration: 6 }]);
+    assert.equal(cues[0].text, "Welcome home.");
+    assert.equal(cues[0].start, 2);
+    assert.ok(cues.every((cue) => cue.text.split(" ").length <= 7));
+    assert.ok(Math.abs(cues[cues.length - 1].end - 8) < 1e-9);
+  });
+
+  it("emits one cue per word at word level", () => {
+    const cues = buildCaptionCues(["Three short words"], [{ start: 0, duration: 1 }], { level: "word" });
+    assert.deepEqual(cues.map((cue) => cue.text), ["Three", "short", "words"]);
+  });
+
+  it("splits Mandarin into short phrases instead of one cue per section", () => {
+    const cues = buildCaptionCues([mandarin], [{ start: 0, duration: 12 }], { language: "zh" });
+    assert.ok(cues.length > 3);
+    assert.ok(cues.every((cue) => cue.text.length <= 18), JSON.stringify(cues.map((c) => c.text)));
+    assert.equal(cues[0].text, "欢迎来到1234 Oak St。");
+    assert.equal(cues.map((cue) => cue.text).join(""), mandarin);
+  });
+
+  it("times Mandarin per character", () => {
+    const cues = buildCaptionCues(["客厅宽敞"], [{ start: 0, duration: 4 }], { level: "word", language: "zh" });
+    assert.deepEqual(cues.map((cue) => cue.text), ["客", "厅", "宽", "敞"]);
+    assert.ok(Math.abs(cues[1].start - 1) < 1e-9);
+  });
+});
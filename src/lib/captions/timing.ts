@@ -0,0 +1,226 @@
+/**
+ * Caption Timing
+ *
+ * Builds timed caption cues from the narration script. Each section is
+ * placed at its narration start time and its words are spread across the
+ * measured TTS duration, weighted by length so long words and sentence
+ * breaks get proportionally more time. Character-based languages
+ * (Mandarin) are timed per character, since they aren't written with spaces.
+ */
+
+import { countScriptWords, getLanguageProfile, type LanguageProfile } from "@/lib/script";
+
+/**
+ * Start and measured duration of one section's narration in the final video.
+ */
+export interface NarrationTiming {
+  start: number;    // Seconds from the start of the video
+  duration: number; // Seconds of narration audio for the section
+}
+
+/**
+ * A single timed caption.
+ */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Word-level cues (one word at a time) or phrase-level cues (short lines).
+ */
+export type CaptionLevel = "word" | "phrase";
+
+/**
+ * Options for building cues.
+ */
+export interface CaptionCueOptions {
+  level?: CaptionLevel;    // Default: phrase
+  language?: string;       // Narration language (default: English)
+  wordsPerMinute?: number; // Voice's calibrated pace for estimated timings (default: the language's)
+}
+
+/**
+ * Phrase limits keep each cue readable on a phone screen. Full-width
+ * characters take about twice the space of Latin letters.
+ */
+const PHRASE_LIMITS: Record<LanguageProfile["unit"], { maxTokens: number; maxChars: number }> = {
+  words: { maxTokens: 7, maxChars: 42 },
+  characters: { maxTokens: 18, maxChars: 18 },
+};
+
+/** Han characters, each one a caption token */
+const HAN = "\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff";
+const HAN_CHARACTER = new RegExp(`[${HAN}]`);
+const HAN_OR_RUN = new RegExp(`[${HAN}]|[^${HAN}]+`, "g");
+
+/** Tokens made only of punctuation attach to the token before them */
+const PUNCTUATION_ONLY = /^[\p{P}\p{S}]+$/u;
+
+/** Extra weight for the pause after punctuation, in characters */
+const SENTENCE_PAUSE_WEIGHT = 6;
+const CLAUSE_PAUSE_WEIGHT = 3;
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Narration text per section in playback order, from videos.script_sections.
+ */
+export function getSectionTexts(
+  sections: Array<{ content?: string | null; order?: number | null }> | null | undefined
+): string[] {
+  return [...(sections || [])]
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((section) => section.content || "");
+}
+
+/**
+ * Estimate narration timings when measured TTS durations aren't available:
+ * sections back to back from the start of the video at the given speaking
+ * rate (a voice's calibrated rate, or the language default).
+ */
+export function estimateNarrationTimings(
+  sectionTexts: string[],
+  language?: string,
+  wordsPerMinute = getLanguageProfile(language).wordsPerMinute
+): NarrationTiming[] {
+  let start = 0;
+  return sectionTexts.map((text) => {
+    const wordCount = countScriptWords(text, language);
+    const duration = (wordCount / wordsPerMinute) * 60;
+    const timing = { start, duration };
+    start += duration;
+    return timing;
+  });
+}
+
+/**
+ * Pause weight that follows a word, based on its trailing punctuation.
+ */
+function pauseWeight(word: string): number {
+  if (/[.!?。！？…]["')\]”’」』）]*$/.test(word)) return SENTENCE_PAUSE_WEIGHT;
+  if (/[,;:—\-，、；：]["')\]”’」』）]*$/.test(word)) return CLAUSE_PAUSE_WEIGHT;
+  return 0;
+}
+
+/**
+ * Split narration into caption tokens: words, or for character-based
+ * languages single Han characters and Latin runs (addresses, numbers),
+ * with trailing punctuation kept on the token it follows.
+ */
+function tokenize(text: string, unit: LanguageProfile["unit"]): string[] {
+  if (unit === "words") {
+    return text.split(/\s+/).filter((w) => w.length > 0);
+  }
+
+  const tokens: string[] = [];
+  for (const run of text.split(/\s+/)) {
+    for (const part of run.match(HAN_OR_RUN) ?? []) {
+      if (tokens.length > 0 && PUNCTUATION_ONLY.test(part)) {
+        tokens[tokens.length - 1] += part;
+      } else {
+        tokens.push(part);
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Join tokens back into display text. Han characters run together;
+ * Latin words keep a space between them.
+ */
+function joinTokens(tokens: string[], unit: LanguageProfile["unit"]): string {
+  if (unit === "words") return tokens.join(" ");
+  return tokens.reduce((text, token, i) => {
+    const previous = tokens[i - 1];
+    const spaced = previous !== undefined && !HAN_CHARACTER.test(previous[0]) && !HAN_CHARACTER.test(token[0]);
+    return text + (spaced ? " " : "") + token;
+  }, "");
+}
+
+/**
+ * Spread a section's words across its narration window.
+ */
+function timeWords(text: string, timing: NarrationTiming, unit: LanguageProfile["unit"]): TimedWord[] {
+  const words = tokenize(text, unit);
+  if (words.length === 0 || timing.duration <= 0) return [];
+
+  // The section's final pause is outside its narration window
+  const pauses = words.map((word, i) => (i < words.length - 1 ? pauseWeight(word) : 0));
+  const weights = words.map((word, i) => word.length + 1 + pauses[i]);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  let cursor = timing.start;
+  return words.map((word, i) => {
+    const slot = (weights[i] / totalWeight) * timing.duration;
+    // Pause time belongs to the gap after the word, not the word itself
+    const pause = (pauses[i] / weights[i]) * slot;
+    const timed = { text: word, start: cursor, end: cursor + slot - pause };
+    cursor += slot;
+    return timed;
+  });
+}
+
+/**
+ * Group timed words into short phrases, breaking at punctuation.
+ */
+function groupPhrases(words: TimedWord[], unit: LanguageProfile["unit"]): CaptionCue[] {
+  const { maxTokens, maxChars } = PHRASE_LIMITS[unit];
+  const cues: CaptionCue[] = [];
+  let current: TimedWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: joinTokens(current.map((w) => w.text), unit),
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const nextLength = joinTokens([...current.map((w) => w.text), word.text], unit).length;
+    if (current.length >= maxTokens || (current.length > 0 && nextLength > maxChars)) {
+      flush();
+    }
+    current.push(word);
+    if (pauseWeight(word.text) > 0) flush();
+  }
+  flush();
+
+  return cues;
+}
+
+/**
+ * Build caption cues for the narration.
+ *
+ * @param sectionTexts - Narration text per script section, in order
+ * @param timings - Measured timing per section; estimated when omitted
+ * @param options - Cue level, narration language and speaking rate
+ * @returns Cues sorted by start time
+ */
+export function buildCaptionCues(
+  sectionTexts: string[],
+  timings?: NarrationTiming[] | null,
+  options: CaptionCueOptions = {}
+): CaptionCue[] {
+  const { level = "phrase", language, wordsPerMinute } = options;
+  const { unit } = getLanguageProfile(language);
+  const resolved = timings && timings.length === sectionTexts.length
+    ? timings
+    : estimateNarrationTimings(sectionTexts, language, wordsPerMinute);
+
+  return sectionTexts.flatMap((text, i) => {
+    const words = timeWords(text, resolved[i], unit);
+    return level === "word"
+      ? words.map((w) => ({ start: w.start, end: w.end, text: w.text }))
+      : groupPhrases(words, unit);
+  });
+}
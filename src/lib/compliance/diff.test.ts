@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffWords } from "./diff";
+
+describe("diffWords", () => {
+  it("marks identical text as unchanged", () => {
+    assert.deepEqual(diffWords("Bright open kitchen", "Bright open kitchen"), [
+      { type: "same", text: "Bright open kitchen" },
+    ]);
+  });
+
+  it("puts removed words before added words", () => {
+    assert.deepEqual(diffWords("A lovely family home", "A lovely spacious home"), [
+      { type: "same", text: "A lovely " },
+      { type: "removed", text: "family " },
+      { type: "added", text: "spacious " },
+      { type: "same", text: "home" },
+    ]);
+  });
+
+  it("reports deleted sentences as one removed run", () => {
+    assert.deepEqual(diffWords("Great views. Call Jane today.", "Great views."), [
+      { type: "same", text: "Great views. " },
+      { type: "removed", text: "Call Jane today." },
+    ]);
+  });
+
+  it("joins back into both texts", () => {
+    const before = "Walk to  the park and shops.";
+    const after = "Steps from the park, shops and dining.";
+    const segments = diffWords(before, after);
+    const join = (types: string[]) => segments.filter((s) => types.includes(s.type)).map((s) => s.text).join("");
+    assert.equal(join(["same", "removed"]).trim(), before);
+    assert.equal(join(["same", "added"]).trim(), after);
+  });
+
+  it("handles empty text", () => {
+    assert.deepEqual(diffWords("", ""), []);
+    assert.deepEqual(diffWords("", "New text"), [{ type: "added", text: "New text" }]);
+  });
+});
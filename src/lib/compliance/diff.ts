@@ -0,0 +1,75 @@
+/**
+ * Word Diff
+ *
+ * Word-level diff between two versions of narration, used to show what
+ * the compliance passes change in a section.
+ */
+
+export type DiffSegmentType = "same" | "removed" | "added";
+
+/**
+ * A run of consecutive words (with their trailing whitespace) of one type.
+ */
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+/**
+ * Split text into words, each keeping its trailing whitespace so the
+ * segments join back into the original text.
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence).
+ *
+ * @param before - Original text
+ * @param after - Revised text
+ * @returns Segments in reading order; removed runs come before added runs
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const key = (token: string) => token.trim();
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegmentType, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
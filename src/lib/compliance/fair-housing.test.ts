@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ScriptSection } from "@/lib/wizard/types";
+import {
+  FAIR_HOUSING_RULES,
+  applyFairHousingSuggestion,
+  getBlockingPhrases,
+  lintFairHousing,
+  lintScriptSections,
+  type FairHousingRule,
+} from "./fair-housing";
+
+function section(id: string, content: string): ScriptSection {
+  return { id, type: "living", title: "Living", content, originalContent: content, imageIds: [], order: 0 };
+}
+
+describe("lintFairHousing", () => {
+  it("flags familial status preferences as high severity", () => {
+    const [issue] = lintFairHousing("A layout perfect for young families.");
+    assert.equal(issue.ruleId, "families-preference");
+    assert.equal(issue.severity, "high");
+    assert.equal(issue.text, "perfect for young families");
+    assert.equal(issue.index, 9);
+  });
+
+  it("matches phrases across hyphens, spacing and case", () => {
+    assert.deepEqual(
+      lintFairHousing("Handicap-accessible entry. FAMILY   NEIGHBORHOOD.").map((i) => i.ruleId),
+      ["handicap", "families-preference"]
+    );
+  });
+
+  it("matches on word boundaries only", () => {
+    assert.deepEqual(lintFairHousing("Quartermaster bedroom trim, no kidsroom."), []);
+  });
+
+  it("keeps the most severe of overlapping matches", () => {
+    const issues = lintFairHousing("An exclusive neighborhood of christian families.");
+    assert.deepEqual(issues.map((i) => [i.ruleId, i.severity]), [
+      ["exclusive", "medium"],
+      ["religious-community", "high"],
+    ]);
+  });
+
+  it("flags advisory style issues", () => {
+    const [issue] = lintFairHousing("The master suite overlooks the pool.");
+    assert.equal(issue.ruleId, "master-bedroom");
+    assert.equal(issue.severity, "low");
+  });
+
+  it("accepts a custom rule list", () => {
+    const rules: FairHousingRule[] = [
+      ...FAIR_HOUSING_RULES,
+      { id: "walkable", category: "disability", severity: "low", phrases: ["walking distance"], suggestion: "close to", reason: "Describe distance" },
+    ];
+    assert.deepEqual(lintFairHousing("Within walking distance of shops.", rules).map((i) => i.ruleId), ["walkable"]);
+  });
+
+  it("passes neutral narration", () => {
+    assert.deepEqual(lintFairHousing("Four bedrooms, a chef's kitchen and a quiet backyard."), []);
+  });
+});
+
+describe("lintScriptSections", () => {
+  it("returns issues keyed by section, omitting clean sections", () => {
+    const result = lintScriptSections([section("a", "Ideal for families."), section("b", "Vaulted ceilings.")]);
+    assert.deepEqual(Object.keys(result), ["a"]);
+  });
+});
+
+describe("getBlockingPhrases", () => {
+  it("collects distinct high-severity phrases, lowercased and sorted", () => {
+    const phrases = getBlockingPhrases([
+      section("a", "Perfect for young families. An exclusive enclave."),
+      section("b", "Perfect for Young Families, near the Christian community."),
+      section("c", "The master suite overlooks the pool."),
+    ]);
+    assert.deepEqual(phrases, ["christian community", "perfect for young families"]);
+  });
+
+  it("is empty when nothing blocks", () => {
+    assert.deepEqual(getBlockingPhrases([section("a", "The master suite overlooks the pool.")]), []);
+  });
+});
+
+describe("applyFairHousingSuggestion", () => {
+  it("replaces the phrase and keeps a leading capital", () => {
+    const text = "Master suite with views.";
+    const [issue] = lintFairHousing(text);
+    assert.equal(applyFairHousingSuggestion(text, issue), "Primary suite with views.");
+  });
+
+  it("leaves text alone when the rule has no suggestion", () => {
+    const text = "Adults only community.";
+    const [issue] = lintFairHousing(text);
+    assert.equal(applyFairHousingSuggestion(text, issue), text);
+  });
+
+  it("leaves text alone when it changed since linting", () => {
+    const [issue] = lintFairHousing("Ideal for families.");
+    assert.equal(applyFairHousingSuggestion("Now ideal for families.", issue), "Now ideal for families.");
+  });
+});
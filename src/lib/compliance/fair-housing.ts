@@ -0,0 +1,305 @@
+/**
+ * Fair Housing Linter
+ *
+ * Rule-based check of script narration against Fair Housing advertising
+ * guidance. Listing copy should describe the property, not the people it
+ * suits. Each rule lists phrases for one protected category with a
+ * severity and, where one exists, a neutral replacement.
+ *
+ * Rules are plain data: pass a custom list (e.g. FAIR_HOUSING_RULES plus
+ * brokerage-specific phrases) as the second argument to lintFairHousing.
+ */
+
+import type { ScriptSection } from "@/lib/wizard/types";
+
+export type FairHousingCategory =
+  | "familial_status"
+  | "race_national_origin"
+  | "religion"
+  | "sex"
+  | "disability"
+  | "age"
+  | "exclusionary";
+
+/**
+ * high blocks submission unless overridden; medium and low are advisory.
+ */
+export type FairHousingSeverity = "high" | "medium" | "low";
+
+export interface FairHousingRule {
+  id: string;
+  category: FairHousingCategory;
+  severity: FairHousingSeverity;
+  phrases: Array<string | RegExp>; // Strings match case-insensitively on word boundaries
+  suggestion?: string;             // Neutral replacement; omitted = reword or remove
+  reason: string;
+}
+
+/**
+ * One flagged phrase in a section.
+ */
+export interface FairHousingIssue {
+  ruleId: string;
+  category: FairHousingCategory;
+  severity: FairHousingSeverity;
+  text: string;  // Matched text as written
+  index: number; // Character offset in the narration
+  suggestion?: string;
+  reason: string;
+}
+
+export const FAIR_HOUSING_CATEGORY_LABELS: Record<FairHousingCategory, string> = {
+  familial_status: "Familial status",
+  race_national_origin: "Race / national origin",
+  religion: "Religion",
+  sex: "Sex",
+  disability: "Disability",
+  age: "Age",
+  exclusionary: "Exclusionary",
+};
+
+const SEVERITY_ORDER: Record<FairHousingSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+export const FAIR_HOUSING_RULES: FairHousingRule[] = [
+  // Familial status
+  {
+    id: "families-preference",
+    category: "familial_status",
+    severity: "high",
+    phrases: [
+      "perfect for young families",
+      "perfect for families",
+      "ideal for families",
+      "great for families",
+      "family neighborhood",
+      "family-oriented neighborhood",
+    ],
+    suggestion: "spacious and versatile",
+    reason: "Describes who should live here rather than the home",
+  },
+  {
+    id: "no-children",
+    category: "familial_status",
+    severity: "high",
+    phrases: ["no children", "no kids", "adults only", "adult living", "singles only", "couples only"],
+    reason: "Excludes households with children",
+  },
+  {
+    id: "household-type",
+    category: "familial_status",
+    severity: "medium",
+    phrases: ["empty nesters", "bachelor pad", "perfect for couples", "perfect for singles"],
+    suggestion: "low-maintenance living",
+    reason: "Targets a household type",
+  },
+
+  // Race, color and national origin
+  {
+    id: "protected-group-neighborhood",
+    category: "race_national_origin",
+    severity: "high",
+    phrases: [
+      /\b(?:white|black|asian|hispanic|latino|latina|mexican|chinese|korean|indian|italian|irish|african|ethnic)\s+(?:neighborhood|community|area|enclave|families|buyers|residents)\b/gi,
+    ],
+    reason: "Describes residents by race, color or national origin",
+  },
+  {
+    id: "segregation",
+    category: "exclusionary",
+    severity: "high",
+    phrases: ["restricted community", "restricted neighborhood", "segregated", "integrated neighborhood"],
+    reason: "Implies who may or may not live in the area",
+  },
+
+  // Religion
+  {
+    id: "religious-community",
+    category: "religion",
+    severity: "high",
+    phrases: [
+      /\b(?:christian|jewish|catholic|muslim|protestant|mormon|hindu)\s+(?:home|neighborhood|community|area|families|buyers)\b/gi,
+    ],
+    reason: "Describes residents by religion",
+  },
+  {
+    id: "named-place-of-worship",
+    category: "religion",
+    severity: "medium",
+    phrases: ["near churches", "near the church", "near synagogues", "near the synagogue", "near mosques", "near the mosque"],
+    suggestion: "near places of worship",
+    reason: "Naming one faith's places of worship can signal a preference",
+  },
+
+  // Sex
+  {
+    id: "gendered-buyer",
+    category: "sex",
+    severity: "high",
+    phrases: ["perfect for a bachelor", "ideal for a single woman", "ideal for a single man", "perfect for a bachelorette"],
+    reason: "States a preference based on sex",
+  },
+  {
+    id: "master-bedroom",
+    category: "sex",
+    severity: "low",
+    phrases: [/\bmaster(?=\s+(?:bedroom|suite|bath|bathroom|closet)\b)/gi],
+    suggestion: "primary",
+    reason: "Industry style guides now prefer \"primary\"",
+  },
+
+  // Disability
+  {
+    id: "ability-requirement",
+    category: "disability",
+    severity: "high",
+    phrases: ["able-bodied", "no wheelchairs", "must be able to climb stairs", "not suitable for the disabled", "physically fit"],
+    reason: "Excludes people with disabilities",
+  },
+  {
+    id: "handicap",
+    category: "disability",
+    severity: "medium",
+    phrases: ["handicap accessible", "handicapped accessible", "handicap-accessible"],
+    suggestion: "accessible",
+    reason: "Describe accessibility features, not people",
+  },
+
+  // Age
+  {
+    id: "age-preference",
+    category: "age",
+    severity: "medium",
+    phrases: ["young professionals", "perfect for retirees", "ideal for retirees", "mature individuals", "mature couple", "senior living"],
+    suggestion: "easy, low-maintenance living",
+    reason: "Targets buyers by age",
+  },
+
+  // Exclusionary atmosphere language
+  {
+    id: "exclusive",
+    category: "exclusionary",
+    severity: "medium",
+    phrases: ["exclusive neighborhood", "exclusive community", "exclusive enclave", "private enclave", "desirable demographic"],
+    suggestion: "established neighborhood",
+    reason: "\"Exclusive\" neighborhoods can imply who is kept out",
+  },
+  {
+    id: "safe-neighborhood",
+    category: "exclusionary",
+    severity: "low",
+    phrases: ["safe neighborhood", "crime-free neighborhood", "good neighborhood"],
+    suggestion: "quiet street",
+    reason: "Subjective safety claims are a common steering signal",
+  },
+];
+
+/**
+ * Escape a literal for use inside a RegExp.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a rule phrase into a global, case-insensitive pattern.
+ */
+function toPattern(phrase: string | RegExp): RegExp {
+  if (typeof phrase !== "string") {
+    return new RegExp(phrase.source, phrase.flags.includes("g") ? phrase.flags : `${phrase.flags}g`);
+  }
+  // Allow any run of spaces or a hyphen between words
+  const words = phrase.trim().split(/[\s-]+/).map(escapeRegExp);
+  return new RegExp(`\\b${words.join("[\\s-]+")}\\b`, "gi");
+}
+
+/**
+ * Lint narration text.
+ *
+ * @param text - Section narration
+ * @param rules - Rule list (default: FAIR_HOUSING_RULES)
+ * @returns Issues ordered by position; overlapping matches keep the most severe
+ */
+export function lintFairHousing(
+  text: string,
+  rules: FairHousingRule[] = FAIR_HOUSING_RULES
+): FairHousingIssue[] {
+  const issues: FairHousingIssue[] = [];
+  for (const rule of rules) {
+    for (const phrase of rule.phrases) {
+      for (const match of text.matchAll(toPattern(phrase))) {
+        issues.push({
+          ruleId: rule.id,
+          category: rule.category,
+          severity: rule.severity,
+          text: match[0],
+          index: match.index ?? 0,
+          suggestion: rule.suggestion,
+          reason: rule.reason,
+        });
+      }
+    }
+  }
+
+  // Most severe first so overlaps resolve in its favor, then by position
+  issues.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.index - b.index
+  );
+  const kept: FairHousingIssue[] = [];
+  for (const issue of issues) {
+    const overlaps = kept.some(
+      (k) => issue.index < k.index + k.text.length && k.index < issue.index + issue.text.length
+    );
+    if (!overlaps) kept.push(issue);
+  }
+  return kept.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Lint every section.
+ *
+ * @returns Issues per section ID (sections without issues are omitted)
+ */
+export function lintScriptSections(
+  sections: ScriptSection[],
+  rules: FairHousingRule[] = FAIR_HOUSING_RULES
+): Record<string, FairHousingIssue[]> {
+  const result: Record<string, FairHousingIssue[]> = {};
+  for (const section of sections) {
+    const issues = lintFairHousing(section.content, rules);
+    if (issues.length > 0) result[section.id] = issues;
+  }
+  return result;
+}
+
+/**
+ * The distinct high-severity phrases across all sections, lowercased and
+ * sorted. This is what a Fair Housing override confirms, so an override
+ * only stands while the script's blocking phrases are unchanged.
+ */
+export function getBlockingPhrases(
+  sections: ScriptSection[],
+  rules: FairHousingRule[] = FAIR_HOUSING_RULES
+): string[] {
+  const phrases = Object.values(lintScriptSections(sections, rules))
+    .flat()
+    .filter((issue) => issue.severity === "high")
+    .map((issue) => issue.text.toLowerCase());
+  return [...new Set(phrases)].sort();
+}
+
+/**
+ * Replace a flagged phrase with the rule's suggestion, keeping the
+ * original's leading capital.
+ *
+ * @returns Updated text, or the input unchanged if the issue has no suggestion
+ *   or the text no longer contains the phrase at that offset
+ */
+export function applyFairHousingSuggestion(text: string, issue: FairHousingIssue): string {
+  if (!issue.suggestion || text.slice(issue.index, issue.index + issue.text.length) !== issue.text) {
+    return text;
+  }
+  const replacement = /^[A-Z]/.test(issue.text)
+    ? issue.suggestion.charAt(0).toUpperCase() + issue.suggestion.slice(1)
+    : issue.suggestion;
+  return text.slice(0, issue.index) + replacement + text.slice(issue.index + issue.text.length);
+}
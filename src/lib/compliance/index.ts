@@ -0,0 +1,35 @@
+/**
+ * Compliance Module
+ *
+ * Checks script narration against listing media rules before render:
+ * MLS unbranded requirements and Fair Housing advertising guidance.
+ */
+
+// MLS: no agent-identifying details in unbranded media
+export {
+  MLS_FINDING_LABELS,
+  findMlsViolations,
+  toMlsSafeSection,
+  getMlsSafeScript,
+  type MlsAgentInfo,
+  type MlsFinding,
+  type MlsFindingKind,
+  type MlsSafeSection,
+} from "./mls";
+
+// Word-level diff for before/after previews
+export { diffWords, type DiffSegment, type DiffSegmentType } from "./diff";
+
+// Fair Housing: no preference for or against protected classes
+export {
+  FAIR_HOUSING_RULES,
+  FAIR_HOUSING_CATEGORY_LABELS,
+  lintFairHousing,
+  lintScriptSections,
+  getBlockingPhrases,
+  applyFairHousingSuggestion,
+  type FairHousingCategory,
+  type FairHousingIssue,
+  type FairHousingRule,
+  type FairHousingSeverity,
+} from "./fair-housing";
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ScriptSection } from "@/lib/wizard/types";
+import { findMlsViolations, getMlsSafeScript, toMlsSafeSection, type MlsAgentInfo } from "./mls";
+
+const agent: MlsAgentInfo = {
+  agentName: "Jane Smith",
+  agentBrandName: "Lakeside Luxury",
+  agentPhone: "(512) 555-0142",
+  agentEmail: "jane@lakesideluxury.com",
+  agentSocial: "@janesells",
+};
+
+function section(type: ScriptSection["type"], content: string, order: number): ScriptSection {
+  return { id: `${type}-${order}`, type, title: type, content, originalContent: content, imageIds: [], order };
+}
+
+describe("findMlsViolations", () => {
+  it("finds the agent's own name, brand, phone, email and handle", () => {
+    const text =
+      "Call Jane Smith of Lakeside Luxury at 512.555.0142, email jane@lakesideluxury.com or follow @janesells.";
+    assert.deepEqual(
+      findMlsViolations(text, agent).map((f) => [f.kind, f.text]),
+      [
+        ["agent_name", "Jane Smith"],
+        ["brokerage", "Lakeside Luxury"],
+        ["phone", "512.555.0142"],
+        ["email", "jane@lakesideluxury.com"],
+        ["social_handle", "@janesells"],
+      ]
+    );
+  });
+
+  it("finds the spoken form of the handle", () => {
+    assert.deepEqual(
+      findMlsViolations("Follow at janesells for more.", agent).map((f) => f.kind),
+      ["social_handle"]
+    );
+  });
+
+  it("finds other brokerages and websites", () => {
+    assert.deepEqual(
+      findMlsViolations("Listed with Keller Williams - see www.oakhomes.com", {}).map((f) => f.kind),
+      ["brokerage", "url"]
+    );
+  });
+
+  it("reports the offset of each finding", () => {
+    const [finding] = findMlsViolations("Tour with Jane Smith", agent);
+    assert.equal(finding.index, 10);
+  });
+
+  it("passes clean narration", () => {
+    assert.deepEqual(findMlsViolations("Sunlight pours across wide-plank oak floors.", agent), []);
+  });
+});
+
+describe("toMlsSafeSection", () => {
+  it("drops only the sentences that mention the agent", () => {
+    const safe = toMlsSafeSection(
+      section("living", "The kitchen opens to the garden. Jane Smith calls it the heart of the home. A fireplace anchors the room.", 1),
+      agent
+    );
+    assert.equal(safe.content, "The kitchen opens to the garden. A fireplace anchors the room.");
+    assert.equal(safe.omitted, false);
+    assert.equal(safe.findings.length, 1);
+  });
+
+  it("omits the closing call to action", () => {
+    const safe = toMlsSafeSection(section("closing", "Schedule your private tour today.", 5), agent);
+    assert.equal(safe.content, "");
+    assert.equal(safe.omitted, true);
+  });
+});
+
+describe("getMlsSafeScript", () => {
+  it("returns sections in playback order", () => {
+    const script = getMlsSafeScript(
+      [section("closing", "Call Jane Smith.", 2), section("opening", "Welcome home.", 0), section("living", "Bright rooms.", 1)],
+      agent
+    );
+    assert.deepEqual(script.map((s) => s.type), ["opening", "living", "closing"]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * MLS Compliance
+ *
+ * MLS boards reject listing media that identifies the listing agent.
+ * This module finds agent names, brokerages, phone numbers, emails, URLs
+ * and social handles in script narration and builds the MLS-safe variant
+ * of each section used for the unbranded render.
+ */
+
+import type { PropertyData, ScriptSection, ScriptSectionType } from "@/lib/wizard/types";
+
+export type MlsFindingKind =
+  | "agent_name"
+  | "brokerage"
+  | "phone"
+  | "email"
+  | "url"
+  | "social_handle";
+
+/**
+ * One piece of agent-identifying text found in narration.
+ */
+export interface MlsFinding {
+  kind: MlsFindingKind;
+  text: string;  // Matched text as written
+  index: number; // Character offset in the section content
+}
+
+/**
+ * Agent branding fields checked for by name.
+ */
+export type MlsAgentInfo = Pick<
+  PropertyData,
+  "agentName" | "agentBrandName" | "agentPhone" | "agentEmail" | "agentSocial"
+>;
+
+/**
+ * MLS-safe variant of one script section.
+ */
+export interface MlsSafeSection {
+  sectionId: string;
+  type: ScriptSectionType;
+  original: string;
+  content: string;         // Narration for the unbranded render ("" when omitted)
+  findings: MlsFinding[];
+  omitted: boolean;        // Whole section dropped (closing call to action)
+}
+
+export const MLS_FINDING_LABELS: Record<MlsFindingKind, string> = {
+  agent_name: "Agent name",
+  brokerage: "Brokerage",
+  phone: "Phone number",
+  email: "Email",
+  url: "Website",
+  social_handle: "Social handle",
+};
+
+/** Sections that exist only to direct viewers to the agent */
+const OMITTED_SECTION_TYPES: ScriptSectionType[] = ["closing"];
+
+const PATTERNS: Array<{ kind: MlsFindingKind; pattern: RegExp }> = [
+  { kind: "email", pattern: /[\w.+-]+@[\w-]+\.[\w.-]*\w/g },
+  { kind: "url", pattern: /\b(?:https?:\/\/|www\.)\S+|\b[\w-]+\.(?:com|net|org|realty|homes|io)\b/gi },
+  { kind: "phone", pattern: /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g },
+  { kind: "social_handle", pattern: /(?<![\w.])@\w{2,}/g },
+  {
+    kind: "brokerage",
+    pattern: /\b(?:keller williams|re\/?max|coldwell banker|century 21|sotheby'?s(?: international realty)?|berkshire hathaway|exp realty|[\w&'-]+ (?:realty|realtors|real estate group|properties group))\b/gi,
+  },
+];
+
+/**
+ * Escape a literal for use inside a RegExp.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Patterns for the agent's own name, brand and handle. Handles are also
+ * matched in their spoken form ("at janesells") since TTS prep rewrites "@".
+ */
+function agentPatterns(agent: MlsAgentInfo): Array<{ kind: MlsFindingKind; pattern: RegExp }> {
+  const patterns: Array<{ kind: MlsFindingKind; pattern: RegExp }> = [];
+  const add = (kind: MlsFindingKind, value: string | undefined) => {
+    const trimmed = value?.trim();
+    if (trimmed && trimmed.length >= 3) {
+      patterns.push({ kind, pattern: new RegExp(`\\b${escapeRegExp(trimmed)}\\b`, "gi") });
+    }
+  };
+
+  add("agent_name", agent.agentName);
+  add("brokerage", agent.agentBrandName);
+  add("email", agent.agentEmail);
+  add("social_handle", agent.agentSocial?.replace(/^@/, ""));
+
+  const phoneDigits = agent.agentPhone?.replace(/\D/g, "") ?? "";
+  if (phoneDigits.length >= 7) {
+    // Same digits with any separators in between
+    const spaced = phoneDigits.slice(-7).split("").map(escapeRegExp).join("[\\s().-]*");
+    patterns.push({ kind: "phone", pattern: new RegExp(spaced, "g") });
+  }
+
+  return patterns;
+}
+
+/**
+ * Find agent-identifying text in narration.
+ *
+ * @param text - Section narration
+ * @param agent - Agent branding from the property step
+ * @returns Findings ordered by position, overlapping matches removed
+ */
+export function findMlsViolations(text: string, agent: MlsAgentInfo): MlsFinding[] {
+  const findings: MlsFinding[] = [];
+  for (const { kind, pattern } of [...agentPatterns(agent), ...PATTERNS]) {
+    for (const match of text.matchAll(pattern)) {
+      findings.push({ kind, text: match[0], index: match.index ?? 0 });
+    }
+  }
+
+  // Earliest first; at the same offset the longer (more specific) match wins
+  findings.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+  const result: MlsFinding[] = [];
+  let coveredTo = -1;
+  for (const finding of findings) {
+    if (finding.index < coveredTo) continue;
+    result.push(finding);
+    coveredTo = finding.index + finding.text.length;
+  }
+  return result;
+}
+
+/**
+ * Build the MLS-safe variant of a section. Sentences that mention the agent
+ * are dropped whole, which keeps the remaining narration grammatical.
+ *
+ * @param section - Script section from the wizard
+ * @param agent - Agent branding from the property step
+ */
+export function toMlsSafeSection(section: ScriptSection, agent: MlsAgentInfo): MlsSafeSection {
+  const findings = findMlsViolations(section.content, agent);
+  const base = {
+    sectionId: section.id,
+    type: section.type,
+    original: section.content,
+    findings,
+  };
+
+  if (OMITTED_SECTION_TYPES.includes(section.type)) {
+    return { ...base, content: "", omitted: true };
+  }
+
+  if (findings.length === 0) {
+    return { ...base, content: section.content, omitted: false };
+  }
+
+  const content = section.content
+    .split(/(?<=[.!?])\s+/)
+    .filter((sentence) => findMlsViolations(sentence, agent).length === 0)
+    .join(" ")
+    .trim();
+
+  return { ...base, content, omitted: false };
+}
+
+/**
+ * MLS-safe variant of every section, in playback order.
+ *
+ * @param sections - Script sections from the wizard
+ * @param agent - Agent branding from the property step
+ */
+export function getMlsSafeScript(sections: ScriptSection[], agent: MlsAgentInfo): MlsSafeSection[] {
+  return [...sections]
+    .sort((a, b) => a.order - b.order)
+    .map((section) => toMlsSafeSection(section, agent));
+}
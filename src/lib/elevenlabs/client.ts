@@ -10,10 +10,17 @@ import {
   GetVoicesResponse,
   GetSharedVoicesResponse,
   CreateVoiceResponse,
+  TextToSpeechOptions,
 } from "./types";
 
 const ELEVENLABS_API_BASE = "https://api.elevenlabs.io";
 
+/**
+ * TTS model used for narration, matching the render workflow.
+ * Multilingual, so Spanish and Mandarin scripts use the same voices.
+ */
+export const ELEVENLABS_TTS_MODEL = "eleven_multilingual_v2";
+
 /**
  * Fetch user's voices from ElevenLabs
  * @param apiKey - ElevenLabs API key
@@ -140,6 +147,43 @@ export async function getVoice(
   return response.json();
 }
 
+/**
+ * Synthesize speech for a block of text
+ * @param apiKey - ElevenLabs API key
+ * @param voiceId - Voice to read the text
+ * @param text - Text to synthesize (already prepared for TTS)
+ * @param options - TTS model override
+ * @returns MP3 audio (44.1kHz, 128kbps)
+ */
+export async function synthesizeSpeech(
+  apiKey: string,
+  voiceId: string,
+  text: string,
+  options: TextToSpeechOptions = {}
+): Promise<ArrayBuffer> {
+  const url = new URL(`${ELEVENLABS_API_BASE}/v1/text-to-speech/${voiceId}`);
+  url.searchParams.set("output_format", "mp3_44100_128");
+
+  const response = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "xi-api-key": apiKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      text,
+      model_id: options.modelId || ELEVENLABS_TTS_MODEL,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`ElevenLabs API error: ${response.status} - ${error}`);
+  }
+
+  return response.arrayBuffer();
+}
+
 /**
  * Normalize voice data from different sources into a common format
  */
@@ -81,6 +81,13 @@ export interface CreateVoiceResponse {
   requires_verification?: boolean;
 }
 
+/**
+ * Options for POST /v1/text-to-speech/{voice_id}
+ */
+export interface TextToSpeechOptions {
+  modelId?: string;
+}
+
 /**
  * Voice source types for UI
  */
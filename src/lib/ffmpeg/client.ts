@@ -0,0 +1,169 @@
+/**
+ * ffmpeg-service Client
+ *
+ * Typed wrappers for the ffmpeg-service render pipeline endpoints.
+ * Every stage takes public URLs and returns the public URL of its output.
+ */
+
+import type { ImageTiming } from "@/lib/n8n/transform";
+import type { AspectRatio, CaptionStyle } from "@/lib/wizard/types";
+import type { CaptionCue } from "@/lib/captions";
+
+/**
+ * Output of a pipeline stage.
+ */
+export interface FfmpegStageResult {
+  url: string;
+  duration: number;
+}
+
+/**
+ * Get the base URL for the ffmpeg-service.
+ * Uses environment variable or falls back to a local instance.
+ */
+export function getFfmpegServiceUrl(): string {
+  return process.env.FFMPEG_SERVICE_URL || "http://localhost:3001";
+}
+
+/**
+ * POST a job to an ffmpeg-service endpoint.
+ * Throws with the service's error details when the stage fails.
+ */
+async function postStage<T>(path: string, body: object): Promise<T> {
+  const response = await fetch(`${getFfmpegServiceUrl()}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(
+      `ffmpeg-service ${path} failed: ${response.status} - ${data.details || data.error || response.statusText}`
+    );
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Ken Burns pan/zoom directions supported by /kenburns.
+ */
+export type KenBurnsDirection =
+  | "zoom-in"
+  | "zoom-out"
+  | "pan-left"
+  | "pan-right"
+  | "pan-up"
+  | "pan-down";
+
+/**
+ * Render a still image as a pan/zoom clip (no AI motion).
+ */
+export function renderKenBurnsClip(params: {
+  imageUrl: string;
+  duration: number;
+  direction?: KenBurnsDirection;
+  focalPoint?: { x: number; y: number };
+  zoom?: number;
+  easing?: "linear" | "ease-in" | "ease-out" | "ease-in-out";
+  width?: number;
+  height?: number;
+}): Promise<FfmpegStageResult> {
+  return postStage("/kenburns", params);
+}
+
+/**
+ * Render a silent narration track sized to the text (TTS stand-in).
+ */
+export function renderPlaceholderNarration(params: {
+  text: string;
+  wordsPerMinute?: number;
+}): Promise<FfmpegStageResult> {
+  return postStage("/narration-placeholder", params);
+}
+
+/**
+ * Concatenate clips in order with narration laid underneath.
+ */
+export function mergeClips(params: {
+  clipUrls: string[];
+  audioUrls?: string[];
+}): Promise<FfmpegStageResult> {
+  return postStage("/merge", params);
+}
+
+/**
+ * Mix a looping music bed under the video's audio.
+ */
+export function mixMusic(params: {
+  videoUrl: string;
+  musicUrl: string;
+  musicVolume?: number;
+  fadeOutSeconds?: number;
+}): Promise<FfmpegStageResult> {
+  return postStage("/music", params);
+}
+
+/**
+ * Render the final video from a beat-synced image timeline in one call:
+ * Ken Burns clips with crossfades, narration, ducked music and end card.
+ */
+export function renderTimeline(params: {
+  timeline: Array<ImageTiming & { direction?: KenBurnsDirection }>;
+  narrationUrls?: string[];
+  narrationOffset?: number;
+  musicUrl?: string;
+  musicVolume?: number;
+  ducking?: boolean;
+  endCard?: {
+    lines: string[];
+    headshotUrl?: string;
+    logoUrl?: string;
+    durationSeconds?: number;
+  };
+  width?: number;
+  height?: number;
+}): Promise<FfmpegStageResult & { clipCount: number }> {
+  return postStage("/render", params);
+}
+
+/**
+ * Crop a landscape render to a social aspect ratio, following the
+ * detailed part of each frame ("smart") or the centre.
+ */
+export function reframeVideo(params: {
+  videoUrl: string;
+  aspectRatio: Exclude<AspectRatio, "16:9">;
+  mode?: "smart" | "center";
+}): Promise<FfmpegStageResult & { aspectRatio: string; width: number; height: number }> {
+  return postStage("/reframe", params);
+}
+
+/**
+ * Burn timed captions into a video.
+ */
+export function burnCaptions(params: {
+  videoUrl: string;
+  cues: CaptionCue[];
+  style: Exclude<CaptionStyle, "none">;
+  /** Narration language; picks a caption font that has its glyphs */
+  language?: string;
+}): Promise<{ url: string; cueCount: number }> {
+  return postStage("/captions", params);
+}
+
+/**
+ * Append the agent branding end card.
+ */
+export function appendEndCard(params: {
+  videoUrl: string;
+  lines: string[];
+  headshotUrl?: string;
+  logoUrl?: string;
+  durationSeconds?: number;
+}): Promise<FfmpegStageResult> {
+  return postStage("/endcard", params);
+}
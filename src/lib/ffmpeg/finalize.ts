@@ -0,0 +1,95 @@
+/**
+ * Render Finalization
+ *
+ * Last step for every finished landscape render, whichever orchestrator
+ * produced it: burns in captions when a caption style was chosen, marks
+ * the video completed and kicks off the social format reframes.
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/service";
+import { buildCaptionCues, getSectionTexts, type NarrationTiming } from "@/lib/captions";
+import { getCalibratedLanguageProfile } from "@/lib/script";
+import { getVoiceSpeakingRate } from "@/lib/script/voice-rates";
+import type { N8nTourVideoPayload } from "@/lib/n8n";
+import type { VideoOutputs } from "@/types/video";
+import { burnCaptions } from "./client";
+import { renderSocialOutputs, type SocialOutputOptions } from "./outputs";
+
+/**
+ * Finished landscape render handed over by the orchestrator.
+ */
+export interface FinalizeRenderParams {
+  videoUrl: string;
+  narrationTimings?: NarrationTiming[] | null;
+  outputs?: VideoOutputs; // Social outputs already rendered upstream
+  unbrandedUrl?: string | null; // MLS render without agent branding
+}
+
+/**
+ * Burn captions (if requested), complete the video and render social formats.
+ * A failed burn-in is logged and the caption-free render is delivered instead.
+ *
+ * @param videoId - Video being finalized
+ * @param params - Landscape and MLS render URLs, narration timings and existing outputs
+ * @returns The final outputs map
+ */
+export async function finalizeRender(
+  videoId: string,
+  params: FinalizeRenderParams
+): Promise<VideoOutputs> {
+  const supabase = createServiceRoleClient();
+  const { data: video } = await supabase
+    .from("videos")
+    .select("script_sections, n8n_payload")
+    .eq("id", videoId)
+    .single();
+
+  const payload = video?.n8n_payload as Partial<N8nTourVideoPayload> | null;
+  const captionStyle = payload?.captionStyle ?? "none";
+
+  let captions: SocialOutputOptions["captions"] = null;
+  let landscapeUrl = params.videoUrl;
+
+  if (captionStyle !== "none") {
+    // Same pace as the narration estimate, for renders without measured timings
+    const voiceRate = await getVoiceSpeakingRate(supabase, payload?.voiceId, payload?.language);
+    const cues = buildCaptionCues(
+      getSectionTexts(video?.script_sections as Array<{ content?: string; order?: number }>),
+      params.narrationTimings,
+      {
+        language: payload?.language,
+        wordsPerMinute: getCalibratedLanguageProfile(payload?.language, voiceRate).wordsPerMinute,
+      }
+    );
+
+    if (cues.length > 0) {
+      const burnIn = { cues, style: captionStyle, language: payload?.language };
+      try {
+        const captioned = await burnCaptions({ videoUrl: params.videoUrl, ...burnIn });
+        landscapeUrl = captioned.url;
+        captions = burnIn;
+      } catch (error) {
+        console.error(`Caption burn-in failed for video ${videoId}:`, error);
+      }
+    }
+  }
+
+  const outputs: VideoOutputs = { ...params.outputs, "16:9": landscapeUrl };
+  await supabase
+    .from("videos")
+    .update({
+      status: "completed",
+      branded_url: landscapeUrl,
+      unbranded_url: params.unbrandedUrl ?? null,
+      outputs,
+      ...(params.narrationTimings ? { narration_timings: params.narrationTimings } : {}),
+      error_message: null,
+    })
+    .eq("id", videoId);
+
+  // Reframe from the caption-free render so text is laid out per frame
+  return renderSocialOutputs(videoId, outputs, payload?.aspectRatios ?? ["16:9"], {
+    sourceUrl: params.videoUrl,
+    captions,
+  });
+}
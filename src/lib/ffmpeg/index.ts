@@ -0,0 +1,26 @@
+/**
+ * ffmpeg-service Module
+ *
+ * Client for the standalone ffmpeg-service (see /ffmpeg-service).
+ */
+
+// Pipeline endpoint wrappers
+export {
+  getFfmpegServiceUrl,
+  renderKenBurnsClip,
+  renderPlaceholderNarration,
+  mergeClips,
+  mixMusic,
+  appendEndCard,
+  renderTimeline,
+  reframeVideo,
+  burnCaptions,
+  type FfmpegStageResult,
+  type KenBurnsDirection,
+} from "./client";
+
+// Social aspect ratio outputs
+export { renderSocialOutputs, type SocialOutputOptions } from "./outputs";
+
+// Caption burn-in, completion and social formats for a finished render
+export { finalizeRender, type FinalizeRenderParams } from "./finalize";
@@ -0,0 +1,65 @@
+/**
+ * Social Format Outputs
+ *
+ * Renders the vertical and square versions of a finished landscape video
+ * and records each one in videos.outputs as it completes.
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/service";
+import type { AspectRatio, CaptionStyle } from "@/lib/wizard/types";
+import type { CaptionCue } from "@/lib/captions";
+import type { VideoOutputs } from "@/types/video";
+import { burnCaptions, reframeVideo } from "./client";
+
+/**
+ * Options for rendering social outputs.
+ */
+export interface SocialOutputOptions {
+  /** Caption-free landscape render to reframe (defaults to outputs["16:9"]) */
+  sourceUrl?: string;
+  /** Captions to burn into each reframed output, sized for its frame */
+  captions?: { cues: CaptionCue[]; style: Exclude<CaptionStyle, "none">; language?: string } | null;
+}
+
+/**
+ * Reframe the landscape render into each requested ratio that isn't
+ * already in `outputs`. Failures are logged and skipped so one bad format
+ * doesn't lose the others.
+ *
+ * @param videoId - Video to update
+ * @param outputs - Outputs recorded so far; must include the 16:9 render
+ * @param aspectRatios - Ratios requested in the wizard
+ * @param options - Source override and captions to burn in
+ * @returns The final outputs map
+ */
+export async function renderSocialOutputs(
+  videoId: string,
+  outputs: VideoOutputs,
+  aspectRatios: AspectRatio[],
+  options: SocialOutputOptions = {}
+): Promise<VideoOutputs> {
+  // Reframe before burning captions so text is laid out for each frame
+  const sourceUrl = options.sourceUrl || outputs["16:9"];
+  const pending = aspectRatios.filter(
+    (ratio): ratio is Exclude<AspectRatio, "16:9"> => ratio !== "16:9" && !outputs[ratio]
+  );
+  if (!sourceUrl || pending.length === 0) return outputs;
+
+  const supabase = createServiceRoleClient();
+  const result: VideoOutputs = { ...outputs };
+
+  for (const aspectRatio of pending) {
+    try {
+      const reframed = await reframeVideo({ videoUrl: sourceUrl, aspectRatio });
+      const captioned = options.captions
+        ? await burnCaptions({ videoUrl: reframed.url, ...options.captions })
+        : null;
+      result[aspectRatio] = captioned?.url || reframed.url;
+      await supabase.from("videos").update({ outputs: result }).eq("id", videoId);
+    } catch (error) {
+      console.error(`Failed to render ${aspectRatio} output for video ${videoId}:`, error);
+    }
+  }
+
+  return result;
+}
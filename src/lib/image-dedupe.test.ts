@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ImageQuality } from "@/lib/image-quality";
+import { differenceHash, findDuplicateClusters, hammingDistance } from "./image-dedupe";
+
+/**
+ * Grayscale buffer from a function of the pixel position.
+ */
+function sample(width: number, height: number, luma: (x: number, y: number) => number): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) gray[y * width + x] = luma(x, y);
+  }
+  return gray;
+}
+
+function quality(sharpness: number): ImageQuality {
+  return { width: 4000, height: 3000, sharpness, brightness: 128, clipped: 0, tilt: 0, keystone: 0 };
+}
+
+describe("differenceHash", () => {
+  it("has no bias from unequal cell sizes", () => {
+    // 256 doesn't divide into 9 columns; a flat image must still hash to all zeros
+    assert.equal(differenceHash(sample(256, 256, () => 128), 256, 256), "0000000000000000");
+  });
+
+  it("sets a bit where brightness increases to the right", () => {
+    assert.equal(differenceHash(sample(256, 256, (x) => x), 256, 256), "ffffffffffffffff");
+    assert.equal(differenceHash(sample(256, 256, (x) => 255 - x), 256, 256), "0000000000000000");
+  });
+
+  it("survives resizing", () => {
+    const scene = (x: number, y: number) => 128 + 100 * Math.sin(x * 7) * Math.cos(y * 5);
+    const large = differenceHash(sample(256, 256, (x, y) => scene(x / 256, y / 256)), 256, 256);
+    const small = differenceHash(sample(90, 64, (x, y) => scene(x / 90, y / 64)), 90, 64);
+    assert.ok(hammingDistance(large, small) <= 4);
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    assert.equal(hammingDistance("0000000000000000", "0000000000000000"), 0);
+    assert.equal(hammingDistance("0000000000000000", "000000000000000f"), 4);
+    assert.equal(hammingDistance("ffffffffffffffff", "0000000000000000"), 64);
+  });
+});
+
+describe("findDuplicateClusters", () => {
+  it("groups near-identical hashes and keeps the best-scoring image", () => {
+    const clusters = findDuplicateClusters([
+      { id: "a", hash: "0000000000000000", quality: quality(100) },
+      { id: "b", hash: "0000000000000003", quality: quality(400) },
+      { id: "c", hash: "ffffffffffffffff", quality: quality(400) },
+    ]);
+    assert.deepEqual(clusters, [{ key: "a:b", keepId: "b", imageIds: ["a", "b"] }]);
+  });
+
+  it("doesn't chain images that drift apart", () => {
+    // a-b and b-c are 8 bits apart, a-c 16: c isn't a duplicate of the kept image
+    const clusters = findDuplicateClusters([
+      { id: "a", hash: "0000000000000000", quality: quality(100) },
+      { id: "b", hash: "00000000000000ff", quality: quality(400) },
+      { id: "c", hash: "000000000000ffff", quality: quality(100) },
+    ]);
+    assert.deepEqual(clusters, [{ key: "a:b", keepId: "b", imageIds: ["a", "b"] }]);
+  });
+
+  it("never groups different room types", () => {
+    const clusters = findDuplicateClusters([
+      { id: "a", hash: "0000000000000000", roomType: "bedroom" },
+      { id: "b", hash: "0000000000000001", roomType: "bathroom" },
+      { id: "c", hash: "0000000000000003", roomType: "bedroom" },
+    ]);
+    assert.deepEqual(clusters.map((c) => c.imageIds), [["a", "c"]]);
+  });
+
+  it("leaves out images without a hash", () => {
+    assert.deepEqual(findDuplicateClusters([{ id: "a", hash: "0000000000000000" }, { id: "b" }]), []);
+  });
+});
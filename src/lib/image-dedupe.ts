@@ -0,0 +1,165 @@
+/**
+ * Canvas-based near-duplicate detection for uploaded photos.
+ * Hashes each image perceptually, then groups near-identical shots and
+ * picks the best one by quality score.
+ */
+
+import { imageQualityScore, type ImageQuality } from "@/lib/image-quality";
+import type { RoomType } from "@/lib/wizard/types";
+
+/**
+ * A group of near-identical images and the one proposed to keep.
+ */
+export interface DuplicateCluster {
+  key: string;        // Stable id for the group (its sorted image ids)
+  keepId: string;
+  imageIds: string[]; // Every image in the group, keepId included
+}
+
+/**
+ * Hashes this many bits apart or fewer count as the same shot. Slightly
+ * different angles of one room land around 4-10; different rooms above 20.
+ */
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+/** Side of the grayscale sample the hash is computed from */
+const SAMPLE_SIZE = 256;
+
+/**
+ * 64-bit difference hash of an image from a URL or object URL, as 16 hex
+ * characters.
+ */
+export async function perceptualHash(src: string): Promise<string> {
+  const image = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  ctx.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  // Rec. 601 luma
+  const gray = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return differenceHash(gray, SAMPLE_SIZE, SAMPLE_SIZE);
+}
+
+/**
+ * Number of differing bits between two hashes.
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    let diff = parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Group near-identical images, proposing the highest-quality image of each
+ * group. Every member is within NEAR_DUPLICATE_DISTANCE of every other
+ * member (the keep image included), so a series of gradually shifting
+ * shots can't chain distinct views into one group. Images with different
+ * room types are never grouped. Images without a hash and singletons are
+ * left out.
+ */
+export function findDuplicateClusters(
+  images: Array<{ id: string; hash?: string; quality?: ImageQuality; roomType?: RoomType }>
+): DuplicateCluster[] {
+  type HashedImage = { id: string; hash: string; quality?: ImageQuality; roomType?: RoomType };
+  const hashed = images.filter((img): img is HashedImage => !!img.hash);
+  const score = (img: { quality?: ImageQuality }) => (img.quality ? imageQualityScore(img.quality) : 0);
+  const sameShot = (a: HashedImage, b: HashedImage) =>
+    (!a.roomType || !b.roomType || a.roomType === b.roomType) &&
+    hammingDistance(a.hash, b.hash) <= NEAR_DUPLICATE_DISTANCE;
+
+  // Best first (upload order breaks ties), so each group starts from the image it keeps
+  const ranked = hashed
+    .map((img, index) => ({ img, index }))
+    .sort((a, b) => score(b.img) - score(a.img) || a.index - b.index);
+
+  const grouped = new Set<number>();
+  const clusters: DuplicateCluster[] = [];
+  for (const keep of ranked) {
+    if (grouped.has(keep.index)) continue;
+
+    const group = [keep];
+    for (const candidate of ranked) {
+      if (
+        candidate !== keep &&
+        !grouped.has(candidate.index) &&
+        group.every((member) => sameShot(member.img, candidate.img))
+      ) {
+        group.push(candidate);
+      }
+    }
+    if (group.length < 2) continue;
+
+    group.forEach((member) => grouped.add(member.index));
+    const imageIds = group.sort((a, b) => a.index - b.index).map((member) => member.img.id);
+    clusters.push({ key: [...imageIds].sort().join(":"), keepId: keep.img.id, imageIds });
+  }
+  return clusters;
+}
+
+/**
+ * 64-bit dHash of a grayscale buffer, as 16 hex characters: shrink to 9x8
+ * and compare each cell with its right neighbour, so the hash survives
+ * resizing, compression and small shifts.
+ */
+export function differenceHash(gray: Float32Array, width: number, height: number): string {
+  const cols = 9;
+  const rows = 8;
+
+  // Box-average down to 9x8. Cells differ in size by a pixel when the
+  // sample doesn't divide evenly, so compare means, not sums.
+  const sums = new Float32Array(cols * rows);
+  const counts = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor((y * rows) / height);
+    for (let x = 0; x < width; x++) {
+      const cell = row * cols + Math.floor((x * cols) / width);
+      sums[cell] += gray[y * width + x];
+      counts[cell]++;
+    }
+  }
+  const means = sums.map((sum, cell) => sum / counts[cell]);
+
+  let hash = "";
+  for (let row = 0; row < rows; row++) {
+    let nibble = 0;
+    for (let col = 0; col < cols - 1; col++) {
+      nibble = (nibble << 1) | (means[row * cols + col] < means[row * cols + col + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Loads an image from a URL or object URL.
+ */
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = (error) => reject(error);
+    image.src = src;
+  });
+}
@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  exposureScore,
+  getImageQualityWarnings,
+  imageQualityScore,
+  measureGrayscale,
+  pickHeroImage,
+  type ImageQuality,
+} from "./image-quality";
+
+const SIZE = 256;
+
+/**
+ * Soft vertical stripes leaning by the given angle (degrees), per half.
+ */
+function stripes(leftDegrees: number, rightDegrees = leftDegrees): Float32Array {
+  const gray = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const angle = ((x < SIZE / 2 ? leftDegrees : rightDegrees) * Math.PI) / 180;
+      const phase = (x * Math.cos(angle) + y * Math.sin(angle)) / 16;
+      gray[y * SIZE + x] = 128 + 100 * Math.sin(2 * Math.PI * phase);
+    }
+  }
+  return gray;
+}
+
+function flat(luma: number): Float32Array {
+  return new Float32Array(SIZE * SIZE).fill(luma);
+}
+
+const good: ImageQuality = {
+  width: 4000,
+  height: 3000,
+  sharpness: 400,
+  brightness: 128,
+  clipped: 0,
+  tilt: 0,
+  keystone: 0,
+  clutter: "low",
+};
+
+describe("measureGrayscale", () => {
+  it("measures brightness and clipping", () => {
+    const dark = measureGrayscale(flat(4), SIZE, SIZE);
+    assert.equal(dark.brightness, 4);
+    assert.equal(dark.clipped, 1);
+  });
+
+  it("scores a flat image as blurry and a detailed one as sharp", () => {
+    assert.equal(measureGrayscale(flat(128), SIZE, SIZE).sharpness, 0);
+    assert.ok(measureGrayscale(stripes(0), SIZE, SIZE).sharpness > 80);
+  });
+
+  it("measures no tilt on straight verticals", () => {
+    const { tilt, keystone } = measureGrayscale(stripes(0), SIZE, SIZE);
+    assert.ok(Math.abs(tilt) < 0.5);
+    assert.ok(keystone < 0.5);
+  });
+
+  it("measures a rolled camera as tilt", () => {
+    const { tilt, keystone } = measureGrayscale(stripes(5), SIZE, SIZE);
+    assert.ok(Math.abs(Math.abs(tilt) - 5) < 0.5, `tilt ${tilt}`);
+    assert.ok(keystone < 0.5);
+  });
+
+  it("measures converging verticals as keystone", () => {
+    const { tilt, keystone } = measureGrayscale(stripes(4, -4), SIZE, SIZE);
+    assert.ok(Math.abs(tilt) < 0.5, `tilt ${tilt}`);
+    assert.ok(Math.abs(keystone - 4) < 0.5, `keystone ${keystone}`);
+  });
+
+  it("skips tilt when there are too few vertical edges", () => {
+    const { tilt, keystone } = measureGrayscale(flat(128), SIZE, SIZE);
+    assert.deepEqual([tilt, keystone], [0, 0]);
+  });
+});
+
+describe("exposureScore", () => {
+  it("is 1 for mid-tones and falls off towards the extremes", () => {
+    assert.equal(exposureScore({ brightness: 128, clipped: 0 }), 1);
+    assert.ok(exposureScore({ brightness: 60, clipped: 0 }) < 0.6);
+    assert.equal(exposureScore({ brightness: 250, clipped: 0.9 }), 0);
+  });
+});
+
+describe("imageQualityScore", () => {
+  it("scores a clean, sharp, level photo 100", () => {
+    assert.equal(imageQualityScore(good), 100);
+  });
+
+  it("penalizes each problem", () => {
+    for (const problem of [
+      { sharpness: 40 },
+      { brightness: 40 },
+      { width: 1024, height: 768 },
+      { tilt: 4 },
+      { clutter: "high" as const },
+    ]) {
+      assert.ok(imageQualityScore({ ...good, ...problem }) < 100, JSON.stringify(problem));
+    }
+  });
+});
+
+describe("getImageQualityWarnings", () => {
+  it("has nothing to say about a good photo", () => {
+    assert.deepEqual(getImageQualityWarnings(good), []);
+  });
+
+  it("flags every problem", () => {
+    const kinds = getImageQualityWarnings({
+      width: 1024,
+      height: 768,
+      sharpness: 20,
+      brightness: 40,
+      clipped: 0.3,
+      tilt: -3,
+      keystone: 4,
+      clutter: "high",
+    }).map((w) => w.kind);
+    assert.deepEqual(kinds, ["blur", "dark", "tilt", "verticals", "resolution", "clutter"]);
+  });
+
+  it("flags blown-out highlights", () => {
+    assert.deepEqual(getImageQualityWarnings({ ...good, clipped: 0.2 }).map((w) => w.kind), ["bright"]);
+  });
+});
+
+describe("pickHeroImage", () => {
+  it("picks the best-scoring exterior", () => {
+    const hero = pickHeroImage([
+      { id: "kitchen", roomType: "kitchen", quality: good },
+      { id: "front", roomType: "exterior", quality: { ...good, sharpness: 40 } },
+      { id: "twilight", roomType: "exterior", quality: good },
+    ]);
+    assert.equal(hero?.id, "twilight");
+  });
+
+  it("ignores exteriors that weren't measured", () => {
+    assert.equal(pickHeroImage([{ id: "front", roomType: "exterior" }]), undefined);
+  });
+});
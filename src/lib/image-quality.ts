@@ -0,0 +1,265 @@
+/**
+ * Photo quality scoring.
+ * Blur, exposure, tilt and resolution are measured locally on a canvas
+ * before upload; clutter comes from the vision analysis. Scores pick the
+ * hero exterior and the best shot among near-duplicates.
+ */
+
+/**
+ * How busy a room looks, as judged by the vision analysis.
+ */
+export type ImageClutter = "low" | "medium" | "high";
+
+/**
+ * Quality metrics for one photo.
+ */
+export interface ImageQuality {
+  width: number;          // Original size in pixels
+  height: number;
+  sharpness: number;      // Variance of the Laplacian on the sample (higher is sharper)
+  brightness: number;     // Mean luma, 0-255
+  clipped: number;        // Fraction of pure black or blown-out pixels
+  tilt: number;           // Degrees near-vertical lines lean, on average
+  keystone: number;       // Degrees verticals converge between the left and right halves
+  clutter?: ImageClutter;
+}
+
+/**
+ * A problem worth fixing before the photo goes into the video.
+ */
+export interface ImageQualityWarning {
+  kind: "blur" | "dark" | "bright" | "tilt" | "verticals" | "resolution" | "clutter";
+  message: string;
+}
+
+/** Thresholds for quality warnings */
+const MIN_SHARPNESS = 80;
+const MIN_BRIGHTNESS = 70;
+const MAX_BRIGHTNESS = 200;
+const MAX_CLIPPED = 0.15;
+const MAX_TILT_DEGREES = 2;
+const MAX_KEYSTONE_DEGREES = 2.5;
+/** Photos are rendered into 1080p video */
+const MIN_LONG_SIDE = 1920;
+
+/** Long side of the grayscale sample the metrics are measured on */
+const SAMPLE_SIZE = 256;
+/** Edges within this many degrees of vertical count as verticals */
+const VERTICAL_CONE_DEGREES = 10;
+/** Sobel magnitude (0-1020) for a pixel to count as an edge */
+const MIN_EDGE_MAGNITUDE = 60;
+/** Fewer vertical edge pixels than this and tilt isn't measured */
+const MIN_VERTICAL_EDGES = 200;
+
+/**
+ * Measure a photo from a URL or object URL. Clutter is left for the
+ * vision analysis to fill in.
+ */
+export async function measureImageQuality(src: string): Promise<ImageQuality> {
+  const image = await loadImage(src);
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(3, Math.round(image.naturalWidth * scale));
+  const height = Math.max(3, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+  if (!ctx) {
+    throw new Error("Failed to get canvas context");
+  }
+
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Rec. 601 luma
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    ...measureGrayscale(gray, width, height),
+  };
+}
+
+/**
+ * Sharpness, exposure and vertical lines of a grayscale sample (0-255 luma).
+ */
+export function measureGrayscale(
+  gray: Float32Array,
+  width: number,
+  height: number
+): Pick<ImageQuality, "sharpness" | "brightness" | "clipped" | "tilt" | "keystone"> {
+  let sum = 0;
+  let clipped = 0;
+  for (const value of gray) {
+    sum += value;
+    if (value < 8 || value > 247) clipped++;
+  }
+
+  return {
+    sharpness: laplacianVariance(gray, width, height),
+    brightness: sum / gray.length,
+    clipped: clipped / gray.length,
+    ...measureVerticals(gray, width, height),
+  };
+}
+
+/**
+ * 1 for a mid-tone average with nothing clipped, falling towards 0 as the
+ * shot gets darker or brighter or loses shadows and highlights.
+ */
+export function exposureScore(quality: Pick<ImageQuality, "brightness" | "clipped">): number {
+  return Math.max(0, 1 - Math.abs(quality.brightness - 128) / 128 - quality.clipped);
+}
+
+/**
+ * Overall quality, 0-100: sharpness and exposure weigh most, then
+ * resolution, straight verticals and a tidy room.
+ */
+export function imageQualityScore(quality: ImageQuality): number {
+  const sharpness = Math.min(1, quality.sharpness / (MIN_SHARPNESS * 4));
+  const resolution = Math.min(1, Math.max(quality.width, quality.height) / MIN_LONG_SIDE);
+  const straightness = Math.max(0, 1 - (Math.abs(quality.tilt) + quality.keystone) / 10);
+  const tidiness = quality.clutter === "high" ? 0 : quality.clutter === "medium" ? 0.5 : 1;
+  return Math.round(
+    100 * (0.35 * sharpness + 0.25 * exposureScore(quality) + 0.15 * resolution + 0.15 * straightness + 0.1 * tidiness)
+  );
+}
+
+/**
+ * Problems to flag on a photo's card.
+ */
+export function getImageQualityWarnings(quality: ImageQuality): ImageQualityWarning[] {
+  const warnings: ImageQualityWarning[] = [];
+
+  if (quality.sharpness < MIN_SHARPNESS) {
+    warnings.push({ kind: "blur", message: "Looks blurry or out of focus" });
+  }
+  if (quality.brightness < MIN_BRIGHTNESS) {
+    warnings.push({ kind: "dark", message: "Underexposed - try an enhancement" });
+  } else if (quality.brightness > MAX_BRIGHTNESS || quality.clipped > MAX_CLIPPED) {
+    warnings.push({ kind: "bright", message: "Overexposed - highlights are blown out" });
+  }
+  if (Math.abs(quality.tilt) > MAX_TILT_DEGREES) {
+    warnings.push({ kind: "tilt", message: `Tilted about ${Math.round(Math.abs(quality.tilt))}°` });
+  }
+  if (quality.keystone > MAX_KEYSTONE_DEGREES) {
+    warnings.push({ kind: "verticals", message: "Walls lean in - converging verticals" });
+  }
+  if (Math.max(quality.width, quality.height) < MIN_LONG_SIDE) {
+    warnings.push({
+      kind: "resolution",
+      message: `Low resolution (${quality.width}×${quality.height}) - may look soft in 1080p`,
+    });
+  }
+  if (quality.clutter === "high") {
+    warnings.push({ kind: "clutter", message: "Cluttered - consider staging or another shot" });
+  }
+
+  return warnings;
+}
+
+/**
+ * The best-scoring exterior, used as the opening hero and thumbnail
+ * candidate. Undefined when there's no measured exterior.
+ */
+export function pickHeroImage<T extends { roomType: string; quality?: ImageQuality }>(
+  images: T[]
+): T | undefined {
+  return images
+    .filter((img) => img.roomType === "exterior" && img.quality)
+    .reduce<T | undefined>(
+      (best, img) =>
+        !best || imageQualityScore(img.quality!) > imageQualityScore(best.quality!) ? img : best,
+      undefined
+    );
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian; blurry shots have few edges.
+ */
+function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Lean of near-vertical edges (Sobel), weighted by edge strength. Texture
+ * leans both ways and cancels out; a rolled camera shifts every edge the
+ * same way (tilt), while pointing up or down makes the two halves lean
+ * towards each other (keystone).
+ */
+function measureVerticals(
+  gray: Float32Array,
+  width: number,
+  height: number
+): Pick<ImageQuality, "tilt" | "keystone"> {
+  const maxRatio = Math.tan((VERTICAL_CONE_DEGREES * Math.PI) / 180);
+  const halves = [
+    { sum: 0, weight: 0, count: 0 },
+    { sum: 0, weight: 0, count: 0 },
+  ];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+      const magnitude = Math.hypot(gx, gy);
+
+      // A vertical edge has a mostly horizontal gradient
+      if (magnitude < MIN_EDGE_MAGNITUDE || Math.abs(gy) > maxRatio * Math.abs(gx)) continue;
+
+      const lean = (Math.atan(gy / gx) * 180) / Math.PI;
+      const half = halves[x < width / 2 ? 0 : 1];
+      half.sum += lean * magnitude;
+      half.weight += magnitude;
+      half.count++;
+    }
+  }
+
+  if (halves[0].count + halves[1].count < MIN_VERTICAL_EDGES) {
+    return { tilt: 0, keystone: 0 };
+  }
+
+  const [left, right] = halves.map((h) => (h.weight > 0 ? h.sum / h.weight : 0));
+  const bothHalves = halves[0].count > 0 && halves[1].count > 0;
+  return {
+    tilt: bothHalves ? (left + right) / 2 : halves[0].count > 0 ? left : right,
+    keystone: bothHalves ? Math.abs(right - left) / 2 : 0,
+  };
+}
+
+/**
+ * Loads an image from a URL or object URL.
+ */
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = (error) => reject(error);
+    image.src = src;
+  });
+}
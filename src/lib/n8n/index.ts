@@ -13,6 +13,7 @@ export {
   type N8nTourVideoPayload,
   type N8nListingVideoPayload,
   type MusicTrackMeta,
+  type PronunciationOptions,
 } from "./transform";
 
 // Default music library
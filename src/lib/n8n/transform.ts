@@ -5,14 +5,25 @@
  * Maps field names and structures to match webhook payload requirements.
  */
 
-import type { PropertyData, WizardImage, ScriptSection, StyleOptions, ScriptSectionType, RoomType } from "@/lib/wizard/types";
+import type { PropertyData, WizardImage, ScriptSection, ScriptSectionDefinition, SectionTemplateSelection, StyleOptions, BuiltInSectionType, RoomType, AspectRatio, CaptionStyle } from "@/lib/wizard/types";
+import { ASPECT_RATIO_OPTIONS } from "@/lib/wizard/types";
 import { getDefaultMusicUrl } from "./music";
+import { getMlsSafeScript } from "@/lib/compliance";
+import {
+  countScriptWords,
+  getCalibratedLanguageProfile,
+  getPropertyTypeProfile,
+  type VoiceSpeakingRate,
+} from "@/lib/script";
+import { pickHeroImage } from "@/lib/image-quality";
+import type { PronunciationEntry } from "@/lib/pronunciation";
+import { sanitizeForTts } from "@/lib/tts";
 
 /**
  * Maps script section types to their preferred room types.
  * Order matters - first match is preferred.
  */
-const SECTION_TO_ROOM_MAPPING: Record<ScriptSectionType, RoomType[]> = {
+const SECTION_TO_ROOM_MAPPING: Record<BuiltInSectionType, RoomType[]> = {
   opening: ["exterior"],
   living: ["entry", "living", "kitchen", "dining"],
   private: ["master_bedroom", "guest_bedroom", "bedroom", "bathroom"],
@@ -31,13 +42,19 @@ const SECTION_TO_ROOM_MAPPING: Record<ScriptSectionType, RoomType[]> = {
  * 3. If no matches, try fallback to "other" room type
  * 4. If still no matches, reuse the best available image (exterior preferred)
  *
+ * Sections of a section template (or a property type's default structure)
+ * use its room types; the closing keeps its hero-shot preference since
+ * structures never map images to it.
+ *
  * @param images - All wizard images sorted by order
  * @param sections - Script sections
+ * @param structure - Section structure the script was written in (default sections when omitted)
  * @returns Map of section ID to array of image IDs
  */
 export function mapImagesToSections(
   images: WizardImage[],
-  sections: ScriptSection[]
+  sections: ScriptSection[],
+  structure?: ScriptSectionDefinition[]
 ): Map<string, string[]> {
   const mapping = new Map<string, string[]>();
   const usedImageIds = new Set<string>();
@@ -59,7 +76,10 @@ export function mapImagesToSections(
   for (const section of sections) {
     if (section.type === 'opening') continue; // Already handled above
 
-    const preferredRoomTypes = SECTION_TO_ROOM_MAPPING[section.type];
+    const preferredRoomTypes =
+      (section.type !== "closing" && structure?.find((s) => s.type === section.type)?.roomTypes) ||
+      SECTION_TO_ROOM_MAPPING[section.type as BuiltInSectionType] ||
+      [];
     const matchingImages = sortedImages.filter(
       (img) => preferredRoomTypes.includes(img.roomType) && !usedImageIds.has(img.id)
     );
@@ -123,9 +143,10 @@ export function mapImagesToSections(
 export function getImagesForSection(
   images: WizardImage[],
   sections: ScriptSection[],
-  sectionId: string
+  sectionId: string,
+  structure?: ScriptSectionDefinition[]
 ): WizardImage[] {
-  const mapping = mapImagesToSections(images, sections);
+  const mapping = mapImagesToSections(images, sections, structure);
   const imageIds = mapping.get(sectionId) || [];
   return imageIds
     .map((id) => images.find((img) => img.id === id))
@@ -149,6 +170,7 @@ export interface ImageTiming {
 export interface N8nTourVideoPayload {
   videoId?: string; // Video UUID for completion callback
   images: Array<{ imageurl: string }>;
+  heroImageUrl?: string; // Best-scoring exterior, for the opening shot and thumbnail
   imageTiming?: ImageTiming[]; // Beat-synced timings (optional, for json2video)
   email: string;
   title: string;
@@ -169,6 +191,7 @@ export interface N8nTourVideoPayload {
   lotSize: string;
   propertyType: string;
   preferredTone: string;
+  language: string; // Narration language (ISO 639-1); non-English needs a multilingual TTS model
   useMusic: "yes" | "no";
   webhookResponse?: string[]; // Script sections for TTS
   // Agent branding for closing card
@@ -180,13 +203,28 @@ export interface N8nTourVideoPayload {
   logoUrl: string;
   headshotUrl: string;
   estimatedNarrationDuration?: number; // Estimated TTS duration in seconds (fallback for n8n)
+  aspectRatios: AspectRatio[]; // Output formats; 16:9 first, others reframed from it
+  captionStyle: CaptionStyle; // Burned-in caption look, applied after the render completes
+  // MLS (unbranded) render: no end card, logo, contact details or CTA narration
+  mlsDualOutput: boolean;
+  unbrandedWebhookResponse?: string[]; // Script sections for the unbranded TTS, blank = silent
   // Section-to-image mapping for anchored timing (n8n uses this to reorder clips)
   sectionImageMapping?: Array<{
     sectionIndex: number;
     sectionType: string;
     imageIndices: number[];
-    wordCount: number;           // Word count for reference
+    wordCount: number;           // Word count for reference (characters for Mandarin)
   }>;
+  // Section template the script follows, kept so revisions reopen with the same structure
+  sectionTemplate?: SectionTemplateSelection;
+}
+
+/**
+ * The user's pronunciation lexicon (personal and team entries merged),
+ * applied to the narration text before TTS.
+ */
+export interface PronunciationOptions {
+  entries: PronunciationEntry[];
 }
 
 /**
@@ -380,36 +418,39 @@ export interface MusicTrackMeta {
 }
 
 /**
- * Estimate narration duration from script content.
- * Uses average TTS speaking rate of ~150 words per minute.
+ * Estimate narration duration from script content, at the same speaking
+ * rate the script's word budgets were built with: the voice's measured
+ * rate when calibrated, otherwise the language default.
  *
  * @param scriptSections - Script sections to estimate duration for
+ * @param language - Narration language (default: English)
+ * @param speakingRate - The voice's measured speaking rate, if any
  * @returns Estimated duration in seconds
  */
-function estimateNarrationDuration(scriptSections: ScriptSection[]): number {
-  // Average TTS speaking rate: ~150 words per minute
-  const WORDS_PER_MINUTE = 150;
-
-  const totalWords = scriptSections.reduce((sum, section) => {
-    const words = section.content.split(/\s+/).filter((w) => w.length > 0);
-    return sum + words.length;
-  }, 0);
+function estimateNarrationDuration(
+  scriptSections: ScriptSection[],
+  language?: string,
+  speakingRate?: VoiceSpeakingRate | null
+): number {
+  const { wordsPerMinute } = getCalibratedLanguageProfile(language, speakingRate);
+
+  const totalWords = scriptSections.reduce(
+    (sum, section) => sum + countScriptWords(section.content, language),
+    0
+  );
 
   // Convert to seconds and round up
-  return Math.ceil((totalWords / WORDS_PER_MINUTE) * 60);
+  return Math.ceil((totalWords / wordsPerMinute) * 60);
 }
 
 /**
- * Sanitize text for TTS pronunciation.
- * Replaces "@username" with "at username" for proper pronunciation.
- *
- * @param text - Text content to sanitize
- * @returns Sanitized text with @ symbols replaced for TTS
+ * Output formats in render order. The landscape render is always produced
+ * because the other ratios are reframed from it.
  */
-function sanitizeForTts(text: string): string {
-  // Replace @username patterns with "at username"
-  // Pattern: @ followed by word characters (letters, numbers, underscores)
-  return text.replace(/@(\w+)/g, 'at $1');
+function normalizeAspectRatios(selected: AspectRatio[] = []): AspectRatio[] {
+  return ASPECT_RATIO_OPTIONS.map((option) => option.value).filter(
+    (ratio) => ratio === "16:9" || selected.includes(ratio)
+  );
 }
 
 /**
@@ -421,6 +462,8 @@ function sanitizeForTts(text: string): string {
  * @param styleOptions - Voice and music settings from Step 4
  * @param userEmail - User's email from auth context
  * @param musicTrack - Optional music track metadata for beat-synced transitions
+ * @param pronunciation - Optional pronunciation lexicon applied to the TTS text
+ * @param speakingRate - Optional measured speaking rate of the selected voice
  * @returns Formatted payload for n8n webhook
  */
 export function transformWizardToN8n(
@@ -429,18 +472,31 @@ export function transformWizardToN8n(
   scriptSections: ScriptSection[],
   styleOptions: Partial<StyleOptions>,
   userEmail: string,
-  musicTrack?: MusicTrackMeta
+  musicTrack?: MusicTrackMeta,
+  pronunciation?: PronunciationOptions,
+  speakingRate?: VoiceSpeakingRate | null
 ): N8nTourVideoPayload {
   // Sort images by order and extract URLs
   const sortedImages = [...images].sort((a, b) => a.order - b.order);
   const imagePayload = sortedImages.map((img) => ({
     imageurl: getImageUrl(img),
   }));
+  const heroImage = pickHeroImage(sortedImages);
 
   // Extract script content for TTS (sanitized for pronunciation)
+  const lexicon = pronunciation?.entries ?? [];
+  const language = styleOptions.narrationLanguage || "en";
   const webhookResponse = scriptSections
     .sort((a, b) => a.order - b.order)
-    .map((section) => sanitizeForTts(section.content));
+    .map((section) => sanitizeForTts(section.content, lexicon, language));
+
+  // MLS narration: closing CTA dropped, agent mentions removed. Blank
+  // entries keep indices aligned with webhookResponse and sectionImageMapping.
+  const unbrandedWebhookResponse = styleOptions.mlsDualOutput
+    ? getMlsSafeScript(scriptSections, propertyData).map((section) =>
+        sanitizeForTts(section.content, lexicon, language)
+      )
+    : undefined;
 
   // Determine music URL and beat data
   const musicUrl = musicTrack?.url || getDefaultMusicUrl();
@@ -467,7 +523,11 @@ export function transformWizardToN8n(
   // This tells n8n which images belong to which narration section
   // n8n uses this to reorder video clips so each section's images are contiguous
   const sortedSections = [...scriptSections].sort((a, b) => a.order - b.order);
-  const sectionToImageMap = mapImagesToSections(sortedImages, sortedSections);
+  const sectionToImageMap = mapImagesToSections(
+    sortedImages,
+    sortedSections,
+    styleOptions.sectionTemplate?.sections ?? getPropertyTypeProfile(propertyData.propertyType).sections
+  );
   const sectionImageMapping = sortedSections.map((section, idx) => {
     const imageIds = sectionToImageMap.get(section.id) || [];
     // Convert image IDs to sorted array indices
@@ -477,8 +537,7 @@ export function transformWizardToN8n(
       .filter((i) => i >= 0);
 
     // Calculate per-section word count for reference
-    const words = section.content.split(/\s+/).filter((w) => w.length > 0);
-    const wordCount = words.length;
+    const wordCount = countScriptWords(section.content, styleOptions.narrationLanguage);
 
     return {
       sectionIndex: idx,
@@ -490,6 +549,7 @@ export function transformWizardToN8n(
 
   return {
     images: imagePayload,
+    heroImageUrl: heroImage ? getImageUrl(heroImage) : undefined,
     imageTiming,
     email: userEmail,
     title: generateVideoTitle(propertyData),
@@ -509,7 +569,8 @@ export function transformWizardToN8n(
     bathroomCount: propertyData.bathrooms?.toString() || "",
     lotSize: formatLotSize(propertyData),
     propertyType: propertyData.propertyType || "",
-    preferredTone: "engaging", // Default tone, could be made configurable
+    preferredTone: styleOptions.narrationTone || "luxury", // Same persona as the script, for titles and captions
+    language,
     useMusic: styleOptions.musicEnabled ? "yes" : "no",
     webhookResponse,
     // Agent branding for closing card
@@ -521,9 +582,14 @@ export function transformWizardToN8n(
     logoUrl: propertyData.agentLogoUrl || "",
     headshotUrl: propertyData.agentPhotoUrl || "",
     // Estimated narration duration for n8n timing calculations (fallback)
-    estimatedNarrationDuration: estimateNarrationDuration(scriptSections),
+    estimatedNarrationDuration: estimateNarrationDuration(scriptSections, language, speakingRate),
     // Section-to-image mapping for anchored timing (which images play during which narration)
     sectionImageMapping,
+    aspectRatios: normalizeAspectRatios(styleOptions.aspectRatios),
+    captionStyle: styleOptions.captionStyle || "none",
+    mlsDualOutput: !!styleOptions.mlsDualOutput,
+    unbrandedWebhookResponse,
+    sectionTemplate: styleOptions.sectionTemplate,
   };
 }
 
@@ -1,4 +1,6 @@
 import OpenAI from "openai";
+import { PROPERTY_TYPE_PROFILES, type PropertyTypeProfile } from "@/lib/script";
+import type { ImageClutter } from "@/lib/image-quality";
 
 /**
  * Get OpenAI client instance.
@@ -6,7 +8,7 @@ import OpenAI from "openai";
  */
 let openaiClient: OpenAI | null = null;
 
-function getOpenAI(): OpenAI {
+export function getOpenAI(): OpenAI {
   if (!openaiClient) {
     openaiClient = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
@@ -47,55 +49,63 @@ export interface AnalyzedImage {
   label: string;        // AI-generated descriptive label (editable by user)
   roomType: RoomType;   // Broad category for video sequencing
   features: string[];   // Notable features for script generation
+  clutter?: ImageClutter; // How busy the space looks (photo quality)
 }
 
+const CLUTTER_LEVELS: ImageClutter[] = ["low", "medium", "high"];
+
 /**
  * Analyze real estate images using GPT-4o Vision.
  * Returns descriptive labels and features for each image.
  *
  * @param imageUrls - Array of publicly accessible image URLs
- * @returns Array of analyzed images with labels and features
+ * @param profile - Listing's property type profile; limits the room types
+ *   the model may assign (default: residential)
+ * @returns Array of analyzed images with labels, features and clutter
  */
 export async function analyzeImages(
-  imageUrls: { url: string; filename: string }[]
+  imageUrls: { url: string; filename: string }[],
+  profile: PropertyTypeProfile = PROPERTY_TYPE_PROFILES.residential
 ): Promise<AnalyzedImage[]> {
   if (imageUrls.length === 0) {
     return [];
   }
 
+  const roomTypes = profile.roomTypes as RoomType[];
+  const isResidential = roomTypes.includes("master_bedroom");
+
   // Build the content array with all images
   const imageContents: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
     {
       type: "text",
-      text: `You are a luxury real estate marketing expert analyzing property photos for a video tour.
+      text: `You are a luxury real estate marketing expert analyzing photos of a ${profile.label} listing for a video tour.
 
 For each image, provide:
 1. A descriptive label (2-5 words) that captures what makes this space special
    - Be specific: "Master Suite with Coffered Ceiling" not just "Bedroom"
-   - Highlight unique features: "Gourmet Kitchen with Marble Island", "Private Dock with Boat Lift"
+   - Highlight unique features: "Gourmet Kitchen with Marble Island", "Private Dock with Boat Lift"${isResidential ? `
    - For bedrooms: distinguish "Master Bedroom/Suite" from "Guest Bedroom", "Kids Room", etc.
-   - For luxury amenities: "Home Theater", "Wine Cellar", "Personal Gym", "Walk-in Closet", "Game Room"
+   - For luxury amenities: "Home Theater", "Wine Cellar", "Personal Gym", "Walk-in Closet", "Game Room"` : ""}
 
-2. A room type for video sequencing (one of: exterior, entry, living, kitchen, dining, master_bedroom, guest_bedroom, bedroom, bathroom, home_office, outdoor, gym, media_room, walk_in_closet, laundry, wine_cellar, game_room, other)
-   - Use gym for fitness/exercise rooms
-   - Use media_room for home theaters/movie rooms
-   - Use walk_in_closet for dedicated closet spaces
-   - Use wine_cellar for wine storage areas
-   - Use game_room for recreation/game rooms
+2. A room type for video sequencing (one of: ${roomTypes.join(", ")})
+${profile.roomTypeHints.map((hint) => `   - ${hint}`).join("\n")}
 
 3. Notable features that should be mentioned in narration (2-4 bullet points)
 
+4. How cluttered the space looks: "low" (clean, staged), "medium" (lived-in) or "high" (personal items, mess or equipment that distract from the space)
+
 Respond with a JSON array where each element has:
 - "index": the 0-based index of the image
 - "label": descriptive label for this space
 - "roomType": one of the room types listed above
 - "features": array of notable features as strings
+- "clutter": "low", "medium" or "high"
 
 Example response:
 [
-  {"index": 0, "label": "Mediterranean Villa Exterior", "roomType": "exterior", "features": ["Spanish tile roof", "Circular driveway", "Mature palm trees"]},
-  {"index": 1, "label": "Grand Foyer with Chandelier", "roomType": "entry", "features": ["Double-height ceiling", "Crystal chandelier", "Marble flooring"]},
-  {"index": 2, "label": "Master Suite with Ocean View", "roomType": "master_bedroom", "features": ["Floor-to-ceiling windows", "Private balcony", "Walk-in closet"]}
+  {"index": 0, "label": "Mediterranean Villa Exterior", "roomType": "exterior", "features": ["Spanish tile roof", "Circular driveway", "Mature palm trees"], "clutter": "low"},
+  {"index": 1, "label": "Grand Foyer with Chandelier", "roomType": "entry", "features": ["Double-height ceiling", "Crystal chandelier", "Marble flooring"], "clutter": "low"},
+  {"index": 2, "label": "Master Suite with Ocean View", "roomType": "master_bedroom", "features": ["Floor-to-ceiling windows", "Private balcony", "Walk-in closet"], "clutter": "medium"}
 ]
 
 Now analyze these ${imageUrls.length} property images:`,
@@ -138,6 +148,7 @@ Now analyze these ${imageUrls.length} property images:`,
       label: string;
       roomType: RoomType;
       features: string[];
+      clutter?: string;
     }[];
 
     // Map analyses back to images
@@ -147,8 +158,10 @@ Now analyze these ${imageUrls.length} property images:`,
         url: img.url,
         filename: img.filename,
         label: analysis?.label || `Image ${idx + 1}`,
-        roomType: analysis?.roomType || "other",
+        // Room types outside the listing's profile fall back to other
+        roomType: analysis && roomTypes.includes(analysis.roomType) ? analysis.roomType : "other",
         features: analysis?.features || [],
+        clutter: CLUTTER_LEVELS.find((level) => level === analysis?.clutter),
       };
     });
   } catch (error) {
@@ -0,0 +1,32 @@
+/**
+ * Video Orchestrator Module
+ *
+ * Selects the render orchestrator from VIDEO_ORCHESTRATOR:
+ * - n8n (default): hosted "Youtube Video" workflow
+ * - local: in-repo pipeline driving the ffmpeg-service
+ */
+
+import { n8nOrchestrator } from "./n8n";
+import { localOrchestrator } from "./local";
+import type { OrchestratorName, VideoOrchestrator } from "./types";
+
+const ORCHESTRATORS: Record<OrchestratorName, VideoOrchestrator> = {
+  n8n: n8nOrchestrator,
+  local: localOrchestrator,
+};
+
+/**
+ * Get the configured video orchestrator.
+ * Unknown values fall back to n8n.
+ */
+export function getVideoOrchestrator(): VideoOrchestrator {
+  const name = process.env.VIDEO_ORCHESTRATOR as OrchestratorName | undefined;
+  return (name && ORCHESTRATORS[name]) || n8nOrchestrator;
+}
+
+export type {
+  OrchestratorName,
+  OrchestratorTriggerOptions,
+  OrchestratorResponse,
+  VideoOrchestrator,
+} from "./types";
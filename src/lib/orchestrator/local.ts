@@ -0,0 +1,181 @@
+/**
+ * Local Orchestrator
+ *
+ * Runs the render pipeline in-process against the ffmpeg-service so a full
+ * tour can be rendered without n8n. AI providers are replaced by stand-ins:
+ * - motion clips: Ken Burns pan/zoom over each photo (/kenburns)
+ * - TTS: silent narration sized to each script section (/narration-placeholder)
+ *
+ * With mlsDualOutput a second, unbranded render is made from the same clips
+ * using the MLS narration and no end card.
+ *
+ * The pipeline runs after the response is sent and reports progress through
+ * videos.status, the same way the n8n workflow's callbacks do. Captions
+ * and social formats are handled by finalizeRender, as for n8n renders.
+ */
+
+import { after } from "next/server";
+import type { N8nTourVideoPayload } from "@/lib/n8n";
+import { createServiceRoleClient } from "@/lib/supabase/service";
+import {
+  appendEndCard,
+  finalizeRender,
+  getFfmpegServiceUrl,
+  mergeClips,
+  mixMusic,
+  renderKenBurnsClip,
+  renderPlaceholderNarration,
+  type FfmpegStageResult,
+  type KenBurnsDirection,
+} from "@/lib/ffmpeg";
+import type { VideoOrchestrator } from "./types";
+
+/**
+ * Clip length per image when the payload has no beat-synced timing.
+ * Matches the Kling clip length used by the n8n workflow.
+ */
+const DEFAULT_CLIP_SECONDS = 5;
+
+/**
+ * Moves cycled across clips so consecutive shots don't repeat.
+ */
+const KEN_BURNS_SEQUENCE: KenBurnsDirection[] = ["zoom-in", "pan-right", "zoom-out", "pan-left"];
+
+/**
+ * Clip durations, stretched so the video covers the estimated narration.
+ */
+function getClipTimings(payload: N8nTourVideoPayload): Array<{ imageUrl: string; duration: number }> {
+  const timings = payload.imageTiming?.length
+    ? payload.imageTiming.map((t) => ({ imageUrl: t.imageurl, duration: t.duration }))
+    : payload.images.map((img) => ({ imageUrl: img.imageurl, duration: DEFAULT_CLIP_SECONDS }));
+
+  const total = timings.reduce((sum, t) => sum + t.duration, 0);
+  const narration = payload.estimatedNarrationDuration ?? 0;
+  if (total === 0 || narration <= total) return timings;
+
+  const scale = narration / total;
+  return timings.map((t) => ({ ...t, duration: t.duration * scale }));
+}
+
+/**
+ * Run every stage for one video and record the outcome on its row.
+ */
+async function runLocalPipeline(videoId: string, payload: N8nTourVideoPayload): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const setStatus = (status: string) =>
+    supabase.from("videos").update({ status }).eq("id", videoId);
+
+  try {
+    // 1. Motion clips - sequential, the ffmpeg-service is CPU bound
+    await setStatus("generating_motion");
+    const clipUrls: string[] = [];
+    const timings = getClipTimings(payload);
+    for (let i = 0; i < timings.length; i++) {
+      const clip = await renderKenBurnsClip({
+        ...timings[i],
+        direction: KEN_BURNS_SEQUENCE[i % KEN_BURNS_SEQUENCE.length],
+      });
+      clipUrls.push(clip.url);
+    }
+
+    // 2. Narration, one track per script section, played back to back
+    await setStatus("generating_audio");
+    const audioUrls: string[] = [];
+    const sectionAudioUrls = new Map<string, string>();
+    const narrationTimings: Array<{ start: number; duration: number }> = [];
+    let narrationEnd = 0;
+    for (const text of payload.webhookResponse || []) {
+      if (!text.trim()) {
+        narrationTimings.push({ start: narrationEnd, duration: 0 });
+        continue;
+      }
+      const narration = await renderPlaceholderNarration({ text });
+      audioUrls.push(narration.url);
+      sectionAudioUrls.set(text, narration.url);
+      narrationTimings.push({ start: narrationEnd, duration: narration.duration });
+      narrationEnd += narration.duration;
+    }
+
+    // 3. Merge, music and end card
+    await setStatus("rendering");
+    const mixBed = async (merged: FfmpegStageResult) =>
+      payload.useMusic === "yes" && payload.music
+        ? mixMusic({ videoUrl: merged.url, musicUrl: payload.music })
+        : merged;
+
+    let result = await mixBed(await mergeClips({ clipUrls, audioUrls }));
+
+    result = await appendEndCard({
+      videoUrl: result.url,
+      lines: [
+        payload.agentName,
+        payload.brandName,
+        payload.agentPhone,
+        payload.agentEmail,
+        payload.agentCta,
+      ].filter(Boolean),
+      headshotUrl: payload.headshotUrl || undefined,
+      logoUrl: payload.logoUrl || undefined,
+    });
+
+    // 4. Unbranded MLS version - reuses narration for unchanged sections
+    let unbrandedUrl: string | null = null;
+    if (payload.mlsDualOutput && payload.unbrandedWebhookResponse) {
+      const mlsAudioUrls: string[] = [];
+      for (const text of payload.unbrandedWebhookResponse) {
+        if (!text.trim()) continue;
+        mlsAudioUrls.push(
+          sectionAudioUrls.get(text) ?? (await renderPlaceholderNarration({ text })).url
+        );
+      }
+      const unbranded = await mixBed(await mergeClips({ clipUrls, audioUrls: mlsAudioUrls }));
+      unbrandedUrl = unbranded.url;
+    }
+
+    await supabase
+      .from("videos")
+      .update({
+        // Hero exterior first, else the opening image
+        thumbnail_url: payload.heroImageUrl ?? payload.images[0]?.imageurl ?? null,
+        duration_seconds: Math.round(result.duration),
+      })
+      .eq("id", videoId);
+
+    // 5. Captions, completion and vertical/square versions for social
+    await finalizeRender(videoId, { videoUrl: result.url, narrationTimings, unbrandedUrl });
+  } catch (error) {
+    console.error(`Local pipeline failed for video ${videoId}:`, error);
+    await supabase
+      .from("videos")
+      .update({
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Local pipeline failed",
+      })
+      .eq("id", videoId);
+  }
+}
+
+export const localOrchestrator: VideoOrchestrator = {
+  name: "local",
+  getEndpoint: () => getFfmpegServiceUrl(),
+  trigger: async (payload) => {
+    const webhookUrl = getFfmpegServiceUrl();
+
+    if (!payload.videoId) {
+      return {
+        success: false,
+        webhookUrl,
+        error: "Local pipeline requires payload.videoId",
+      };
+    }
+
+    const videoId = payload.videoId;
+    after(() => runLocalPipeline(videoId, payload));
+
+    return {
+      success: true,
+      webhookUrl,
+      executionId: `local-${videoId}`,
+    };
+  },
+};
@@ -0,0 +1,15 @@
+/**
+ * n8n Orchestrator
+ *
+ * Default implementation: hands the payload to the hosted n8n
+ * "Youtube Video" workflow, which calls /api/videos/complete when done.
+ */
+
+import { buildWebhookUrl, triggerYoutubeVideo } from "@/lib/n8n";
+import type { VideoOrchestrator } from "./types";
+
+export const n8nOrchestrator: VideoOrchestrator = {
+  name: "n8n",
+  getEndpoint: (options) => buildWebhookUrl("youtubeVideo", options?.isTest),
+  trigger: (payload, options) => triggerYoutubeVideo(payload, options),
+};
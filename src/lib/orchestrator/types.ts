@@ -0,0 +1,42 @@
+/**
+ * Orchestrator Types
+ *
+ * A video orchestrator takes the submitted tour payload and drives the
+ * render stages (motion clips, TTS, merge, music, end card) to a finished
+ * video, reporting back by updating the videos row.
+ */
+
+import type { N8nTourVideoPayload, N8nWebhookResponse } from "@/lib/n8n";
+
+/**
+ * Available orchestrator implementations, selected by VIDEO_ORCHESTRATOR.
+ */
+export type OrchestratorName = "n8n" | "local";
+
+/**
+ * Options passed through to the orchestrator when triggering a render.
+ */
+export interface OrchestratorTriggerOptions {
+  /** Use the n8n test webhook (ignored by the local pipeline) */
+  isTest?: boolean;
+}
+
+/**
+ * Result of triggering a render. Same shape as the n8n webhook response
+ * so callers can store executionId/webhookUrl regardless of implementation.
+ */
+export type OrchestratorResponse = N8nWebhookResponse;
+
+/**
+ * Pluggable render orchestrator.
+ */
+export interface VideoOrchestrator {
+  name: OrchestratorName;
+  /** Where renders are sent - stored on the video record for debugging */
+  getEndpoint: (options?: OrchestratorTriggerOptions) => string;
+  /** Start a render; payload.videoId must be set for completion updates */
+  trigger: (
+    payload: N8nTourVideoPayload,
+    options?: OrchestratorTriggerOptions
+  ) => Promise<OrchestratorResponse>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Pronunciation Module
+ *
+ * Per-user and per-team pronunciation dictionary applied to narration
+ * before TTS, optionally mirrored to ElevenLabs.
+ */
+
+export {
+  MAX_REPLACEMENT_LENGTH,
+  MAX_TERM_LENGTH,
+  PRONUNCIATION_ENTRY_COLUMNS,
+  PRONUNCIATION_KIND_LABELS,
+  applyPronunciationLexicon,
+  getLexiconOwnerFilter,
+  mergeLexicons,
+  parsePronunciationInput,
+  toPronunciationEntry,
+  type PronunciationEntry,
+  type PronunciationKind,
+  type PronunciationScope,
+} from "./lexicon";
@@ -0,0 +1,153 @@
+/**
+ * Pronunciation Lexicon
+ *
+ * Terms TTS gets wrong (street names, HOA names, brokerage brands) and
+ * what it should read instead. Entries are applied to narration just
+ * before it is sent to TTS, so captions and the stored script keep the
+ * original spelling.
+ */
+
+/**
+ * respelling: phonetic spelling of the same word ("Tchoupitoulas" → "chop-ih-TOO-lus")
+ * alias: different wording read in its place ("HOA" → "H O A")
+ */
+export type PronunciationKind = "respelling" | "alias";
+
+/**
+ * Personal entries apply to one user; team entries to everyone on the team.
+ */
+export type PronunciationScope = "user" | "team";
+
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  replacement: string;
+  kind: PronunciationKind;
+  scope: PronunciationScope;
+  updatedAt: string;
+}
+
+export const PRONUNCIATION_KIND_LABELS: Record<PronunciationKind, string> = {
+  respelling: "Phonetic respelling",
+  alias: "Alias",
+};
+
+/** Length limits, matching the pronunciation_entries check constraints */
+export const MAX_TERM_LENGTH = 100;
+export const MAX_REPLACEMENT_LENGTH = 200;
+
+/**
+ * Columns selected for lexicon entries.
+ */
+export const PRONUNCIATION_ENTRY_COLUMNS = "id, user_id, team_id, term, replacement, kind, updated_at";
+
+/**
+ * Map a pronunciation_entries row selected with PRONUNCIATION_ENTRY_COLUMNS.
+ */
+export function toPronunciationEntry(row: {
+  id: string;
+  user_id: string | null;
+  team_id: string | null;
+  term: string;
+  replacement: string;
+  kind: string;
+  updated_at: string;
+}): PronunciationEntry {
+  return {
+    id: row.id,
+    term: row.term,
+    replacement: row.replacement,
+    kind: row.kind === "alias" ? "alias" : "respelling",
+    scope: row.team_id ? "team" : "user",
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * PostgREST `or` filter selecting a user's personal entries and their
+ * team's entries.
+ */
+export function getLexiconOwnerFilter(userId: string, teamId: string | null | undefined): string {
+  return teamId ? `user_id.eq.${userId},team_id.eq.${teamId}` : `user_id.eq.${userId}`;
+}
+
+/**
+ * Validate a create/update request body.
+ *
+ * @returns The cleaned fields, or an error message
+ */
+export function parsePronunciationInput(
+  body: unknown
+): { term: string; replacement: string; kind: PronunciationKind } | { error: string } {
+  const input = (body || {}) as { term?: unknown; replacement?: unknown; kind?: unknown };
+  const term = typeof input.term === "string" ? input.term.trim() : "";
+  const replacement = typeof input.replacement === "string" ? input.replacement.trim() : "";
+
+  if (!term || !replacement) {
+    return { error: "Term and pronunciation are required" };
+  }
+  if (term.length > MAX_TERM_LENGTH || replacement.length > MAX_REPLACEMENT_LENGTH) {
+    return { error: `Terms are limited to ${MAX_TERM_LENGTH} characters, pronunciations to ${MAX_REPLACEMENT_LENGTH}` };
+  }
+  if (input.kind !== undefined && input.kind !== "respelling" && input.kind !== "alias") {
+    return { error: "kind must be respelling or alias" };
+  }
+
+  return { term, replacement, kind: (input.kind as PronunciationKind) ?? "respelling" };
+}
+
+/**
+ * Effective lexicon for a user: personal entries override team entries
+ * with the same term (case-insensitive).
+ *
+ * @returns Entries ordered longest term first, the order they are applied in
+ */
+export function mergeLexicons(entries: PronunciationEntry[]): PronunciationEntry[] {
+  const byTerm = new Map<string, PronunciationEntry>();
+  for (const entry of entries) {
+    const key = entry.term.toLowerCase();
+    const existing = byTerm.get(key);
+    if (!existing || (existing.scope === "team" && entry.scope === "user")) {
+      byTerm.set(key, entry);
+    }
+  }
+  return [...byTerm.values()].sort((a, b) => b.term.length - a.term.length);
+}
+
+/**
+ * Escape a literal for use inside a RegExp.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replace lexicon terms in narration. Longer terms are matched first so
+ * "Tchoupitoulas Street" wins over "Tchoupitoulas", and text that has
+ * already been replaced is never matched again.
+ *
+ * @param text - Narration text
+ * @param entries - Lexicon entries (merged with mergeLexicons)
+ * @returns Text with each term replaced by its pronunciation
+ */
+export function applyPronunciationLexicon(text: string, entries: PronunciationEntry[]): string {
+  const ordered = [...entries].sort((a, b) => b.term.length - a.term.length);
+  if (ordered.length === 0) return text;
+
+  // One alternation so each position is replaced at most once
+  const lookup = new Map(ordered.map((entry) => [entry.term.toLowerCase(), entry.replacement]));
+  const pattern = new RegExp(
+    ordered
+      .map((entry) => {
+        const escaped = escapeRegExp(entry.term);
+        // Word boundaries only where the term starts/ends with a word character
+        const start = /^\w/.test(entry.term) ? "\\b" : "";
+        const end = /\w$/.test(entry.term) ? "\\b" : "";
+        return `${start}${escaped}${end}`;
+      })
+      .join("|"),
+    "gi"
+  );
+
+  return text.replace(pattern, (match) => lookup.get(match.toLowerCase()) ?? match);
+}
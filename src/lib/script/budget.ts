@@ -0,0 +1,121 @@
+/**
+ * Script Word Budgets
+ *
+ * Timing model that turns each section's footage into a word budget so
+ * narration fills the video without running past the end card.
+ */
+
+import type { ScriptSectionDefinition, ScriptSectionType } from "@/lib/wizard/types";
+import { SCRIPT_SECTION_CONFIG } from "./sections";
+import type { ScriptImageInput } from "./types";
+
+/**
+ * Video clip duration from Kling AI (seconds per image).
+ */
+export const KLING_CLIP_DURATION = 5;
+
+/**
+ * Words per minute for TTS narration.
+ * Using 160 WPM (conservative estimate) - actual ElevenLabs speed is 180-200 WPM.
+ * This leaves room for natural pauses and punctuation-based slowdowns.
+ * Voices with measured samples use their own rate instead (see calibration.ts).
+ */
+export const TTS_WORDS_PER_MINUTE = 160;
+
+/**
+ * Seconds reserved for end card (agent branding overlay).
+ * Narration should finish before this to avoid being cut off.
+ */
+export const END_CARD_SECONDS = 8;
+
+/**
+ * Timing constants for audio-video sync.
+ * These match the n8n workflow settings for consistent timing.
+ */
+const INTRO_SILENCE = 2;      // 2s silence before first narration
+const SECTION_BUFFER = 0.5;   // 0.5s buffer between sections
+const BREATHING_ROOM = 2.0;   // 2s allowed overflow (compromise for bleed-over)
+
+/**
+ * Maximum total words for entire script.
+ * Reduced to prevent audio timing issues from overly long scripts.
+ * 200 words at 160 WPM = 75 seconds - comfortable for 50-60s videos.
+ */
+export const MAX_TOTAL_WORDS = 200;
+
+/**
+ * Calculate word budget for each section based on image count and timing constraints.
+ * This ensures narration duration matches available video footage with proper sync.
+ *
+ * Timing model:
+ * - Opening: loses INTRO_SILENCE (2s) to silence before narration starts
+ * - Other sections: lose SECTION_BUFFER (0.5s) for transitions
+ * - All sections: gain BREATHING_ROOM (1.5s) for richer narration with controlled overflow
+ *
+ * Formula: availableSeconds × (160 WPM / 60) = words
+ * Other languages pass their own rate (see LANGUAGE_PROFILES); budgets are
+ * then in that language's unit.
+ */
+export interface SectionWordBudget {
+  type: ScriptSectionType;
+  title: string;
+  imageCount: number;
+  clipSeconds: number;
+  targetWords: number;
+}
+
+export function calculateSectionWordBudgets(
+  sectionGroups: Map<ScriptSectionType, ScriptImageInput[]>,
+  maxTotalWords: number,
+  wordsPerMinute: number = TTS_WORDS_PER_MINUTE,
+  structure: ScriptSectionDefinition[] = SCRIPT_SECTION_CONFIG
+): SectionWordBudget[] {
+  // First pass: calculate raw budgets with timing constraints
+  const rawBudgets = structure.map((config) => {
+    const imagesInSection = sectionGroups.get(config.type) || [];
+    const imageCount = imagesInSection.length;
+
+    // Closing section has no images but needs ~6 seconds for CTA
+    const clipSeconds = config.type === "closing"
+      ? 6
+      : Math.max(imageCount * KLING_CLIP_DURATION, 0);
+
+    // Calculate AVAILABLE time accounting for timing constraints + breathing room
+    let availableSeconds: number;
+    if (config.type === "opening") {
+      // Opening loses 2s to intro silence, but gains breathing room
+      availableSeconds = Math.max(clipSeconds - INTRO_SILENCE + BREATHING_ROOM, 0);
+    } else {
+      // Other sections lose 0.5s buffer, but gain breathing room
+      availableSeconds = Math.max(clipSeconds - SECTION_BUFFER + BREATHING_ROOM, 0);
+    }
+
+    // Calculate target words: availableSeconds × (words per minute / 60)
+    const exactWords = availableSeconds * (wordsPerMinute / 60);
+    // Round to nearest 5, with minimum of 10 for non-empty sections
+    const targetWords = Math.max(
+      Math.round(exactWords / 5) * 5,
+      imageCount > 0 || config.type === "closing" ? 10 : 0
+    );
+
+    return {
+      type: config.type,
+      title: config.title,
+      imageCount,
+      clipSeconds,
+      targetWords,
+    };
+  });
+
+  // Second pass: enforce hard cap by scaling down if needed
+  const totalRawWords = rawBudgets.reduce((sum, b) => sum + b.targetWords, 0);
+  if (totalRawWords > maxTotalWords) {
+    const scaleFactor = maxTotalWords / totalRawWords;
+    return rawBudgets.map((budget) => ({
+      ...budget,
+      targetWords: Math.max(Math.round(budget.targetWords * scaleFactor / 5) * 5, 10),
+    }));
+  }
+
+  return rawBudgets;
+}
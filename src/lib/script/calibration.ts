@@ -0,0 +1,126 @@
+/**
+ * Voice Speaking-Rate Calibration
+ *
+ * Measured TTS durations per voice (voice_speech_samples, aggregated by
+ * the voice_speaking_rates view from rendered narration only) replace the
+ * fixed speaking rate once a voice has enough samples. The calibrated profile drives both the script
+ * word budgets and the payload's estimatedNarrationDuration, so the two
+ * always agree.
+ */
+
+import { getLanguageProfile, type LanguageProfile } from "./languages";
+
+/**
+ * Samples needed before a voice's measured rate is trusted.
+ */
+export const MIN_CALIBRATION_SAMPLES = 3;
+
+/**
+ * Measured rates are clamped to this range around the language default,
+ * so a few bad samples (silence, truncated audio) can't wreck a budget.
+ */
+const MIN_RATE_FACTOR = 0.7;
+const MAX_RATE_FACTOR = 1.4;
+
+/**
+ * Shortest clip worth recording; very short clips are mostly lead-in silence.
+ */
+const MIN_SAMPLE_SECONDS = 2;
+
+export interface VoiceSpeakingRate {
+  voiceId: string;
+  language: string;
+  wordsPerMinute: number; // In the language's budget unit
+  sampleCount: number;
+}
+
+/**
+ * Columns selected from voice_speaking_rates.
+ */
+export const VOICE_RATE_COLUMNS = "voice_id, language, words_per_minute, sample_count";
+
+/**
+ * Map a voice_speaking_rates row selected with VOICE_RATE_COLUMNS.
+ */
+export function toVoiceSpeakingRate(row: {
+  voice_id: string;
+  language: string;
+  words_per_minute: number | string;
+  sample_count: number;
+}): VoiceSpeakingRate {
+  return {
+    voiceId: row.voice_id,
+    language: row.language,
+    wordsPerMinute: Number(row.words_per_minute),
+    sampleCount: row.sample_count,
+  };
+}
+
+/**
+ * Language profile adjusted to a voice's measured speaking rate. Budgets
+ * keep the same durations (a 75-second script stays 75 seconds) but hold
+ * more or fewer words. Falls back to the language defaults when the voice
+ * has too few samples.
+ *
+ * @param language - Narration language
+ * @param rate - The voice's measured rate, if any
+ */
+export function getCalibratedLanguageProfile(
+  language: string | undefined,
+  rate?: VoiceSpeakingRate | null
+): LanguageProfile {
+  const profile = getLanguageProfile(language);
+  if (!rate || rate.sampleCount < MIN_CALIBRATION_SAMPLES || !Number.isFinite(rate.wordsPerMinute)) {
+    return profile;
+  }
+
+  const wordsPerMinute = Math.min(
+    Math.max(rate.wordsPerMinute, profile.wordsPerMinute * MIN_RATE_FACTOR),
+    profile.wordsPerMinute * MAX_RATE_FACTOR
+  );
+  const scale = wordsPerMinute / profile.wordsPerMinute;
+
+  return {
+    ...profile,
+    wordsPerMinute: Math.round(wordsPerMinute),
+    maxTotalWords: Math.round(profile.maxTotalWords * scale),
+    maxSectionWords: Math.round(profile.maxSectionWords * scale),
+  };
+}
+
+/**
+ * Build a voice_speech_samples row from a measured clip, or null when the
+ * clip is too short or empty to say anything about the voice's pace.
+ *
+ * @param voiceId - Voice that read the text
+ * @param wordCount - Length of the script as written, in the language's
+ *   budget unit (countScriptWords), not of the normalized TTS text
+ * @param durationSeconds - Measured audio duration
+ * @param language - Narration language
+ * @param source - Where the measurement came from; previews are stored
+ *   but excluded from voice_speaking_rates
+ */
+export function toSpeechSample(
+  voiceId: string,
+  wordCount: number,
+  durationSeconds: number,
+  language: string | undefined,
+  source: "preview" | "render"
+): {
+  voice_id: string;
+  language: string;
+  word_count: number;
+  duration_seconds: number;
+  source: "preview" | "render";
+} | null {
+  if (!(wordCount > 0) || !(durationSeconds >= MIN_SAMPLE_SECONDS)) {
+    return null;
+  }
+  return {
+    voice_id: voiceId,
+    language: language || "en",
+    word_count: Math.round(wordCount),
+    duration_seconds: durationSeconds,
+    source,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Script Module
+ *
+ * Shared pieces of narration script generation: section grouping and
+ * templates, property type profiles, word budgets, prompt rules, narration
+ * tones, languages and voice calibration used by the /api/script routes.
+ */
+
+// Section grouping and transitions
+export {
+  SCRIPT_SECTION_CONFIG,
+  analyzeTransitions,
+  getRoomGroup,
+  getSectionForRoomType,
+  getStateName,
+  groupImagesBySection,
+  type TransitionPoint,
+} from "./sections";
+
+// User-defined section structures
+export {
+  MAX_SECTION_APPROACH_LENGTH,
+  MAX_SECTION_TITLE_LENGTH,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_SECTIONS,
+  MIN_TEMPLATE_SECTIONS,
+  SECTION_TEMPLATE_COLUMNS,
+  SECTION_TEMPLATE_PRESETS,
+  getSectionStructure,
+  parseSectionStructure,
+  parseSectionTemplateInput,
+  toSectionKey,
+  toSectionTemplate,
+  type SectionTemplate,
+} from "./templates";
+
+// Listing-type profiles: details, room types, structure and guidance
+export {
+  PROPERTY_TYPE_PROFILES,
+  formatPropertyFacts,
+  getPropertyTypeProfile,
+  type PropertyDetailField,
+  type PropertyTypeProfile,
+  type PropertyTypeProfileKey,
+} from "./property-types";
+
+// Word budgets and timing constants
+export {
+  END_CARD_SECONDS,
+  KLING_CLIP_DURATION,
+  MAX_TOTAL_WORDS,
+  TTS_WORDS_PER_MINUTE,
+  calculateSectionWordBudgets,
+  type SectionWordBudget,
+} from "./budget";
+
+// Prompt rules shared across script prompts
+export {
+  FORBIDDEN_PATTERNS,
+  NARRATIVE_STYLE_RULES,
+  SECTION_APPROACH,
+  STYLE_RULES,
+  getSectionApproach,
+} from "./prompts";
+
+// Per-language pacing and prompt rules
+export {
+  DEFAULT_NARRATION_LANGUAGE,
+  LANGUAGE_PROFILES,
+  countScriptWords,
+  getLanguageProfile,
+  type LanguageProfile,
+} from "./languages";
+
+// Per-voice speaking rates measured from real TTS audio
+export {
+  MIN_CALIBRATION_SAMPLES,
+  VOICE_RATE_COLUMNS,
+  getCalibratedLanguageProfile,
+  toSpeechSample,
+  toVoiceSpeakingRate,
+  type VoiceSpeakingRate,
+} from "./calibration";
+
+// Tightening over-budget sections to fit the video
+export {
+  AUTO_TIGHTEN_THRESHOLD,
+  findMissingFeatures,
+  findNamedFeatures,
+  findOverBudgetSections,
+  tightenScriptSections,
+  type TightenInputSection,
+  type TightenResult,
+} from "./tighten";
+
+// Narrator persona and per-tone rules
+export {
+  DEFAULT_NARRATION_TONE,
+  TONE_PROFILES,
+  getToneProfile,
+  type ToneProfile,
+} from "./tones";
+
+export type { GeneratedSection, ScriptImageInput, ScriptPropertyInput } from "./types";
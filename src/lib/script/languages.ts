@@ -0,0 +1,100 @@
+/**
+ * Narration Languages
+ *
+ * Per-language pacing and prompt rules. English uses the shared timing
+ * constants; other languages scale them to their TTS speaking rate.
+ * Mandarin is counted in characters, since it isn't written with spaces.
+ */
+
+import { WIZARD_VALIDATION, type NarrationLanguage } from "@/lib/wizard/types";
+import { MAX_TOTAL_WORDS, TTS_WORDS_PER_MINUTE } from "./budget";
+
+export const DEFAULT_NARRATION_LANGUAGE: NarrationLanguage = "en";
+
+export interface LanguageProfile {
+  name: string;            // Used in prompts ("Write natively in ...")
+  unit: "words" | "characters";
+  wordsPerMinute: number;  // TTS pace, in units per minute
+  maxTotalWords: number;   // Whole-script cap, in units
+  maxSectionWords: number; // Per-section warning threshold, in units
+  minSectionChars: number; // Shortest section that still times well
+  rules: string;           // Language-specific writing rules ("" for English)
+}
+
+/**
+ * Scale an English word limit to another language's speaking rate.
+ */
+function scaleLimit(englishLimit: number, wordsPerMinute: number): number {
+  return Math.round((englishLimit * wordsPerMinute) / TTS_WORDS_PER_MINUTE / 5) * 5;
+}
+
+const SPANISH_WPM = 150;
+const MANDARIN_CPM = 250;
+
+export const LANGUAGE_PROFILES: Record<NarrationLanguage, LanguageProfile> = {
+  en: {
+    name: "English",
+    unit: "words",
+    wordsPerMinute: TTS_WORDS_PER_MINUTE,
+    maxTotalWords: MAX_TOTAL_WORDS,
+    maxSectionWords: WIZARD_VALIDATION.MAX_SECTION_WORDS,
+    minSectionChars: WIZARD_VALIDATION.MIN_SECTION_CHARS,
+    rules: "",
+  },
+  es: {
+    name: "Spanish",
+    unit: "words",
+    wordsPerMinute: SPANISH_WPM,
+    maxTotalWords: scaleLimit(MAX_TOTAL_WORDS, SPANISH_WPM),
+    maxSectionWords: scaleLimit(WIZARD_VALIDATION.MAX_SECTION_WORDS, SPANISH_WPM),
+    minSectionChars: WIZARD_VALIDATION.MIN_SECTION_CHARS,
+    rules: `LANGUAGE: SPANISH
+- Write natively in neutral Latin American Spanish - do NOT write in English and translate
+- Address the viewer as "usted"
+- Keep the street address and city exactly as written; say the price naturally ("un millón doscientos mil dólares")
+- Use "recámara" or "dormitorio" consistently, and "baño" for bathrooms`,
+  },
+  zh: {
+    name: "Mandarin Chinese",
+    unit: "characters",
+    wordsPerMinute: MANDARIN_CPM,
+    maxTotalWords: scaleLimit(MAX_TOTAL_WORDS, MANDARIN_CPM),
+    maxSectionWords: scaleLimit(WIZARD_VALIDATION.MAX_SECTION_WORDS, MANDARIN_CPM),
+    minSectionChars: 20,
+    rules: `LANGUAGE: MANDARIN CHINESE
+- Write natively in Simplified Chinese for Mandarin narration - do NOT write in English and translate
+- Word budgets are counted in Chinese characters, not words
+- Keep the street address and city in English as written; give the price in US dollars (美元)
+- Use full-width Chinese punctuation (，。！) so the voice pauses naturally`,
+  },
+};
+
+/**
+ * Language profile for a requested language, falling back to English for
+ * missing or unknown values.
+ */
+export function getLanguageProfile(language: string | undefined): LanguageProfile {
+  return language && Object.hasOwn(LANGUAGE_PROFILES, language)
+    ? LANGUAGE_PROFILES[language as NarrationLanguage]
+    : LANGUAGE_PROFILES[DEFAULT_NARRATION_LANGUAGE];
+}
+
+/** Han characters, counted one per unit for character-based languages */
+const HAN_CHARACTER = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+
+/**
+ * Length of narration in the language's budget unit. Character-based
+ * languages count each Han character plus any Latin words (addresses,
+ * numbers) as one unit apiece.
+ *
+ * @param text - Section narration
+ * @param language - Narration language (default: English)
+ */
+export function countScriptWords(text: string, language?: string): number {
+  if (getLanguageProfile(language).unit === "characters") {
+    const hanCount = text.match(HAN_CHARACTER)?.length ?? 0;
+    const latinWords = text.replace(HAN_CHARACTER, " ").match(/[A-Za-z0-9$][\w$,.'-]*/g)?.length ?? 0;
+    return hanCount + latinWords;
+  }
+  return text.trim().split(/\s+/).filter((w) => w.length > 0).length;
+}
@@ -0,0 +1,57 @@
+/**
+ * Script Prompt Rules
+ *
+ * Narration rules shared by every script prompt, so regenerated sections
+ * match the tone of a fully generated script.
+ */
+
+import type { BuiltInSectionType, ScriptSectionDefinition } from "@/lib/wizard/types";
+
+export const NARRATIVE_STYLE_RULES = `NARRATIVE STYLE (CRITICAL):
+- Write like a property tour HOST guiding someone through the home
+- NEVER list items ("This room has a ceiling fan, a desk, and hardwood floors")
+- Instead, CREATE ATMOSPHERE: "Natural light pours through expansive windows, illuminating warm hardwood floors that lead you deeper into this inviting space"
+- Describe the EXPERIENCE and FEELING, not an inventory
+- Use sensory language: light, warmth, texture, space, flow
+- Connect spaces with movement: "As we move through..." "Continuing into..." "Beyond these doors..."
+- For INTERIORS: Paint a picture of how it FEELS to be in the space`;
+
+export const FORBIDDEN_PATTERNS = `FORBIDDEN PATTERNS:
+- "This room features..." / "This space has..." / "You'll find..."
+- Lists of furniture or fixtures
+- Generic descriptions like "beautiful" without specifics
+- Describing obvious things in photos ("there is a bed in the bedroom")
+- Skipping bathrooms or treating them as less important than bedrooms
+- Describing who should live here ("perfect for young families", "ideal for retirees") or the neighbors ("exclusive neighborhood") - Fair Housing rules require describing the property, not people`;
+
+export const STYLE_RULES = `- Write in SECOND PERSON when appropriate ("As you enter..." "Imagine waking here...")
+- Use SENSORY details: light, warmth, texture, scent, sound
+- Create FLOW between rooms: "Beyond the living area..." "Just steps away..."
+- For BATHROOMS/BEDROOMS: Focus on sanctuary, retreat, renewal - NOT fixtures`;
+
+/**
+ * What each section's narration should do.
+ */
+export const SECTION_APPROACH: Record<BuiltInSectionType, string> = {
+  opening: "Opening: WELCOME viewers, paint the setting - time of day, light quality, neighborhood feel",
+  outdoor: "Outdoor: CREATE the lifestyle EXPERIENCE - imagine hosting, relaxing, entertaining here",
+  living: "Living: GUIDE viewers through with movement - \"As you step in...\" \"The eye is drawn to...\"",
+  private: "Private: MUST describe EVERY IMAGE shown - if there are 2 bathrooms, describe BOTH using their unique features from the labels (dual vanity, jetted tub, marble counters, etc.). Each bedroom AND each bathroom needs narration!",
+  amenities: "Amenities: INSPIRE with possibilities - how these spaces enhance daily life",
+  closing: "Closing: COMPEL action with emotional recap and clear contact info",
+};
+
+/**
+ * Approach line for a section: the template's own approach when it has
+ * one, the built-in approach for the default sections, or a generic
+ * guided-tour line.
+ */
+export function getSectionApproach(section: ScriptSectionDefinition): string {
+  if (section.approach) {
+    return `${section.title}: ${section.approach}`;
+  }
+  return (
+    SECTION_APPROACH[section.type as BuiltInSectionType] ??
+    `${section.title}: GUIDE viewers through these spaces - describe what makes each image distinctive`
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Property Type Profiles
+ *
+ * Not every listing is a furnished house with bedrooms. A profile decides
+ * which details the Data step asks for, which room types image analysis
+ * may assign, the default section structure and the narration guidance
+ * for a listing type. Single family, townhouse, multi-family and other
+ * listings use the residential profile.
+ */
+
+import { ROOM_TYPE_OPTIONS, type RoomType, type ScriptSectionDefinition } from "@/lib/wizard/types";
+import type { ScriptPropertyInput } from "./types";
+
+export type PropertyTypeProfileKey = "residential" | "condo" | "land" | "commercial";
+
+/**
+ * Property details that vary by listing type.
+ */
+export type PropertyDetailField =
+  | "bedrooms"
+  | "bathrooms"
+  | "squareFeet"
+  | "lotSize"
+  | "zoning"
+  | "frontage"
+  | "capRate"
+  | "tenants";
+
+export interface PropertyTypeProfile {
+  label: string;                        // Completes "a ... listing" in prompts
+  detailFields: PropertyDetailField[];  // Shown on the Data step, in order
+  requiredFields: PropertyDetailField[];
+  roomTypes: RoomType[];                // Room types image analysis may assign
+  roomTypeHints: string[];              // How to apply them to this kind of listing
+  sections?: ScriptSectionDefinition[]; // Default structure (the built-in six when omitted)
+  rules: string;                        // Narration guidance ("" for houses)
+}
+
+const ALL_ROOM_TYPES = ROOM_TYPE_OPTIONS.map((option) => option.value);
+
+const RESIDENTIAL_ROOM_TYPE_HINTS = [
+  "Use gym for fitness/exercise rooms",
+  "Use media_room for home theaters/movie rooms",
+  "Use walk_in_closet for dedicated closet spaces",
+  "Use wine_cellar for wine storage areas",
+  "Use game_room for recreation/game rooms",
+];
+
+export const PROPERTY_TYPE_PROFILES: Record<PropertyTypeProfileKey, PropertyTypeProfile> = {
+  residential: {
+    label: "home",
+    detailFields: ["bedrooms", "bathrooms", "squareFeet", "lotSize"],
+    requiredFields: ["bedrooms", "bathrooms", "squareFeet"],
+    roomTypes: ALL_ROOM_TYPES,
+    roomTypeHints: RESIDENTIAL_ROOM_TYPE_HINTS,
+    rules: "",
+  },
+  condo: {
+    label: "condo",
+    detailFields: ["bedrooms", "bathrooms", "squareFeet"],
+    requiredFields: ["bedrooms", "bathrooms", "squareFeet"],
+    roomTypes: ALL_ROOM_TYPES,
+    roomTypeHints: [
+      ...RESIDENTIAL_ROOM_TYPE_HINTS,
+      "Use exterior for the building facade and lobby entrance",
+      "Use outdoor for balconies, terraces, rooftop decks and views",
+      "Shared building spaces (pool, lounge, fitness center) use the matching amenity type",
+    ],
+    sections: [
+      { type: "opening", title: "Opening", roomTypes: ["exterior"] },
+      { type: "the_residence", title: "The Residence", roomTypes: ["entry", "living", "kitchen", "dining", "home_office"] },
+      { type: "private_retreat", title: "Private Retreat", roomTypes: ["master_bedroom", "guest_bedroom", "bedroom", "bathroom", "walk_in_closet", "laundry"] },
+      {
+        type: "building_amenities",
+        title: "Building Amenities",
+        roomTypes: ["gym", "media_room", "game_room", "wine_cellar"],
+        approach: "SHOWCASE shared spaces and services - concierge, fitness, lounges - as part of daily life here",
+      },
+      {
+        type: "views",
+        title: "Views",
+        roomTypes: ["outdoor"],
+        approach: "CAPTURE the views and terraces - skyline, water, light at different times of day",
+      },
+      { type: "closing", title: "Closing", roomTypes: [] },
+    ],
+    rules: `PROPERTY TYPE: CONDO
+- The residence is one home within a building - describe the unit, then the building and its services
+- Floor level, views, light and exposure matter more than the grounds
+- Never describe a private yard, pool or garage unless the property data says the unit has one`,
+  },
+  land: {
+    label: "land",
+    detailFields: ["lotSize", "zoning", "frontage"],
+    requiredFields: ["lotSize", "zoning"],
+    roomTypes: ["exterior", "outdoor", "other"],
+    roomTypeHints: [
+      "Use exterior for the main view of the parcel",
+      "Use outdoor for terrain, trees, water, access roads and boundaries",
+      "Use other for aerial shots, plat maps and surveys",
+      "There are no buildings to tour - label what the land offers, not rooms",
+    ],
+    sections: [
+      { type: "opening", title: "Opening", roomTypes: ["exterior"] },
+      {
+        type: "lot_zoning",
+        title: "Lot & Zoning",
+        roomTypes: ["outdoor", "other"],
+        approach: "DESCRIBE the acreage, terrain, access and utilities from the listing details, and what the zoning allows",
+      },
+      {
+        type: "possibilities",
+        title: "Possibilities",
+        roomTypes: [],
+        approach: "INSPIRE with what could be built here - without promising approvals",
+      },
+      { type: "closing", title: "Closing", roomTypes: [] },
+    ],
+    rules: `PROPERTY TYPE: LAND
+- This is vacant land: there are no rooms, bedrooms or finishes - never invent a house
+- Lead with the facts buyers evaluate: acreage, zoning, road frontage, access, topography, utilities
+- Describe uses the zoning allows in general terms; never promise permits, subdivisions or approvals`,
+  },
+  commercial: {
+    label: "commercial property",
+    detailFields: ["squareFeet", "lotSize", "zoning", "capRate", "tenants"],
+    requiredFields: ["squareFeet"],
+    roomTypes: ["exterior", "entry", "living", "kitchen", "dining", "bathroom", "home_office", "outdoor", "gym", "media_room", "laundry", "other"],
+    roomTypeHints: [
+      "Use exterior for the facade, storefront and signage",
+      "Use entry for lobbies and reception areas",
+      "Use living for the main floor, showroom, retail or open work area",
+      "Use kitchen for commercial kitchens and break rooms, dining for restaurant seating",
+      "Use home_office for private offices, media_room for conference rooms",
+      "Use outdoor for parking, loading docks and yards",
+      "Use other for warehouse, storage and mechanical spaces",
+    ],
+    sections: [
+      { type: "opening", title: "Opening", roomTypes: ["exterior"] },
+      {
+        type: "main_space",
+        title: "Main Space",
+        roomTypes: ["entry", "living", "dining", "kitchen", "other"],
+        approach: "WALK through the primary space - layout, frontage, ceiling height, natural light",
+      },
+      {
+        type: "offices_meeting_rooms",
+        title: "Offices & Meeting Rooms",
+        roomTypes: ["home_office", "media_room", "game_room"],
+      },
+      {
+        type: "facilities",
+        title: "Facilities",
+        roomTypes: ["bathroom", "laundry", "gym", "walk_in_closet", "wine_cellar"],
+      },
+      {
+        type: "parking_access",
+        title: "Parking & Access",
+        roomTypes: ["outdoor"],
+        approach: "COVER parking, loading and how customers and staff get here",
+      },
+      { type: "closing", title: "Closing", roomTypes: [] },
+    ],
+    rules: `PROPERTY TYPE: COMMERCIAL
+- Speak to business owners and investors, not home buyers - no bedrooms, "home" or family life
+- Emphasize square footage, layout, frontage and visibility, parking, zoning and access
+- Mention the cap rate and current tenants exactly as given in the property data; never project returns or lease renewals`,
+  },
+};
+
+/**
+ * Listing property types (the listings.property_type values) with a
+ * profile of their own.
+ */
+const PROFILE_BY_PROPERTY_TYPE: Record<string, PropertyTypeProfileKey> = {
+  condo: "condo",
+  land: "land",
+  commercial: "commercial",
+};
+
+/**
+ * Profile for a listing property type, falling back to residential for
+ * houses and missing or unknown values.
+ */
+export function getPropertyTypeProfile(propertyType: string | undefined): PropertyTypeProfile {
+  const key = propertyType && Object.hasOwn(PROFILE_BY_PROPERTY_TYPE, propertyType)
+    ? PROFILE_BY_PROPERTY_TYPE[propertyType]
+    : "residential";
+  return PROPERTY_TYPE_PROFILES[key];
+}
+
+/**
+ * The property's facts for the prompt, limited to the details its profile
+ * uses ("3 bed | 2 bath | 2,500 sq ft", "5 acres lot | Zoning: R-1").
+ */
+export function formatPropertyFacts(property: ScriptPropertyInput, profile: PropertyTypeProfile): string {
+  const facts: Record<PropertyDetailField, string | null> = {
+    bedrooms: `${property.beds} bed`,
+    bathrooms: `${property.baths} bath`,
+    squareFeet: property.sqft ? `${property.sqft.toLocaleString()} sq ft` : null,
+    lotSize: property.lotSize
+      ? `${property.lotSize.toLocaleString()} ${property.lotSizeUnit === "acres" ? "acres" : "sq ft"} lot`
+      : null,
+    zoning: property.zoning ? `Zoning: ${property.zoning}` : null,
+    frontage: property.frontage ? `${property.frontage.toLocaleString()} ft road frontage` : null,
+    capRate: property.capRate ? `${property.capRate}% cap rate` : null,
+    tenants: property.tenants ? `Tenants: ${property.tenants}` : null,
+  };
+  return profile.detailFields
+    .map((field) => facts[field])
+    .filter(Boolean)
+    .join(" | ");
+}
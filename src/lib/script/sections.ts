@@ -0,0 +1,204 @@
+/**
+ * Script Sections
+ *
+ * How tour images map onto the narration sections (the default six, or a
+ * section template's structure), and the transition hints used when the
+ * tour moves between room groups.
+ */
+
+import type { ScriptSectionDefinition, ScriptSectionType, RoomType } from "@/lib/wizard/types";
+import type { ScriptImageInput } from "./types";
+
+/**
+ * Section configuration for grouping images and generating narrative.
+ *
+ * Flow: Exterior → Outdoor → Living spaces → Private spaces → Amenities → Closing
+ * This creates a natural tour progression:
+ * - Approach the house (curb appeal)
+ * - Show the grounds/outdoor spaces
+ * - Enter and explore living spaces
+ * - Retreat to private bedrooms/bathrooms
+ * - Showcase premium amenities (gym, media room, wine cellar, etc.)
+ * - Call to action
+ */
+export const SCRIPT_SECTION_CONFIG: ScriptSectionDefinition[] = [
+  { type: "opening", title: "Opening", roomTypes: ["exterior"] },
+  { type: "outdoor", title: "Outdoor Living", roomTypes: ["outdoor"] },
+  { type: "living", title: "Living Spaces", roomTypes: ["entry", "living", "kitchen", "dining"] },
+  { type: "private", title: "Private Retreat", roomTypes: ["master_bedroom", "bedroom", "bathroom"] },
+  { type: "amenities", title: "Premium Amenities", roomTypes: ["home_office", "gym", "media_room", "walk_in_closet", "laundry", "wine_cellar", "game_room"] },
+  { type: "closing", title: "Closing", roomTypes: [] }, // No images, CTA only
+];
+
+/**
+ * Room type groups for logical tour segments.
+ */
+const ROOM_GROUPS: Record<string, RoomType[]> = {
+  exterior_approach: ["exterior"],
+  outdoor_amenities: ["outdoor"],
+  interior_main: ["entry", "living", "kitchen", "dining"],
+  interior_private: ["master_bedroom", "bedroom", "bathroom"],
+  premium_amenities: ["home_office", "gym", "media_room", "walk_in_closet", "laundry", "wine_cellar", "game_room"],
+};
+
+/**
+ * Get the logical group for a room type.
+ */
+export function getRoomGroup(roomType: RoomType): string {
+  for (const [group, types] of Object.entries(ROOM_GROUPS)) {
+    if (types.includes(roomType)) return group;
+  }
+  return "other";
+}
+
+/**
+ * Transition phrase suggestions based on room group changes.
+ */
+const TRANSITION_HINTS: Record<string, Record<string, string>> = {
+  exterior_approach: {
+    outdoor_amenities: "As we explore the grounds...",
+    interior_main: "Step inside and discover...",
+    interior_private: "Moving through to the private spaces...",
+    premium_amenities: "The property's exclusive features include...",
+  },
+  outdoor_amenities: {
+    exterior_approach: "Returning to the front...",
+    interior_main: "Now let's head inside...",
+    interior_private: "Inside, the private quarters await...",
+    premium_amenities: "This home also offers premium amenities...",
+  },
+  interior_main: {
+    exterior_approach: "Back outside...",
+    outdoor_amenities: "The outdoor living continues...",
+    interior_private: "The private retreat begins...",
+    premium_amenities: "For entertainment and relaxation...",
+  },
+  interior_private: {
+    exterior_approach: "Stepping back outside...",
+    outdoor_amenities: "The outdoor amenities...",
+    interior_main: "Returning to the living spaces...",
+    premium_amenities: "Beyond the bedrooms, discover...",
+  },
+  premium_amenities: {
+    exterior_approach: "Returning outside...",
+    outdoor_amenities: "The outdoor spaces complement...",
+    interior_main: "Back to the heart of the home...",
+    interior_private: "The private quarters offer...",
+  },
+  other: {
+    exterior_approach: "Moving on...",
+    outdoor_amenities: "Continuing the tour...",
+    interior_main: "Exploring further...",
+    interior_private: "And finally...",
+    premium_amenities: "The amenities include...",
+  },
+};
+
+/**
+ * US state abbreviations to full names.
+ * Used to ensure TTS reads state names correctly (e.g., "FL" → "Florida").
+ */
+const US_STATE_NAMES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", FL: "Florida", GA: "Georgia",
+  HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana", IA: "Iowa",
+  KS: "Kansas", KY: "Kentucky", LA: "Louisiana", ME: "Maine", MD: "Maryland",
+  MA: "Massachusetts", MI: "Michigan", MN: "Minnesota", MS: "Mississippi", MO: "Missouri",
+  MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire", NJ: "New Jersey",
+  NM: "New Mexico", NY: "New York", NC: "North Carolina", ND: "North Dakota", OH: "Ohio",
+  OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania", RI: "Rhode Island", SC: "South Carolina",
+  SD: "South Dakota", TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont",
+  VA: "Virginia", WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+  DC: "Washington D.C.", PR: "Puerto Rico", VI: "Virgin Islands", GU: "Guam",
+};
+
+/**
+ * Convert state abbreviation to full name for TTS pronunciation.
+ * If already a full name or not recognized, returns as-is.
+ */
+export function getStateName(state: string): string {
+  const normalized = state.trim().toUpperCase();
+  return US_STATE_NAMES[normalized] || state;
+}
+
+/**
+ * Transition point between images.
+ */
+export interface TransitionPoint {
+  afterImageIndex: number;
+  fromGroup: string;
+  toGroup: string;
+  hint: string;
+}
+
+/**
+ * Analyze image sequence and identify transition points.
+ */
+export function analyzeTransitions(images: ScriptImageInput[]): TransitionPoint[] {
+  const transitions: TransitionPoint[] = [];
+
+  for (let i = 0; i < images.length - 1; i++) {
+    const currentGroup = getRoomGroup(images[i].roomType);
+    const nextGroup = getRoomGroup(images[i + 1].roomType);
+
+    if (currentGroup !== nextGroup) {
+      const hint =
+        TRANSITION_HINTS[currentGroup]?.[nextGroup] ||
+        "Continuing our tour...";
+      transitions.push({
+        afterImageIndex: i,
+        fromGroup: currentGroup,
+        toGroup: nextGroup,
+        hint,
+      });
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Get the section type for a room type.
+ * Unmapped rooms ("other") go to "living" when the structure has it,
+ * otherwise to the first section after the opening.
+ *
+ * @param roomType - Image room type
+ * @param structure - Tour sections (default: the six built-in sections)
+ */
+export function getSectionForRoomType(
+  roomType: RoomType,
+  structure: ScriptSectionDefinition[] = SCRIPT_SECTION_CONFIG
+): ScriptSectionType {
+  for (const section of structure) {
+    if (section.roomTypes.includes(roomType)) {
+      return section.type;
+    }
+  }
+  if (structure.some((section) => section.type === "living")) {
+    return "living"; // default for "other"
+  }
+  return (structure.find((s) => s.type !== "opening" && s.type !== "closing") ?? structure[0]).type;
+}
+
+/**
+ * Group images by section, keeping the user's order within each section.
+ *
+ * @param sortedImages - Images in tour order
+ * @param structure - Tour sections (default: the six built-in sections)
+ */
+export function groupImagesBySection(
+  sortedImages: ScriptImageInput[],
+  structure: ScriptSectionDefinition[] = SCRIPT_SECTION_CONFIG
+): Map<ScriptSectionType, ScriptImageInput[]> {
+  const sectionGroups = new Map<ScriptSectionType, ScriptImageInput[]>();
+  for (const section of structure) {
+    sectionGroups.set(section.type, []);
+  }
+
+  for (const image of sortedImages) {
+    const sectionType = getSectionForRoomType(image.roomType, structure);
+    sectionGroups.get(sectionType)!.push(image);
+  }
+
+  return sectionGroups;
+}
@@ -0,0 +1,169 @@
+/**
+ * Section Templates
+ *
+ * User-defined tour structures for properties the default six sections
+ * don't fit: condos ("Building Amenities", "Views"), land ("Lot & Zoning"),
+ * commercial space. A template is an ordered list of sections, each with
+ * the room types whose images it narrates. Every structure starts with
+ * the opening and ends with the closing CTA, which keep their timing rules.
+ */
+
+import {
+  ROOM_TYPE_OPTIONS,
+  type RoomType,
+  type ScriptSectionDefinition,
+  type SectionTemplateSelection,
+} from "@/lib/wizard/types";
+import { PROPERTY_TYPE_PROFILES, getPropertyTypeProfile } from "./property-types";
+import { SCRIPT_SECTION_CONFIG } from "./sections";
+
+export interface SectionTemplate {
+  id: string;
+  name: string;
+  sections: ScriptSectionDefinition[];
+  updatedAt: string;
+}
+
+/** Limits, matching the section_templates check constraints where they exist */
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+export const MAX_SECTION_TITLE_LENGTH = 40;
+export const MAX_SECTION_APPROACH_LENGTH = 300;
+export const MIN_TEMPLATE_SECTIONS = 3;
+export const MAX_TEMPLATE_SECTIONS = 8;
+
+/**
+ * Columns selected for section templates.
+ */
+export const SECTION_TEMPLATE_COLUMNS = "id, name, sections, updated_at";
+
+/**
+ * Starting points offered when creating a template: the default
+ * structures of the non-residential property types.
+ */
+export const SECTION_TEMPLATE_PRESETS: Array<{ name: string; sections: ScriptSectionDefinition[] }> = [
+  { name: "Condo", sections: PROPERTY_TYPE_PROFILES.condo.sections! },
+  { name: "Land", sections: PROPERTY_TYPE_PROFILES.land.sections! },
+  { name: "Commercial", sections: PROPERTY_TYPE_PROFILES.commercial.sections! },
+];
+
+const ROOM_TYPE_LABELS = new Map<RoomType, string>(
+  ROOM_TYPE_OPTIONS.map((option) => [option.value, option.label])
+);
+
+/**
+ * Section key derived from a title ("Lot & Zoning" → "lot_zoning").
+ */
+export function toSectionKey(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, MAX_SECTION_TITLE_LENGTH) || "section";
+}
+
+/**
+ * Map a section_templates row selected with SECTION_TEMPLATE_COLUMNS.
+ */
+export function toSectionTemplate(row: {
+  id: string;
+  name: string;
+  sections: unknown;
+  updated_at: string;
+}): SectionTemplate {
+  const sections = parseSectionStructure(row.sections);
+  return {
+    id: row.id,
+    name: row.name,
+    sections: "error" in sections ? SCRIPT_SECTION_CONFIG : sections,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validate a section structure. The first section is always the opening
+ * and the last the closing (which never takes images); keys of the
+ * sections in between come from their titles.
+ *
+ * @returns The cleaned sections, or an error message
+ */
+export function parseSectionStructure(raw: unknown): ScriptSectionDefinition[] | { error: string } {
+  if (!Array.isArray(raw) || raw.length < MIN_TEMPLATE_SECTIONS || raw.length > MAX_TEMPLATE_SECTIONS) {
+    return { error: `A template needs ${MIN_TEMPLATE_SECTIONS} to ${MAX_TEMPLATE_SECTIONS} sections` };
+  }
+
+  const sections: ScriptSectionDefinition[] = [];
+  const mappedRooms = new Map<RoomType, string>();
+
+  for (const [index, item] of raw.entries()) {
+    const input = (item || {}) as { title?: unknown; roomTypes?: unknown; approach?: unknown };
+    const title = typeof input.title === "string" ? input.title.trim() : "";
+    const approach = typeof input.approach === "string" ? input.approach.trim() : "";
+
+    if (!title || title.length > MAX_SECTION_TITLE_LENGTH) {
+      return { error: `Section titles are required and limited to ${MAX_SECTION_TITLE_LENGTH} characters` };
+    }
+    if (approach.length > MAX_SECTION_APPROACH_LENGTH) {
+      return { error: `Section directions are limited to ${MAX_SECTION_APPROACH_LENGTH} characters` };
+    }
+    if (!Array.isArray(input.roomTypes) || input.roomTypes.some((r) => !ROOM_TYPE_LABELS.has(r as RoomType))) {
+      return { error: `"${title}" has an unknown room type` };
+    }
+
+    const isOpening = index === 0;
+    const isClosing = index === raw.length - 1;
+    const type = isOpening ? "opening" : isClosing ? "closing" : toSectionKey(title);
+    if ((type === "opening" && !isOpening) || (type === "closing" && !isClosing) || sections.some((s) => s.type === type)) {
+      return { error: `Section titles must be unique ("${title}")` };
+    }
+
+    // The closing is the CTA over the end card, so it never takes images
+    const roomTypes = isClosing ? [] : [...new Set(input.roomTypes as RoomType[])];
+    for (const roomType of roomTypes) {
+      const other = mappedRooms.get(roomType);
+      if (other) {
+        return { error: `${ROOM_TYPE_LABELS.get(roomType)} is mapped to both "${other}" and "${title}"` };
+      }
+      mappedRooms.set(roomType, title);
+    }
+
+    sections.push({ type, title, roomTypes, ...(approach ? { approach } : {}) });
+  }
+
+  return sections;
+}
+
+/**
+ * Validate a create/update request body.
+ *
+ * @returns The cleaned fields, or an error message
+ */
+export function parseSectionTemplateInput(
+  body: unknown
+): { name: string; sections: ScriptSectionDefinition[] } | { error: string } {
+  const input = (body || {}) as { name?: unknown; sections?: unknown };
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+
+  if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    return { error: `Template names are required and limited to ${MAX_TEMPLATE_NAME_LENGTH} characters` };
+  }
+
+  const sections = parseSectionStructure(input.sections);
+  if ("error" in sections) {
+    return sections;
+  }
+
+  return { name, sections };
+}
+
+/**
+ * Sections to generate and map images for: the chosen template's, else
+ * the property type's default structure, else the default six.
+ */
+export function getSectionStructure(
+  template?: Pick<SectionTemplateSelection, "sections"> | null,
+  propertyType?: string
+): ScriptSectionDefinition[] {
+  if (template?.sections?.length) return template.sections;
+  return getPropertyTypeProfile(propertyType).sections ?? SCRIPT_SECTION_CONFIG;
+}
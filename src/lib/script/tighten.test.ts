@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type OpenAI from "openai";
+import type { SectionWordBudget } from "./budget";
+import { getLanguageProfile } from "./languages";
+import { getToneProfile } from "./tones";
+import type { ScriptImageInput } from "./types";
+import {
+  findMissingFeatures,
+  findNamedFeatures,
+  findOverBudgetSections,
+  tightenScriptSections,
+  type TightenInputSection,
+} from "./tighten";
+
+function budget(type: string, targetWords: number): SectionWordBudget {
+  return { type, title: type, imageCount: 2, clipSeconds: 6, targetWords };
+}
+
+const kitchenImages: ScriptImageInput[] = [
+  { id: "k1", label: "Chef's Kitchen", features: ["Marble island", "Wine fridge"], roomType: "kitchen", order: 1 },
+];
+
+const longLiving: TightenInputSection = {
+  type: "living",
+  content:
+    "Step inside and discover a truly remarkable and wonderfully bright open living space, where a stunning marble island anchors the beautifully appointed kitchen and a wine fridge keeps every bottle perfectly chilled for entertaining.",
+};
+const opening: TightenInputSection = { type: "opening", content: "Welcome home." };
+const budgets = [budget("opening", 10), budget("living", 15)];
+
+/**
+ * OpenAI client stub answering each chat request with the next queued reply.
+ */
+function fakeOpenAI(replies: Array<Array<{ type: string; content: string }>>) {
+  const requests: string[] = [];
+  const client = {
+    chat: {
+      completions: {
+        create: async (body: { messages: Array<{ content: string }> }) => {
+          requests.push(body.messages[1].content);
+          const sections = replies.shift() ?? [];
+          return { choices: [{ message: { content: JSON.stringify({ sections }) } }] };
+        },
+      },
+    },
+  };
+  return { client: client as unknown as OpenAI, requests };
+}
+
+function tighten(client: OpenAI) {
+  return tightenScriptSections(
+    client,
+    [opening, longLiving],
+    budgets,
+    new Map([["living", kitchenImages]]),
+    [],
+    getToneProfile("luxury"),
+    getLanguageProfile("en")
+  );
+}
+
+describe("findOverBudgetSections", () => {
+  it("returns sections more than 10% over their budget", () => {
+    const result = findOverBudgetSections([opening, longLiving], budgets);
+    assert.deepEqual(result.map((r) => r.section.type), ["living"]);
+  });
+
+  it("skips sections without a budget", () => {
+    assert.deepEqual(findOverBudgetSections([longLiving], [budget("opening", 10)]), []);
+  });
+});
+
+describe("findNamedFeatures", () => {
+  it("finds image and property features mentioned in the section", () => {
+    assert.deepEqual(
+      findNamedFeatures(longLiving.content, ["Lake Travis", "open living space"], kitchenImages),
+      ["open living space", "Marble island", "Wine fridge"]
+    );
+  });
+});
+
+describe("findMissingFeatures", () => {
+  it("matches case-insensitively", () => {
+    assert.deepEqual(findMissingFeatures("A MARBLE ISLAND kitchen.", ["Marble island", "Wine fridge"]), ["Wine fridge"]);
+  });
+});
+
+describe("tightenScriptSections", () => {
+  it("accepts a shorter rewrite that keeps every named feature", async () => {
+    const rewrite = "A bright living space, a marble island and a wine fridge for entertaining.";
+    const { client, requests } = fakeOpenAI([[{ type: "living", content: rewrite }]]);
+    const [openingResult, living] = await tighten(client);
+
+    assert.equal(requests.length, 1);
+    assert.match(requests[0], /Must still mention: Marble island, Wine fridge/);
+    assert.equal(openingResult.tightened, false);
+    assert.equal(openingResult.content, opening.content);
+    assert.equal(living.tightened, true);
+    assert.equal(living.content, rewrite);
+    assert.ok(living.after < living.before);
+  });
+
+  it("retries a rewrite that dropped a named feature", async () => {
+    const dropped = "A bright living space with a marble island.";
+    const fixed = "A bright living space, marble island and wine fridge.";
+    const { client, requests } = fakeOpenAI([
+      [{ type: "living", content: dropped }],
+      [{ type: "living", content: fixed }],
+    ]);
+    const [, living] = await tighten(client);
+
+    assert.equal(requests.length, 2);
+    assert.match(requests[1], /Your last rewrite left out: Wine fridge/);
+    assert.equal(living.content, fixed);
+  });
+
+  it("keeps the original when every attempt drops a feature", async () => {
+    const dropped = "A bright living space with a marble island.";
+    const { client } = fakeOpenAI([[{ type: "living", content: dropped }], [{ type: "living", content: dropped }]]);
+    const [, living] = await tighten(client);
+
+    assert.equal(living.tightened, false);
+    assert.equal(living.content, longLiving.content);
+    assert.equal(living.after, living.before);
+  });
+
+  it("rejects rewrites that aren't shorter", async () => {
+    const { client, requests } = fakeOpenAI([[{ type: "living", content: `${longLiving.content} Truly.` }]]);
+    const [, living] = await tighten(client);
+
+    assert.equal(requests.length, 1);
+    assert.equal(living.tightened, false);
+  });
+
+  it("makes no request when every section is within budget", async () => {
+    const { client, requests } = fakeOpenAI([]);
+    const result = await tightenScriptSections(
+      client,
+      [opening],
+      budgets,
+      new Map(),
+      [],
+      getToneProfile("luxury"),
+      getLanguageProfile("en")
+    );
+    assert.equal(requests.length, 0);
+    assert.equal(result[0].tightened, false);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Script Tightening
+ *
+ * Rewrites over-budget sections down to their word budgets so narration
+ * finishes before the end card. Sections within budget are left exactly
+ * as written, and named features a section mentions must survive the cut.
+ */
+
+import type OpenAI from "openai";
+import type { ScriptSectionType } from "@/lib/wizard/types";
+import type { SectionWordBudget } from "./budget";
+import { FORBIDDEN_PATTERNS } from "./prompts";
+import { countScriptWords, type LanguageProfile } from "./languages";
+import type { ToneProfile } from "./tones";
+import type { ScriptImageInput } from "./types";
+
+/**
+ * Whole scripts over this multiple of the total budget get an automatic
+ * tighten pass after generation.
+ */
+export const AUTO_TIGHTEN_THRESHOLD = 1.1;
+
+/**
+ * Sections within this multiple of their budget are left alone.
+ */
+const SECTION_OVERRUN_TOLERANCE = 1.1;
+
+export interface TightenInputSection {
+  type: ScriptSectionType;
+  content: string;
+}
+
+/**
+ * Word counts for one section before and after tightening.
+ */
+export interface TightenResult {
+  type: ScriptSectionType;
+  content: string;
+  before: number;
+  after: number;
+  targetWords: number;
+  tightened: boolean;
+}
+
+/**
+ * Sections whose narration runs past their budget.
+ */
+export function findOverBudgetSections(
+  sections: TightenInputSection[],
+  budgets: SectionWordBudget[],
+  language?: string
+): Array<{ section: TightenInputSection; budget: SectionWordBudget; wordCount: number }> {
+  return sections.flatMap((section) => {
+    const budget = budgets.find((b) => b.type === section.type);
+    const wordCount = countScriptWords(section.content, language);
+    return budget && budget.targetWords > 0 && wordCount > budget.targetWords * SECTION_OVERRUN_TOLERANCE
+      ? [{ section, budget, wordCount }]
+      : [];
+  });
+}
+
+/**
+ * Named features a section mentions, from the property's feature list and
+ * the labels of the section's images. Matching is case-insensitive.
+ */
+export function findNamedFeatures(
+  content: string,
+  propertyFeatures: string[],
+  sectionImages: ScriptImageInput[]
+): string[] {
+  const lower = content.toLowerCase();
+  const candidates = [...propertyFeatures, ...sectionImages.flatMap((img) => img.features)];
+  return [...new Set(candidates.map((f) => f.trim()).filter((f) => f && lower.includes(f.toLowerCase())))];
+}
+
+/**
+ * Named features missing from a rewrite. Matching is case-insensitive.
+ */
+export function findMissingFeatures(content: string, features: string[]): string[] {
+  const lower = content.toLowerCase();
+  return features.filter((feature) => !lower.includes(feature.toLowerCase()));
+}
+
+/** Extra attempts for rewrites that dropped a named feature */
+const MAX_TIGHTEN_RETRIES = 1;
+
+/**
+ * Rewrite over-budget sections to their targets in a single request.
+ * Returns every input section with before/after counts; sections within
+ * budget are returned unchanged. A rewrite is only accepted if it is
+ * shorter and still mentions every named feature of the original; sections
+ * that dropped one are retried once, then left as written.
+ *
+ * @param openai - OpenAI client
+ * @param sections - The full current script, in order
+ * @param budgets - Per-section word budgets for the tour
+ * @param sectionGroups - Images per section, for feature names
+ * @param propertyFeatures - Property-level features (neighborhood POIs)
+ * @param toneProfile - Narrator persona to keep
+ * @param languageProfile - Language and budget unit
+ * @param language - Narration language code, for counting
+ */
+export async function tightenScriptSections(
+  openai: OpenAI,
+  sections: TightenInputSection[],
+  budgets: SectionWordBudget[],
+  sectionGroups: Map<ScriptSectionType, ScriptImageInput[]>,
+  propertyFeatures: string[],
+  toneProfile: ToneProfile,
+  languageProfile: LanguageProfile,
+  language?: string
+): Promise<TightenResult[]> {
+  const unit = languageProfile.unit;
+  const accepted = new Map<ScriptSectionType, string>();
+  const dropped = new Map<ScriptSectionType, string[]>();
+  let pending = findOverBudgetSections(sections, budgets, language).map((item) => ({
+    ...item,
+    keep: findNamedFeatures(item.section.content, propertyFeatures, sectionGroups.get(item.section.type) || []),
+  }));
+
+  for (let attempt = 0; attempt <= MAX_TIGHTEN_RETRIES && pending.length > 0; attempt++) {
+    const sectionBriefs = pending
+      .map(({ section, budget, wordCount, keep }) => {
+        const missed = dropped.get(section.type);
+        return `### ${section.type.toUpperCase()} - currently ${wordCount} ${unit}, target ${budget.targetWords} ${unit} (never more)
+${keep.length > 0 ? `Must still mention: ${keep.join(", ")}\n` : ""}${missed ? `Your last rewrite left out: ${missed.join(", ")}\n` : ""}Current text: ${section.content}`;
+      })
+      .join("\n\n");
+
+    const rewritten = await requestRewrites(openai, sectionBriefs, unit, toneProfile, languageProfile);
+
+    pending = pending.filter(({ section, keep }) => {
+      const candidate = rewritten.get(section.type);
+      if (!candidate) return false;
+      // Only accept a rewrite that actually got shorter
+      if (countScriptWords(candidate, language) >= countScriptWords(section.content, language)) return false;
+      const missing = findMissingFeatures(candidate, keep);
+      if (missing.length > 0) {
+        dropped.set(section.type, missing);
+        return true;
+      }
+      accepted.set(section.type, candidate);
+      return false;
+    });
+  }
+
+  return sections.map((section) => {
+    const before = countScriptWords(section.content, language);
+    const candidate = accepted.get(section.type);
+    return {
+      type: section.type,
+      content: candidate ?? section.content,
+      before,
+      after: candidate ? countScriptWords(candidate, language) : before,
+      targetWords: budgets.find((b) => b.type === section.type)?.targetWords ?? 0,
+      tightened: candidate !== undefined,
+    };
+  });
+}
+
+/**
+ * One tightening request. Returns the rewritten content per section type.
+ */
+async function requestRewrites(
+  openai: OpenAI,
+  sectionBriefs: string,
+  unit: string,
+  toneProfile: ToneProfile,
+  languageProfile: LanguageProfile
+): Promise<Map<ScriptSectionType, string>> {
+  const response = await openai.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: `You are ${toneProfile.persona} tightening a tour script that runs longer than its video.
+
+Shorten each section you are given to its target length. Cut filler, stacked adjectives and repetition first; keep every named feature, room and place that the section lists under "Must still mention", word for word. Keep the same voice, tense, point of view and opening/closing lines so the section still flows with its neighbors. Write in ${languageProfile.name}.
+
+${FORBIDDEN_PATTERNS}
+
+OUTPUT: JSON only: {"sections": [{"type": "...", "content": "..."}]}`,
+      },
+      {
+        role: "user",
+        content: `Tighten these sections. Lengths are counted in ${unit}.\n\n${sectionBriefs}`,
+      },
+    ],
+    max_tokens: 1000,
+    temperature: 0.3, // Editing, not rewriting - stay close to the original
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("No response from GPT-4");
+  }
+
+  let jsonStr = content.trim();
+  if (jsonStr.startsWith("```")) {
+    jsonStr = jsonStr.replace(/```json?\n?/g, "").replace(/```$/g, "").trim();
+  }
+
+  const parsed = JSON.parse(jsonStr) as { sections?: TightenInputSection[] };
+  return new Map(
+    (parsed.sections || [])
+      .filter((s) => s.content?.trim())
+      .map((s) => [s.type, s.content.trim()])
+  );
+}
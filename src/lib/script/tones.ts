@@ -0,0 +1,69 @@
+/**
+ * Narration Tones
+ *
+ * Narrator persona and tone-specific rules for each NarrationTone. The
+ * shared rules in prompts.ts still apply; these only change the voice.
+ */
+
+import type { NarrationTone } from "@/lib/wizard/types";
+
+export const DEFAULT_NARRATION_TONE: NarrationTone = "luxury";
+
+export interface ToneProfile {
+  persona: string;    // Completes "You are ..." in the system prompt
+  videoLabel: string; // Completes "a 60-second ... video"
+  rules: string;
+}
+
+export const TONE_PROFILES: Record<NarrationTone, ToneProfile> = {
+  luxury: {
+    persona: "a luxury real estate video narrator",
+    videoLabel: "luxury property",
+    rules: `TONE: LUXURY
+- Elegant, unhurried and cinematic - let the spaces breathe
+- Emphasize craftsmanship, materials, views and privacy
+- Confident understatement: "quietly remarkable" over "amazing"`,
+  },
+  family_warm: {
+    persona: "a warm, friendly real estate video narrator",
+    videoLabel: "welcoming home",
+    rules: `TONE: WARM & INVITING
+- Friendly and conversational, like showing a friend around
+- Emphasize everyday comfort: gathering spaces, storage, natural light, room to grow into
+- Describe how the home lives, never who should live in it (no "perfect for families")`,
+  },
+  investor: {
+    persona: "a real estate video narrator speaking to buyers evaluating a property on its numbers",
+    videoLabel: "investment property",
+    rules: `TONE: INVESTOR / ANALYTICAL
+- Clear, factual and efficient - fewer adjectives, more specifics
+- Emphasize layout efficiency, condition, recent updates, square footage, bed/bath count and flexibility of use
+- Mention rental or value-add potential only where the property data supports it; never promise returns`,
+  },
+  modern_minimal: {
+    persona: "a design-focused real estate video narrator",
+    videoLabel: "modern property",
+    rules: `TONE: MODERN MINIMAL
+- Short, precise sentences; let silence and footage do the work
+- Emphasize clean lines, light, proportion, materials and open flow
+- Avoid flowery language and superlatives`,
+  },
+  vacation_rental: {
+    persona: "an upbeat vacation rental video host",
+    videoLabel: "vacation getaway",
+    rules: `TONE: VACATION RENTAL
+- Upbeat and inviting - sell the getaway experience
+- Emphasize relaxation, outdoor living, entertaining spaces and nearby attractions
+- Paint the stay: slow mornings, sunsets, evenings outside`,
+  },
+};
+
+/**
+ * Tone profile for a requested tone, falling back to the default for
+ * missing or unknown values.
+ */
+export function getToneProfile(tone: string | undefined): ToneProfile {
+  return tone && Object.hasOwn(TONE_PROFILES, tone)
+    ? TONE_PROFILES[tone as NarrationTone]
+    : TONE_PROFILES[DEFAULT_NARRATION_TONE];
+}
@@ -0,0 +1,52 @@
+/**
+ * Script Generation Types
+ *
+ * Request shapes shared by the script generation routes.
+ */
+
+import type { RoomType, ScriptSectionType } from "@/lib/wizard/types";
+
+/**
+ * Property details sent by the Script step.
+ */
+export interface ScriptPropertyInput {
+  address: string;
+  city: string;
+  state: string;
+  price: number;
+  beds: number;
+  baths: number;
+  sqft: number;
+  lotSize?: number;
+  lotSizeUnit?: "sqft" | "acres";
+  zoning?: string;
+  frontage?: number;
+  capRate?: number;
+  tenants?: string;
+  propertyType: string;
+  description: string;
+  features: string[]; // Neighborhood POIs
+  agentPhone?: string;
+  agentSocial?: string;
+}
+
+/**
+ * Image details sent by the Script step, in the user's tour order.
+ */
+export interface ScriptImageInput {
+  id: string;
+  label: string;
+  features: string[];
+  roomType: RoomType;
+  order: number;
+}
+
+/**
+ * Narration for one section as returned to the client.
+ */
+export interface GeneratedSection {
+  type: ScriptSectionType;
+  title: string;
+  content: string;
+  imageIds: string[];
+}
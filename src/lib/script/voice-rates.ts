@@ -0,0 +1,34 @@
+/**
+ * Voice Speaking-Rate Lookup
+ *
+ * Server-side read of a voice's measured rate from voice_speaking_rates.
+ * Not exported from the script barrel, which client components import.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { VOICE_RATE_COLUMNS, toVoiceSpeakingRate, type VoiceSpeakingRate } from "./calibration";
+
+/**
+ * Measured speaking rate for a voice and language, or null when the voice
+ * hasn't been calibrated (or no voice is chosen yet).
+ *
+ * @param supabase - Request or service-role client
+ * @param voiceId - ElevenLabs voice, if one is selected
+ * @param language - Narration language (default: English)
+ */
+export async function getVoiceSpeakingRate(
+  supabase: SupabaseClient,
+  voiceId: string | null | undefined,
+  language: string | null | undefined
+): Promise<VoiceSpeakingRate | null> {
+  if (!voiceId) return null;
+
+  const { data } = await supabase
+    .from("voice_speaking_rates")
+    .select(VOICE_RATE_COLUMNS)
+    .eq("voice_id", voiceId)
+    .eq("language", language || "en")
+    .maybeSingle();
+
+  return data ? toVoiceSpeakingRate(data) : null;
+}
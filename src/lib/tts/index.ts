@@ -0,0 +1,17 @@
+/**
+ * TTS Module
+ *
+ * Text preparation for narration voice generation.
+ */
+
+// Numbers, units and abbreviations spelled out for English TTS
+export {
+  digitsToPairs,
+  normalizeForTts,
+  numberToWords,
+  ordinalToWords,
+  yearToWords,
+} from "./normalize";
+
+// Full TTS text preparation (lexicon, normalization, handles)
+export { sanitizeForTts } from "./sanitize";
@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PropertyData } from "@/lib/wizard/types";
+import { normalizeForTts, yearToWords } from "./normalize";
+
+const property: PropertyData = {
+  address: "1234 Oak St",
+  city: "Austin",
+  state: "TX",
+  zipCode: "78701",
+  propertyType: "single_family",
+  bedrooms: 4,
+  bathrooms: 2.5,
+  squareFeet: 2400,
+  lotSize: 0.25,
+  lotSizeUnit: "acres",
+  listingPrice: 1250000,
+  description: "",
+  features: [],
+};
+
+describe("normalizeForTts", () => {
+  describe("prices", () => {
+    it("spells out a full listing price", () => {
+      const price = `$${property.listingPrice.toLocaleString("en-US")}`;
+      assert.equal(
+        normalizeForTts(`Offered at ${price}.`),
+        "Offered at one million two hundred fifty thousand dollars."
+      );
+    });
+
+    it("reads magnitude shorthand", () => {
+      assert.equal(normalizeForTts("Priced at $1.2M"), "Priced at one point two million dollars");
+      assert.equal(normalizeForTts("Just $850K"), "Just eight hundred fifty thousand dollars");
+    });
+
+    it("reads rates", () => {
+      assert.equal(normalizeForTts("Leasing at $3,200/mo"), "Leasing at three thousand two hundred dollars per month");
+    });
+  });
+
+  describe("areas", () => {
+    it("spells out square feet", () => {
+      const sqft = property.squareFeet.toLocaleString("en-US");
+      assert.equal(normalizeForTts(`${sqft} sq ft of living space`), "two thousand four hundred square feet of living space");
+      assert.equal(normalizeForTts(`${property.squareFeet} sqft`), "two thousand four hundred square feet");
+    });
+
+    it("reads fractional acres", () => {
+      assert.equal(normalizeForTts(`on ${property.lotSize} acres`), "on a quarter of an acre");
+      assert.equal(normalizeForTts("on 1.5 acres"), "on one and a half acres");
+      assert.equal(normalizeForTts("a 2-acre lot"), "a two acre lot");
+    });
+  });
+
+  describe("bedrooms and baths", () => {
+    it("reads half baths", () => {
+      assert.equal(normalizeForTts(`${property.bathrooms} ba`), "two and a half baths");
+      assert.equal(normalizeForTts("3.5 baths"), "three and a half baths");
+    });
+
+    it("keeps adjectival units singular", () => {
+      assert.equal(normalizeForTts(`a ${property.bedrooms} bedroom home`), "a four bedroom home");
+      assert.equal(normalizeForTts("a 2.5-bath layout"), "a two and a half bath layout");
+    });
+
+    it("reads bed / bath shorthand", () => {
+      assert.equal(
+        normalizeForTts(`${property.bedrooms} bd / ${property.bathrooms} ba`),
+        "four bedrooms, two and a half baths"
+      );
+    });
+  });
+
+  describe("years", () => {
+    it("speaks years the conventional way", () => {
+      assert.equal(yearToWords(1998), "nineteen ninety-eight");
+      assert.equal(yearToWords(2005), "two thousand five");
+      assert.equal(yearToWords(2024), "twenty twenty-four");
+      assert.equal(yearToWords(1900), "nineteen hundred");
+    });
+
+    it("reads years and decades in narration", () => {
+      assert.equal(normalizeForTts("Built in 1998"), "Built in nineteen ninety-eight");
+      assert.equal(normalizeForTts("a 1920s bungalow"), "a nineteen twenties bungalow");
+    });
+
+    it("leaves prices and areas that look like years alone", () => {
+      assert.equal(normalizeForTts("$2,010"), "two thousand ten dollars");
+      assert.equal(normalizeForTts("2,010 sq ft"), "two thousand ten square feet");
+    });
+  });
+
+  describe("addresses", () => {
+    it("expands street types after a house number", () => {
+      assert.equal(normalizeForTts(`Welcome to ${property.address}`), "Welcome to twelve thirty-four Oak Street");
+      assert.equal(normalizeForTts("4410 Lakeview Dr."), "forty-four ten Lakeview Drive.");
+    });
+
+    it("reads St. and Dr. before a name as Saint and Doctor", () => {
+      assert.equal(normalizeForTts("minutes from St. Augustine"), "minutes from Saint Augustine");
+      assert.equal(normalizeForTts("designed by Dr. Lee"), "designed by Doctor Lee");
+    });
+
+    it("expands suite numbers", () => {
+      assert.equal(normalizeForTts("Ste 305"), "Suite three oh five");
+      assert.equal(normalizeForTts("Unit 1204"), "Unit twelve oh four");
+    });
+
+    it("reads ZIP codes digit by digit", () => {
+      assert.equal(
+        normalizeForTts(`${property.city}, ${property.state} ${property.zipCode}`),
+        "Austin, TX seven eight seven oh one"
+      );
+    });
+  });
+});
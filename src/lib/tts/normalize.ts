@@ -0,0 +1,428 @@
+/**
+ * TTS Text Normalization
+ *
+ * Expands the numbers and abbreviations that appear in listing narration
+ * ("$1,250,000", "3.5 baths", "0.25 acres", "Unit 1204", "Main St.") into
+ * speakable English, so every voice reads them the same way. Only the TTS
+ * text is normalized; captions and the stored script keep the written form.
+ */
+
+const ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine",
+  "ten", "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen",
+  "seventeen", "eighteen", "nineteen",
+];
+
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+
+const SCALES: Array<[number, string]> = [
+  [1_000_000_000_000, "trillion"],
+  [1_000_000_000, "billion"],
+  [1_000_000, "million"],
+  [1_000, "thousand"],
+];
+
+/**
+ * Spell out a number below one hundred ("forty-two").
+ */
+function tensToWords(n: number): string {
+  if (n < 20) return ONES[n];
+  const tens = TENS[Math.floor(n / 10)];
+  return n % 10 ? `${tens}-${ONES[n % 10]}` : tens;
+}
+
+/**
+ * Spell out a number below one thousand ("three hundred twelve").
+ */
+function hundredsToWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds) parts.push(`${ONES[hundreds]} hundred`);
+  if (rest || !hundreds) parts.push(tensToWords(rest));
+  return parts.join(" ");
+}
+
+/**
+ * Spell out a non-negative integer ("one million two hundred fifty thousand").
+ */
+export function numberToWords(value: number): string {
+  let n = Math.floor(Math.abs(value));
+  if (n < 1000) return hundredsToWords(n);
+
+  const parts: string[] = [];
+  for (const [scale, name] of SCALES) {
+    if (n >= scale) {
+      parts.push(`${hundredsToWords(Math.floor(n / scale))} ${name}`);
+      n %= scale;
+    }
+  }
+  if (n) parts.push(hundredsToWords(n));
+  return parts.join(" ");
+}
+
+/**
+ * Spell out a numeric string that may contain thousands separators and a
+ * decimal part ("2,400" → "two thousand four hundred", "2.75" → "two point seven five").
+ */
+function decimalToWords(text: string): string {
+  const [whole, fraction] = text.replace(/,/g, "").split(".");
+  const wholeWords = numberToWords(Number(whole || "0"));
+  if (!fraction || /^0+$/.test(fraction)) return wholeWords;
+  const digits = fraction.split("").map((d) => ONES[Number(d)]).join(" ");
+  return `${wholeWords} point ${digits}`;
+}
+
+/** Spoken fractions for quantities like acres and baths */
+const SPOKEN_FRACTIONS: Record<string, string> = {
+  "25": "a quarter",
+  "5": "a half",
+  "50": "a half",
+  "75": "three quarters",
+};
+
+/**
+ * Spell out a quantity with its unit, using "and a half" style fractions
+ * where they read naturally ("1.5" acres → "one and a half acres",
+ * "0.5" → "half an acre", "1" → "one acre").
+ */
+function quantityToWords(text: string, singular: string, plural: string): string {
+  const [whole, fraction = ""] = text.replace(/,/g, "").split(".");
+  const wholeNumber = Number(whole || "0");
+  const trimmedFraction = fraction.replace(/0+$/, "");
+  const spokenFraction = SPOKEN_FRACTIONS[trimmedFraction];
+
+  if (!trimmedFraction) {
+    return `${numberToWords(wholeNumber)} ${wholeNumber === 1 ? singular : plural}`;
+  }
+  if (spokenFraction && wholeNumber === 0) {
+    const article = /^[aeiou]/i.test(singular) ? "an" : "a";
+    return spokenFraction === "a half"
+      ? `half ${article} ${singular}`
+      : `${spokenFraction} of ${article} ${singular}`;
+  }
+  if (spokenFraction) {
+    return `${numberToWords(wholeNumber)} and ${spokenFraction} ${plural}`;
+  }
+  return `${decimalToWords(text)} ${plural}`;
+}
+
+/**
+ * Read a digit string in pairs, the way unit, suite and house numbers are
+ * spoken ("305" → "three oh five", "1204" → "twelve oh four",
+ * "1200" → "twelve hundred").
+ */
+export function digitsToPairs(digits: string): string {
+  const pair = (two: string): string => {
+    if (two === "00") return "hundred";
+    if (two[0] === "0") return `oh ${ONES[Number(two[1])]}`;
+    return tensToWords(Number(two));
+  };
+
+  if (digits.length <= 2) return numberToWords(Number(digits));
+  if (digits.length === 3) {
+    return digits.endsWith("00")
+      ? `${ONES[Number(digits[0])]} hundred`
+      : `${ONES[Number(digits[0])]} ${pair(digits.slice(1))}`;
+  }
+  if (digits.length === 4 && digits[0] !== "0") {
+    return `${tensToWords(Number(digits.slice(0, 2)))} ${pair(digits.slice(2))}`;
+  }
+  return digitsToSingles(digits);
+}
+
+/**
+ * Read a digit string one digit at a time ("90210" → "nine oh two one oh").
+ */
+function digitsToSingles(digits: string): string {
+  return digits
+    .split("")
+    .map((d) => (d === "0" ? "oh" : ONES[Number(d)]))
+    .join(" ");
+}
+
+/**
+ * Speak a year the conventional way ("1998" → "nineteen ninety-eight",
+ * "2005" → "two thousand five", "2024" → "twenty twenty-four").
+ */
+export function yearToWords(year: number): string {
+  if (year >= 2000 && year < 2010) return numberToWords(year);
+  if (year % 100 === 0) return `${tensToWords(Math.floor(year / 100))} hundred`;
+  return digitsToPairs(String(year));
+}
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+/**
+ * Spell out an ordinal ("22" → "twenty-second").
+ */
+export function ordinalToWords(n: number): string {
+  const words = numberToWords(n);
+  return words.replace(/(\w+)$/, (last) => {
+    if (ORDINAL_EXCEPTIONS[last]) return ORDINAL_EXCEPTIONS[last];
+    if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+/** Magnitude suffixes on prices ("$1.2M", "$850K", "$2 million") */
+const PRICE_MAGNITUDES: Record<string, string> = {
+  k: "thousand",
+  thousand: "thousand",
+  m: "million",
+  mm: "million",
+  million: "million",
+  b: "billion",
+  billion: "billion",
+};
+
+/** Rate suffixes on prices ("$3,200/mo") */
+const PRICE_RATES: Record<string, string> = {
+  mo: "per month",
+  month: "per month",
+  yr: "per year",
+  year: "per year",
+  sf: "per square foot",
+  "sq ft": "per square foot",
+  sqft: "per square foot",
+};
+
+/**
+ * Spell out a price ("$1,250,000" → "one million two hundred fifty
+ * thousand dollars", "$1.2M" → "one point two million dollars").
+ */
+function priceToWords(amount: string, magnitude?: string, rate?: string): string {
+  const scale = magnitude ? PRICE_MAGNITUDES[magnitude.toLowerCase()] : undefined;
+  const rateWords = rate ? ` ${PRICE_RATES[rate.toLowerCase().replace(/\./g, "")] ?? ""}`.trimEnd() : "";
+
+  if (scale) {
+    return `${decimalToWords(amount)} ${scale} dollars${rateWords}`;
+  }
+
+  const [whole, cents = ""] = amount.replace(/,/g, "").split(".");
+  const dollars = Number(whole || "0");
+  let words = `${numberToWords(dollars)} ${dollars === 1 ? "dollar" : "dollars"}`;
+  const centValue = Number(cents.padEnd(2, "0").slice(0, 2));
+  if (centValue) {
+    words += ` and ${numberToWords(centValue)} ${centValue === 1 ? "cent" : "cents"}`;
+  }
+  return words + rateWords;
+}
+
+/** Street type abbreviations, expanded when they follow a street name */
+const STREET_TYPES: Record<string, string> = {
+  St: "Street",
+  Ave: "Avenue",
+  Blvd: "Boulevard",
+  Rd: "Road",
+  Dr: "Drive",
+  Ln: "Lane",
+  Ct: "Court",
+  Pl: "Place",
+  Cir: "Circle",
+  Ter: "Terrace",
+  Pkwy: "Parkway",
+  Hwy: "Highway",
+  Trl: "Trail",
+};
+
+const STREET_TYPE_PATTERN = Object.keys(STREET_TYPES).join("|");
+const STREET_NAME_PATTERN = [...Object.keys(STREET_TYPES), ...Object.values(STREET_TYPES)].join("|");
+
+/** Unit number labels, expanded */
+const UNIT_LABELS: Record<string, string> = {
+  Ste: "Suite",
+  Apt: "Apartment",
+  Bldg: "Building",
+};
+
+const DIRECTIONS: Record<string, string> = {
+  N: "North",
+  S: "South",
+  E: "East",
+  W: "West",
+  NE: "Northeast",
+  NW: "Northwest",
+  SE: "Southeast",
+  SW: "Southwest",
+};
+
+/**
+ * Abbreviations read the same everywhere. Acronyms spoken letter by
+ * letter are spaced out; acronyms spoken as words are respelled.
+ */
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\bHOAs\b/g, "H O A's"],
+  [/\bHOA\b/g, "H O A"],
+  [/\bHVAC\b/g, "H-vac"],
+  [/\bADU\b/g, "A D U"],
+  [/\bMLS\b/g, "M L S"],
+  [/\bEV\b/g, "E V"],
+  [/\bA\/C\b/gi, "A C"],
+  [/\bw\/(?=\s)/g, "with"],
+  [/\bapprox\.(?=\s)|\bapprox\b/gi, "approximately"],
+  [/\bsq\.?\s*ft\b(?:\.(?=\s+[a-z]))?|\bsqft\b/gi, "square feet"],
+  [/\bft\.?(?=\s+(?:ceilings?|walls?|doors?|windows?|pool|deck|dock|garage|island)\b)/g, "foot"],
+  [/\bft\b/g, "feet"],
+  [/\s\/\s/g, ", "],
+  [/\s&\s/g, " and "],
+];
+
+/**
+ * Expand street type abbreviations. In an address ("1234 Oak St.") the
+ * type always follows a house number and street name. Elsewhere, "St."
+ * and "Dr." before a name are "Saint" and "Doctor" ("St. Augustine",
+ * "Dr. Lee"); otherwise a type after a capitalized word is a street
+ * ("off Main St").
+ */
+function expandStreetAbbreviations(text: string): string {
+  const inAddress = new RegExp(
+    `(\\b\\d+[A-Za-z]?\\s+(?:[A-Z0-9][\\w'-]*\\s+){1,3})(${STREET_TYPE_PATTERN})\\b(?:\\.(?=\\s+[a-z]))?`,
+    "g"
+  );
+  let result = text.replace(inAddress, (_, name: string, type: string) => `${name}${STREET_TYPES[type]}`);
+
+  result = result.replace(/\bSt\.?(?=\s+[A-Z])/g, "Saint");
+  result = result.replace(/\bDr\.(?=\s+[A-Z])/g, "Doctor");
+
+  const afterName = new RegExp(`(\\b[A-Z0-9][\\w'-]*\\s+)(${STREET_TYPE_PATTERN})\\b(?:\\.(?=\\s+[a-z]))?`, "g");
+  return result.replace(afterName, (_, name: string, type: string) => `${name}${STREET_TYPES[type]}`);
+}
+
+/**
+ * Normalize listing narration for English TTS.
+ *
+ * @param text - Narration text as written in the script
+ * @returns Text with numbers, units and abbreviations spelled out
+ */
+export function normalizeForTts(text: string): string {
+  let result = expandStreetAbbreviations(text);
+
+  // Phone numbers: digit by digit, grouped ("(555) 123-4567")
+  result = result.replace(
+    /\(?\b(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})\b/g,
+    (_, area: string, exchange: string, line: string) =>
+      `${digitsToSingles(area)}, ${digitsToSingles(exchange)}, ${digitsToSingles(line)}`
+  );
+
+  // Prices, with optional magnitude and rate ("$1.2M", "$850K", "$3,200/mo")
+  result = result.replace(
+    /\$\s?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)(?:\s?(million|billion|thousand|MM|[KkMmBb])\b)?(?:\s?\/\s?(mo|month|yr|year|sf|sq\.? ?ft)\b)?/g,
+    (_, amount: string, magnitude?: string, rate?: string) => priceToWords(amount, magnitude, rate)
+  );
+
+  // Unit, suite and apartment numbers ("Unit 1204", "#305", "Apt 3B")
+  result = result.replace(
+    /\b(Unit|Suite|Ste|Apt|Apartment|Bldg|Building)\.?\s*#?\s*(\d+)([A-Za-z])?\b/g,
+    (_, label: string, digits: string, letter?: string) =>
+      `${UNIT_LABELS[label] ?? label} ${digitsToPairs(digits)}${letter ? ` ${letter.toUpperCase()}` : ""}`
+  );
+  result = result.replace(
+    /(^|\s)#\s?(\d+)([A-Za-z])?\b/g,
+    (_, lead: string, digits: string, letter?: string) =>
+      `${lead}unit ${digitsToPairs(digits)}${letter ? ` ${letter.toUpperCase()}` : ""}`
+  );
+
+  // House numbers, read in pairs, with a leading direction ("1234 N Oak Street")
+  const directionKeys = Object.keys(DIRECTIONS).join("|");
+  result = result.replace(
+    new RegExp(
+      `\\b(\\d{1,5})(\\s+)(?:(${directionKeys})\\.?\\s+)?(?=[A-Z0-9][\\w'-]*\\s+(?:[A-Z][\\w'-]*\\s+)?(?:${STREET_NAME_PATTERN})\\b)`,
+      "g"
+    ),
+    (_, digits: string, space: string, direction?: string) => {
+      const number = digits.length >= 3 ? digitsToPairs(digits) : numberToWords(Number(digits));
+      const spokenDirection = direction ? `${DIRECTIONS[direction]} ` : "";
+      return `${number}${space}${spokenDirection}`;
+    }
+  );
+
+  // ZIP codes after a state abbreviation ("CA 90210")
+  result = result.replace(
+    /\b([A-Z]{2})\s+(\d{5})(?:-(\d{4}))?\b/g,
+    (_, state: string, zip: string, plus4?: string) =>
+      `${state} ${digitsToSingles(zip)}${plus4 ? ` ${digitsToSingles(plus4)}` : ""}`
+  );
+
+  // Square footage ("2,400 sq ft", "2400 sqft", "2,400 SF")
+  result = result.replace(
+    /\b((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*-?\s?(?:sq\.?\s*ft\b(?:\.(?=\s+[a-z]))?|sqft\b|square[\s-]f(?:ee|oo)t\b|SF\b)/gi,
+    (match: string, amount: string) =>
+      `${decimalToWords(amount)} ${/foot/i.test(match) ? "square-foot" : "square feet"}`
+  );
+
+  // Acres ("0.25 acres", "1.5-acre", "2 ac"). A singular unit is adjectival
+  // ("a 2-acre lot") and stays singular.
+  result = result.replace(
+    /\b(\d*\.?\d+)\s*-?\s*(acres?|ac\.?)(?=\W|$)/gi,
+    (_, amount: string, unit: string) => quantityToWords(amount, "acre", /^acre$/i.test(unit) ? "acre" : "acres")
+  );
+
+  // Bedrooms and baths, including half-baths ("3.5 baths", "2.5-bath", "3 bd / 2 ba").
+  // A singular unit is adjectival ("a 4 bedroom home") and stays singular.
+  result = result.replace(
+    /\b(\d+(?:\.\d+)?)\s*-?\s*(baths?|bathrooms?|ba)\b/gi,
+    (_, amount: string, unit: string) => {
+      const singular = /^bathroom/i.test(unit) ? "bathroom" : "bath";
+      return quantityToWords(amount, singular, /^bath(room)?$/i.test(unit) ? singular : `${singular}s`);
+    }
+  );
+  result = result.replace(
+    /\b(\d+)\s*-?\s*(bd|br|beds?|bedrooms?)\b/gi,
+    (_, amount: string, unit: string) => {
+      const singular = /^beds?$/i.test(unit) ? "bed" : "bedroom";
+      return quantityToWords(amount, singular, /^bed(room)?$/i.test(unit) ? singular : `${singular}s`);
+    }
+  );
+
+  // Ordinals ("3rd floor", "21st Street")
+  result = result.replace(
+    /\b(\d+)(st|nd|rd|th)\b/gi,
+    (_, n: string) => ordinalToWords(Number(n))
+  );
+
+  // Decades and years ("the 1920s", "built in 1998")
+  result = result.replace(
+    /\b(1[7-9]\d0|20[0-9]0)'?s\b/g,
+    (_, decade: string) => yearToWords(Number(decade)).replace(/(\w+)$/, (last) =>
+      last.endsWith("y") ? `${last.slice(0, -1)}ies` : `${last}s`
+    )
+  );
+  result = result.replace(
+    /(^|[^\d,.$])\b(1[7-9]\d\d|20\d\d)\b(?!\d|,\d|\.\d)/g,
+    (_, lead: string, year: string) => `${lead}${yearToWords(Number(year))}`
+  );
+
+  // Room dimensions ("12x14", "12' x 14'")
+  result = result.replace(
+    /\b(\d+)'?\s*[xX×]\s*(\d+)'?(?=\W|$)/g,
+    (_, a: string, b: string) => `${numberToWords(Number(a))} by ${numberToWords(Number(b))}`
+  );
+
+  // Percentages
+  result = result.replace(
+    /\b(\d+(?:\.\d+)?)\s?%/g,
+    (_, amount: string) => `${decimalToWords(amount)} percent`
+  );
+
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    result = result.replace(pattern, replacement);
+  }
+
+  // Any remaining numbers ("2,400", "2.5")
+  result = result.replace(
+    /(^|[^\w.])(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?![\w])/g,
+    (_, lead: string, whole: string, fraction?: string) =>
+      `${lead}${decimalToWords(whole + (fraction ?? ""))}`
+  );
+
+  return result;
+}
@@ -0,0 +1,29 @@
+/**
+ * TTS Text Preparation
+ *
+ * The exact text sent to TTS for a section, shared by the render payload
+ * and in-wizard previews so a preview sounds like the final video.
+ */
+
+import { applyPronunciationLexicon, type PronunciationEntry } from "@/lib/pronunciation";
+import { normalizeForTts } from "./normalize";
+
+/**
+ * Sanitize text for TTS pronunciation.
+ * Applies the pronunciation lexicon, spells out numbers and abbreviations
+ * (English narration only), then replaces "@username" with "at username"
+ * for proper pronunciation.
+ *
+ * @param text - Text content to sanitize
+ * @param lexicon - Pronunciation entries (default: none)
+ * @param language - Narration language (default: English)
+ * @returns Sanitized text ready for TTS
+ */
+export function sanitizeForTts(text: string, lexicon: PronunciationEntry[] = [], language = "en"): string {
+  const lexiconApplied = applyPronunciationLexicon(text, lexicon);
+  // Lexicon entries win: a user's "HOA" alias is applied before the default expansion
+  const pronounced = language === "en" ? normalizeForTts(lexiconApplied) : lexiconApplied;
+  // Replace @username patterns with "at username"
+  // Pattern: @ followed by word characters (letters, numbers, underscores)
+  return pronounced.replace(/@(\w+)/g, 'at $1');
+}
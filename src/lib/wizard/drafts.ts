@@ -0,0 +1,157 @@
+/**
+ * Wizard Drafts - Serialization helpers for server-side draft persistence.
+ *
+ * Drafts store the full WizardState as JSONB in the wizard_drafts table.
+ * Transient fields (submission flags, errors, in-flight enhancement status)
+ * are stripped on save and normalized on load so a resumed draft never
+ * starts in a half-submitted state.
+ */
+
+import {
+  WizardStep,
+  initialWizardState,
+  type WizardState,
+  type WizardImage,
+} from "./types";
+
+/**
+ * Debounce delay between the last reducer action and the autosave request.
+ */
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * WizardState as persisted in wizard_drafts.state.
+ */
+export type PersistedWizardState = Omit<WizardState, "isSubmitting" | "error">;
+
+/**
+ * Draft row summary used by the dashboard list.
+ */
+export interface WizardDraftSummary {
+  id: string;
+  title: string | null;
+  current_step: WizardStep;
+  image_count: number;
+  thumbnail_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Columns selected for draft summaries (images pulled out of the JSONB state).
+ */
+export const DRAFT_SUMMARY_COLUMNS =
+  "id, title, current_step, created_at, updated_at, images:state->images";
+
+/**
+ * Map a wizard_drafts row selected with DRAFT_SUMMARY_COLUMNS to a summary.
+ */
+export function toDraftSummary(row: {
+  id: string;
+  title: string | null;
+  current_step: number;
+  created_at: string;
+  updated_at: string;
+  images: unknown;
+}): WizardDraftSummary {
+  const images = Array.isArray(row.images) ? (row.images as WizardImage[]) : [];
+  return {
+    id: row.id,
+    title: row.title,
+    current_step: clampStep(row.current_step),
+    image_count: images.length,
+    thumbnail_url: images[0]?.url || null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Copy the fields worth persisting, leaving out transient ones (isSubmitting, error).
+ */
+export function serializeWizardState(state: WizardState): PersistedWizardState {
+  return {
+    currentStep: state.currentStep,
+    completedSteps: state.completedSteps,
+    propertyData: state.propertyData,
+    images: state.images,
+    scriptSections: state.scriptSections,
+    scriptHistory: state.scriptHistory,
+    styleOptions: state.styleOptions,
+    source: state.source,
+    fairHousingOverride: state.fairHousingOverride,
+  };
+}
+
+/**
+ * Rebuild a WizardState from a persisted draft payload.
+ * Missing fields fall back to the initial state so older drafts stay loadable.
+ */
+export function deserializeWizardState(raw: unknown): WizardState {
+  const persisted = (raw && typeof raw === "object" ? raw : {}) as Partial<PersistedWizardState>;
+
+  const currentStep = clampStep(persisted.currentStep);
+  const completedSteps = Array.isArray(persisted.completedSteps)
+    ? persisted.completedSteps.filter((step) => isWizardStep(step))
+    : [];
+
+  return {
+    ...initialWizardState,
+    currentStep,
+    completedSteps,
+    propertyData: persisted.propertyData ?? {},
+    images: (persisted.images ?? []).map(normalizeImage),
+    scriptSections: persisted.scriptSections ?? [],
+    scriptHistory: persisted.scriptHistory ?? [],
+    styleOptions: {
+      ...initialWizardState.styleOptions,
+      ...persisted.styleOptions,
+    },
+    source: persisted.source ?? null,
+    fairHousingOverride: persisted.fairHousingOverride ?? [],
+  };
+}
+
+/**
+ * Whether the state has enough user input to be worth saving as a draft.
+ */
+export function hasDraftableContent(state: WizardState): boolean {
+  return Boolean(
+    state.propertyData.address ||
+      state.images.length > 0 ||
+      state.scriptSections.length > 0
+  );
+}
+
+/**
+ * Dashboard title for a draft (address with city when available).
+ */
+export function getDraftTitle(state: WizardState): string | null {
+  const { address, city } = state.propertyData;
+  if (!address) return null;
+  return city ? `${address}, ${city}` : address;
+}
+
+function isWizardStep(value: unknown): value is WizardStep {
+  return (
+    typeof value === "number" &&
+    value >= WizardStep.DATA &&
+    value <= WizardStep.STYLE
+  );
+}
+
+function clampStep(value: unknown): WizardStep {
+  return isWizardStep(value) ? value : WizardStep.DATA;
+}
+
+/**
+ * In-flight enhancement calls can't survive a reload - fall back to preview
+ * (or idle when nothing is selected) so the user can re-apply.
+ */
+function normalizeImage(image: WizardImage): WizardImage {
+  if (image.enhancementStatus !== "applying") return image;
+  return {
+    ...image,
+    enhancementStatus: image.enhancement === "original" ? "idle" : "previewing",
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHistoryState, withHistory, MAX_HISTORY_ENTRIES } from "./history";
+import { initialWizardState, WizardStep, type WizardAction, type WizardImage, type WizardState } from "./types";
+
+/**
+ * The slice of the wizard reducer the history wrapper is exercised with.
+ */
+function reducer(state: WizardState, action: WizardAction): WizardState {
+  switch (action.type) {
+    case "NEXT_STEP":
+      return { ...state, currentStep: state.currentStep + 1 };
+    case "SET_PROPERTY_DATA":
+      return { ...state, propertyData: { ...state.propertyData, ...action.payload } };
+    case "REORDER_IMAGES":
+      return { ...state, images: action.payload };
+    case "SET_ENHANCED_URL":
+      return {
+        ...state,
+        images: state.images.map((img) =>
+          img.id === action.payload.imageId
+            ? { ...img, enhancedUrls: { ...img.enhancedUrls, [action.payload.preset]: action.payload.enhancedUrl } }
+            : img
+        ),
+      };
+    case "HYDRATE":
+      return action.payload;
+    default:
+      return state;
+  }
+}
+
+const historyReducer = withHistory(reducer);
+
+function image(id: string): WizardImage {
+  return {
+    id,
+    url: `https://example.com/${id}.jpg`,
+    filename: `${id}.jpg`,
+    order: 0,
+    originalUploadIndex: 0,
+    label: id,
+    roomType: "living",
+    features: [],
+    enhancement: "original",
+    enhancementStatus: "idle",
+    enhancedUrls: {},
+  };
+}
+
+describe("withHistory", () => {
+  it("undoes and redoes data actions", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Austin" } });
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Dallas" } });
+
+    history = historyReducer(history, { type: "UNDO" });
+    assert.equal(history.present.propertyData.city, "Austin");
+    assert.equal(history.future.length, 1);
+
+    history = historyReducer(history, { type: "REDO" });
+    assert.equal(history.present.propertyData.city, "Dallas");
+    assert.equal(history.revision, 2);
+  });
+
+  it("doesn't record navigation or unchanged content", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "NEXT_STEP" });
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: {} });
+    assert.equal(history.past.length, 0);
+    assert.equal(history.present.currentStep, WizardStep.UPLOAD);
+  });
+
+  it("keeps the current step on undo", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Austin" } });
+    history = historyReducer(history, { type: "NEXT_STEP" });
+    history = historyReducer(history, { type: "UNDO" });
+    assert.equal(history.present.propertyData.city, undefined);
+    assert.equal(history.present.currentStep, WizardStep.UPLOAD);
+  });
+
+  it("clears the redo stack on a new change", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Austin" } });
+    history = historyReducer(history, { type: "UNDO" });
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Dallas" } });
+    assert.equal(history.future.length, 0);
+  });
+
+  it("caps the undo stack", () => {
+    let history = createHistoryState(initialWizardState);
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES + 5; i++) {
+      history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { bedrooms: i } });
+    }
+    assert.equal(history.past.length, MAX_HISTORY_ENTRIES);
+  });
+
+  it("keeps enhanced URLs generated after the undone change", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "REORDER_IMAGES", payload: [image("a")] });
+    history = historyReducer(history, { type: "REORDER_IMAGES", payload: [image("a"), image("b")] });
+    history = historyReducer(history, {
+      type: "SET_ENHANCED_URL",
+      payload: { imageId: "a", preset: "golden_hour", enhancedUrl: "https://example.com/a-golden.jpg" },
+    });
+
+    history = historyReducer(history, { type: "UNDO" });
+    assert.deepEqual(history.present.images.map((img) => img.id), ["a"]);
+    assert.equal(history.present.images[0].enhancedUrls.golden_hour, "https://example.com/a-golden.jpg");
+  });
+
+  it("drops history when another session is hydrated", () => {
+    let history = createHistoryState(initialWizardState);
+    history = historyReducer(history, { type: "SET_PROPERTY_DATA", payload: { city: "Austin" } });
+    history = historyReducer(history, { type: "HYDRATE", payload: initialWizardState });
+    assert.equal(history.past.length, 0);
+    assert.equal(history.revision, 1);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Wizard History - Undo/redo stack around the wizard reducer.
+ *
+ * Only data actions are recorded; navigation, submission flags and async
+ * enhancement results pass straight through. Each entry snapshots the
+ * content slices of WizardState so undo never moves the user between steps.
+ */
+
+import type { WizardAction, WizardState, WizardImage } from "./types";
+
+/**
+ * Maximum number of undo entries kept per session.
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Actions that create an undo entry.
+ */
+const UNDOABLE_ACTIONS = new Set<WizardAction["type"]>([
+  "SET_PROPERTY_DATA",
+  "ADD_IMAGES",
+  "REMOVE_IMAGE",
+  "REORDER_IMAGES",
+  "UPDATE_IMAGE_ENHANCEMENT",
+  "REVERT_ENHANCEMENT",
+  "UPDATE_SCRIPT",
+  "UPDATE_SCRIPT_SECTION",
+  "SET_STYLE_OPTIONS",
+]);
+
+/**
+ * Content slices of WizardState captured by each history entry.
+ */
+export type WizardSnapshot = Pick<
+  WizardState,
+  "propertyData" | "images" | "scriptSections" | "styleOptions"
+>;
+
+/**
+ * Reducer state wrapping the wizard state with its history stacks.
+ */
+export interface WizardHistoryState {
+  present: WizardState;
+  past: WizardSnapshot[];
+  future: WizardSnapshot[];
+  /** Incremented whenever present is replaced wholesale (undo/redo/hydrate) */
+  revision: number;
+}
+
+/**
+ * Actions accepted by the history reducer.
+ */
+export type WizardHistoryAction =
+  | WizardAction
+  | { type: "UNDO" }
+  | { type: "REDO" };
+
+function takeSnapshot(state: WizardState): WizardSnapshot {
+  return {
+    propertyData: state.propertyData,
+    images: state.images,
+    scriptSections: state.scriptSections,
+    styleOptions: state.styleOptions,
+  };
+}
+
+/**
+ * Apply a snapshot to the present state.
+ * Enhanced URL caches are carried over from the present so undoing never
+ * forces a paid enhancement to be regenerated.
+ */
+function restoreSnapshot(present: WizardState, snapshot: WizardSnapshot): WizardState {
+  const cacheById = new Map(present.images.map((img) => [img.id, img.enhancedUrls]));
+  const images: WizardImage[] = snapshot.images.map((img) => {
+    const cache = cacheById.get(img.id);
+    return cache ? { ...img, enhancedUrls: { ...img.enhancedUrls, ...cache } } : img;
+  });
+
+  return {
+    ...present,
+    ...snapshot,
+    images,
+    error: null,
+  };
+}
+
+/**
+ * Whether an action actually changed recorded content.
+ * Property and style updates merge partial payloads, so compare by value.
+ */
+function hasContentChanged(before: WizardState, after: WizardState): boolean {
+  return (
+    before.images !== after.images ||
+    before.scriptSections !== after.scriptSections ||
+    JSON.stringify(before.propertyData) !== JSON.stringify(after.propertyData) ||
+    JSON.stringify(before.styleOptions) !== JSON.stringify(after.styleOptions)
+  );
+}
+
+/**
+ * Create the initial history state for a wizard state.
+ */
+export function createHistoryState(present: WizardState): WizardHistoryState {
+  return { present, past: [], future: [], revision: 0 };
+}
+
+/**
+ * Wrap a wizard reducer with undo/redo support.
+ */
+export function withHistory(
+  reducer: (state: WizardState, action: WizardAction) => WizardState
+) {
+  return function historyReducer(
+    history: WizardHistoryState,
+    action: WizardHistoryAction
+  ): WizardHistoryState {
+    const { present, past, future, revision } = history;
+
+    switch (action.type) {
+      case "UNDO": {
+        if (past.length === 0) return history;
+        return {
+          present: restoreSnapshot(present, past[past.length - 1]),
+          past: past.slice(0, -1),
+          future: [takeSnapshot(present), ...future],
+          revision: revision + 1,
+        };
+      }
+
+      case "REDO": {
+        if (future.length === 0) return history;
+        return {
+          present: restoreSnapshot(present, future[0]),
+          past: [...past, takeSnapshot(present)],
+          future: future.slice(1),
+          revision: revision + 1,
+        };
+      }
+
+      case "HYDRATE":
+      case "RESET":
+        // A different wizard session - previous history no longer applies
+        return {
+          present: reducer(present, action),
+          past: [],
+          future: [],
+          revision: revision + 1,
+        };
+    }
+
+    const next = reducer(present, action);
+    if (next === present) return history;
+
+    if (!UNDOABLE_ACTIONS.has(action.type) || !hasContentChanged(present, next)) {
+      return { ...history, present: next };
+    }
+
+    return {
+      present: next,
+      past: [...past, takeSnapshot(present)].slice(-MAX_HISTORY_ENTRIES),
+      future: [],
+      revision,
+    };
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Wizard Prefill - Build a WizardState from a previously submitted video.
+ *
+ * Two modes:
+ * - template: "Start from existing video" - script sections, voice, music
+ *   and agent branding carry over; address and photos are cleared
+ * - revision: "Revise" - the full listing is restored and the wizard opens
+ *   on the Script step so a new render can be submitted against it
+ * - language: "Add language version" - like revision, but the script and
+ *   voice are cleared so both can be chosen for another language
+ */
+
+import {
+  NARRATION_LANGUAGE_OPTIONS,
+  NARRATION_TONE_OPTIONS,
+  WizardStep,
+  initialWizardState,
+  type EnhancementPreset,
+  type MusicSelection,
+  type NarrationLanguage,
+  type NarrationTone,
+  type PropertyData,
+  type RoomType,
+  type ScriptSection,
+  type StyleOptions,
+  type WizardImage,
+  type WizardState,
+} from "./types";
+import type { N8nTourVideoPayload } from "@/lib/n8n/transform";
+
+/**
+ * Columns read from the videos table for prefill.
+ */
+export const PREFILL_VIDEO_COLUMNS =
+  "id, listing_id, status, version, voice_id, music_enabled, mls_dual_output, script_sections, n8n_payload, language, listing_snapshot";
+
+/**
+ * Columns read from the listings table for prefill.
+ */
+export const PREFILL_LISTING_COLUMNS =
+  "id, address, city, state, zip, price, bedrooms, bathrooms, sqft, property_type, description, neighborhood_pois, images";
+
+/**
+ * Prefill modes supported by /api/videos/[id]/prefill.
+ */
+export type PrefillMode = "template" | "revision" | "language";
+
+/**
+ * Videos row subset used for prefill.
+ */
+export interface PrefillVideoRow {
+  id: string;
+  listing_id: string;
+  status: string;
+  version: number | null;
+  voice_id: string | null;
+  music_enabled: boolean | null;
+  mls_dual_output: boolean | null;
+  script_sections: Array<Omit<ScriptSection, "originalContent">> | null;
+  n8n_payload: Partial<N8nTourVideoPayload> | null;
+  language: string | null;
+  /** Listing fields as this video rendered them (NULL before migration 022) */
+  listing_snapshot: Omit<PrefillListingRow, "id"> | null;
+}
+
+/**
+ * Listings row subset used for prefill.
+ */
+export interface PrefillListingRow {
+  id: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  price: number | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  sqft: number | null;
+  property_type: string | null;
+  description: string | null;
+  neighborhood_pois: string[] | null;
+  images: ListingImageRecord[] | null;
+}
+
+/**
+ * Image record as stored in listings.images by /api/listings/create.
+ * `url` is the enhanced URL when an enhancement was applied.
+ */
+export interface ListingImageRecord {
+  id: string;
+  url: string;
+  originalUrl?: string;
+  filename: string;
+  order: number;
+  label: string;
+  roomType: RoomType;
+  features: string[];
+  enhancement?: EnhancementPreset;
+}
+
+/**
+ * Music track matched from the source video's music URL.
+ */
+export interface PrefillMusicTrack {
+  id: string;
+  title: string;
+  file_url: string;
+}
+
+/**
+ * Display label for a listing ("123 Main St, Austin").
+ */
+export function getListingLabel(listing: Pick<PrefillListingRow, "address" | "city">): string {
+  return listing.city ? `${listing.address}, ${listing.city}` : listing.address;
+}
+
+/**
+ * The listing as a video rendered it: its snapshot over the shared row,
+ * which later revisions overwrite. Older videos have no snapshot.
+ */
+export function getRenderedListing(video: PrefillVideoRow, listing: PrefillListingRow): PrefillListingRow {
+  return video.listing_snapshot ? { ...listing, ...video.listing_snapshot, id: listing.id } : listing;
+}
+
+/**
+ * Recover the narration tone from the stored payload. Videos created before
+ * tones were selectable stored "engaging", which maps to the default.
+ */
+function getNarrationTone(preferredTone: string | undefined): NarrationTone {
+  return NARRATION_TONE_OPTIONS.find((option) => option.value === preferredTone)?.value ?? "luxury";
+}
+
+/**
+ * Narration language of a stored video (rows before migration 015 are English).
+ */
+function getNarrationLanguage(language: string | null): NarrationLanguage {
+  return NARRATION_LANGUAGE_OPTIONS.find((option) => option.value === language)?.value ?? "en";
+}
+
+/**
+ * Recover the music selection from the stored payload.
+ * Library tracks are matched by URL; anything else is treated as an upload.
+ */
+function buildMusicSelection(
+  payload: Partial<N8nTourVideoPayload> | null,
+  musicTrack: PrefillMusicTrack | null
+): MusicSelection {
+  if (musicTrack) {
+    return {
+      type: "library",
+      trackId: musicTrack.id,
+      trackUrl: musicTrack.file_url,
+      trackName: musicTrack.title,
+    };
+  }
+  if (payload?.music) {
+    return { type: "upload", trackUrl: payload.music, trackName: "Previous track" };
+  }
+  return { type: "none" };
+}
+
+/**
+ * Property fields shared by both modes: specs and agent branding.
+ */
+function buildBasePropertyData(
+  video: PrefillVideoRow,
+  listing: PrefillListingRow
+): Partial<PropertyData> {
+  const payload = video.n8n_payload;
+  return {
+    propertyType: listing.property_type || undefined,
+    bedrooms: listing.bedrooms ?? undefined,
+    bathrooms: listing.bathrooms ?? undefined,
+    squareFeet: listing.sqft ?? undefined,
+    listingPrice: listing.price ?? undefined,
+    description: listing.description || undefined,
+    features: listing.neighborhood_pois || [],
+    agentName: payload?.agentName || undefined,
+    agentPhone: payload?.agentPhone || undefined,
+    agentEmail: payload?.agentEmail || undefined,
+    agentSocial: payload?.social_handles || undefined,
+    agentCta: payload?.agentCta || undefined,
+    agentBrandName: payload?.brandName || undefined,
+    agentLogoUrl: payload?.logoUrl || undefined,
+    agentPhotoUrl: payload?.headshotUrl || undefined,
+  };
+}
+
+/**
+ * Restore script sections, optionally keeping their image references.
+ */
+function buildScriptSections(
+  video: PrefillVideoRow,
+  keepImageIds: boolean
+): ScriptSection[] {
+  return (video.script_sections || []).map((section, index) => ({
+    id: section.id,
+    type: section.type,
+    title: section.title,
+    content: section.content,
+    originalContent: section.content,
+    imageIds: keepImageIds ? section.imageIds || [] : [],
+    order: section.order ?? index,
+  }));
+}
+
+/**
+ * Restore voice, music, MLS options and the section template.
+ */
+function buildStyleOptions(
+  video: PrefillVideoRow,
+  listing: PrefillListingRow,
+  musicTrack: PrefillMusicTrack | null
+): Partial<StyleOptions> {
+  const musicEnabled = video.music_enabled ?? true;
+  return {
+    ...initialWizardState.styleOptions,
+    voiceId: video.voice_id || undefined,
+    voiceName: video.voice_id ? `Voice from ${getListingLabel(listing)}` : undefined,
+    voiceSource: "library",
+    musicEnabled,
+    musicSelection: musicEnabled
+      ? buildMusicSelection(video.n8n_payload, musicTrack)
+      : { type: "none" },
+    mlsDualOutput: video.mls_dual_output ?? true,
+    aspectRatios: video.n8n_payload?.aspectRatios ?? ["16:9"],
+    captionStyle: video.n8n_payload?.captionStyle ?? "none",
+    narrationTone: getNarrationTone(video.n8n_payload?.preferredTone),
+    narrationLanguage: getNarrationLanguage(video.language),
+    sectionTemplate: video.n8n_payload?.sectionTemplate,
+  };
+}
+
+/**
+ * Restore wizard images from the listing's stored image records.
+ * Enhanced URLs go back into the cache so the applied preset stays applied.
+ */
+function buildWizardImages(listing: PrefillListingRow): WizardImage[] {
+  return [...(listing.images || [])]
+    .sort((a, b) => a.order - b.order)
+    .map((record, index) => {
+      const enhancement = record.enhancement || "original";
+      const originalUrl = record.originalUrl || record.url;
+      const isEnhanced = enhancement !== "original" && record.url !== originalUrl;
+      return {
+        id: record.id,
+        url: originalUrl,
+        filename: record.filename,
+        order: index,
+        originalUploadIndex: index,
+        label: record.label,
+        roomType: record.roomType,
+        features: record.features || [],
+        enhancement: isEnhanced ? enhancement : "original",
+        enhancementStatus: isEnhanced ? "applied" : "idle",
+        enhancedUrls: isEnhanced ? { [enhancement]: record.url } : {},
+      };
+    });
+}
+
+/**
+ * Build a template WizardState from a past video.
+ *
+ * @param video - Source videos row
+ * @param listing - Source listings row
+ * @param musicTrack - Library track matching the video's music URL, if any
+ */
+export function buildTemplateState(
+  video: PrefillVideoRow,
+  listing: PrefillListingRow,
+  musicTrack: PrefillMusicTrack | null
+): WizardState {
+  return {
+    ...initialWizardState,
+    currentStep: WizardStep.DATA,
+    completedSteps: [],
+    // Address fields are left empty for the new property
+    propertyData: buildBasePropertyData(video, listing),
+    images: [],
+    // Image references belong to the old photos
+    scriptSections: buildScriptSections(video, false),
+    styleOptions: buildStyleOptions(video, listing, musicTrack),
+    source: {
+      kind: "template",
+      videoId: video.id,
+      label: getListingLabel(listing),
+    },
+  };
+}
+
+/**
+ * Build a revision WizardState for re-rendering a past video's listing.
+ * Opens on the Script step with Data and Upload already complete.
+ *
+ * @param video - Video being revised
+ * @param listing - The video's listings row
+ * @param musicTrack - Library track matching the video's music URL, if any
+ */
+export function buildRevisionState(
+  video: PrefillVideoRow,
+  listing: PrefillListingRow,
+  musicTrack: PrefillMusicTrack | null
+): WizardState {
+  return {
+    ...initialWizardState,
+    currentStep: WizardStep.SCRIPT,
+    completedSteps: [WizardStep.DATA, WizardStep.UPLOAD],
+    propertyData: {
+      ...buildBasePropertyData(video, listing),
+      address: listing.address,
+      city: listing.city || undefined,
+      state: listing.state || undefined,
+      zipCode: listing.zip || undefined,
+    },
+    images: buildWizardImages(listing),
+    scriptSections: buildScriptSections(video, true),
+    styleOptions: buildStyleOptions(video, listing, musicTrack),
+    source: {
+      kind: "revision",
+      videoId: video.id,
+      listingId: listing.id,
+      version: video.version ?? 1,
+      label: getListingLabel(listing),
+    },
+  };
+}
+
+/**
+ * Build a language-version WizardState: the listing of a completed video,
+ * narrated in another language. Opens on the Script step with no script,
+ * so it is generated natively once the language is confirmed, and no
+ * voice, since the source voice speaks the source language.
+ *
+ * @param video - Video to add a language version of
+ * @param listing - The video's listings row
+ * @param musicTrack - Library track matching the video's music URL, if any
+ */
+export function buildLanguageState(
+  video: PrefillVideoRow,
+  listing: PrefillListingRow,
+  musicTrack: PrefillMusicTrack | null
+): WizardState {
+  const revision = buildRevisionState(video, listing, musicTrack);
+  const sourceLanguage = getNarrationLanguage(video.language);
+  // Suggest the first language the listing isn't already narrated in
+  const targetLanguage =
+    NARRATION_LANGUAGE_OPTIONS.find((option) => option.value !== sourceLanguage)?.value ?? sourceLanguage;
+
+  return {
+    ...revision,
+    scriptSections: [],
+    styleOptions: {
+      ...revision.styleOptions,
+      voiceId: undefined,
+      voiceName: undefined,
+      voiceSource: undefined,
+      narrationLanguage: targetLanguage,
+    },
+    source: {
+      kind: "language",
+      videoId: video.id,
+      listingId: listing.id,
+      version: video.version ?? 1,
+      sourceLanguage,
+      label: getListingLabel(listing),
+    },
+  };
+}
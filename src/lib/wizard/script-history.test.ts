@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ScriptRevision, ScriptRevisionSource, ScriptSection } from "./types";
+import {
+  MAX_SCRIPT_REVISIONS,
+  applyScriptRevision,
+  getRevisionContent,
+  getSectionRevisions,
+  recordScriptRevision,
+} from "./script-history";
+
+function script(opening: string, living: string): ScriptSection[] {
+  return [
+    { id: "s1", type: "opening", title: "Opening", content: opening, originalContent: opening, imageIds: ["a"], order: 0 },
+    { id: "s2", type: "living", title: "Living", content: living, originalContent: living, imageIds: ["b"], order: 1 },
+  ];
+}
+
+function meta(id: string, source: ScriptRevisionSource, minute = 0) {
+  return { id, source, createdAt: new Date(Date.UTC(2026, 0, 1, 12, minute)).toISOString() };
+}
+
+describe("recordScriptRevision", () => {
+  it("records the first generation without an original", () => {
+    const history = recordScriptRevision([], [], script("Welcome.", "Bright rooms."), meta("r1", "generated"));
+    assert.deepEqual(history.map((r) => r.source), ["generated"]);
+  });
+
+  it("records the script before the first change as the original", () => {
+    const history = recordScriptRevision(
+      [],
+      script("Welcome.", "Bright rooms."),
+      script("Welcome home.", "Bright rooms."),
+      meta("r1", "edited"),
+      "opening"
+    );
+    assert.deepEqual(history.map((r) => [r.id, r.source]), [["r1-original", "original"], ["r1", "edited"]]);
+  });
+
+  it("skips changes that leave the script as it was", () => {
+    const first = recordScriptRevision([], [], script("Welcome.", "Bright rooms."), meta("r1", "generated"));
+    const second = recordScriptRevision(first, script("Welcome.", "Bright rooms."), script("Welcome.", "Bright rooms."), meta("r2", "edited"));
+    assert.equal(second, first);
+  });
+
+  it("merges edits to one section within the merge window", () => {
+    let history = recordScriptRevision([], [], script("A.", "B."), meta("r1", "generated"));
+    history = recordScriptRevision(history, script("A.", "B."), script("AB.", "B."), meta("r2", "edited", 1), "opening");
+    history = recordScriptRevision(history, script("AB.", "B."), script("ABC.", "B."), meta("r3", "edited", 2), "opening");
+    assert.equal(history.length, 2);
+    assert.equal(getRevisionContent(history[1], "opening"), "ABC.");
+  });
+
+  it("keeps edits apart across sections and after the window", () => {
+    let history = recordScriptRevision([], [], script("A.", "B."), meta("r1", "generated"));
+    history = recordScriptRevision(history, script("A.", "B."), script("AB.", "B."), meta("r2", "edited", 1), "opening");
+    history = recordScriptRevision(history, script("AB.", "B."), script("AB.", "BC."), meta("r3", "edited", 2), "living");
+    history = recordScriptRevision(history, script("AB.", "BC."), script("AB.", "BCD."), meta("r4", "edited", 10), "living");
+    assert.deepEqual(history.map((r) => r.id), ["r1", "r2", "r3", "r4"]);
+  });
+
+  it("drops the oldest revisions past the cap", () => {
+    let history: ScriptRevision[] = [];
+    for (let i = 0; i < MAX_SCRIPT_REVISIONS + 5; i++) {
+      history = recordScriptRevision(history, [], script(`Take ${i}.`, "B."), meta(`r${i}`, "generated"));
+    }
+    assert.equal(history.length, MAX_SCRIPT_REVISIONS);
+    assert.equal(history[0].id, "r5");
+  });
+});
+
+describe("getSectionRevisions", () => {
+  it("returns only revisions where the section changed", () => {
+    let history = recordScriptRevision([], [], script("A.", "B."), meta("r1", "generated"));
+    history = recordScriptRevision(history, script("A.", "B."), script("A.", "B2."), meta("r2", "regenerated"), "living");
+    history = recordScriptRevision(history, script("A.", "B2."), script("A2.", "B2."), meta("r3", "regenerated"), "opening");
+    assert.deepEqual(getSectionRevisions(history, "opening").map((r) => r.id), ["r1", "r3"]);
+    assert.deepEqual(getSectionRevisions(history, "living").map((r) => r.id), ["r1", "r2"]);
+  });
+});
+
+describe("applyScriptRevision", () => {
+  const revision = recordScriptRevision([], [], script("Old opening.", "Old living."), meta("r1", "generated"))[0];
+
+  it("restores every section's text, keeping ids and images", () => {
+    const restored = applyScriptRevision(script("New opening.", "New living."), revision);
+    assert.deepEqual(restored.map((s) => [s.id, s.content, s.imageIds[0]]), [
+      ["s1", "Old opening.", "a"],
+      ["s2", "Old living.", "b"],
+    ]);
+  });
+
+  it("restores a single section", () => {
+    const restored = applyScriptRevision(script("New opening.", "New living."), revision, "living");
+    assert.deepEqual(restored.map((s) => s.content), ["New opening.", "Old living."]);
+  });
+});
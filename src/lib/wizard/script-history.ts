@@ -0,0 +1,146 @@
+/**
+ * Script History - Revision log for the Script step.
+ *
+ * Every script change (generation, section regeneration, edits, Fit to
+ * video, restores) appends a snapshot of the whole script to
+ * WizardState.scriptHistory, which is saved with the draft. Unlike the
+ * undo stack this survives reloads and is never truncated by new edits,
+ * so any earlier version can be brought back.
+ */
+
+import type {
+  ScriptRevision,
+  ScriptRevisionMeta,
+  ScriptRevisionSource,
+  ScriptSection,
+  ScriptSectionType,
+} from "./types";
+
+/**
+ * Maximum number of revisions kept per draft (oldest dropped first).
+ */
+export const MAX_SCRIPT_REVISIONS = 50;
+
+/**
+ * Edits to the same section within this window are merged into one
+ * revision, so a typing session doesn't flood the history.
+ */
+const EDIT_MERGE_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Display labels for revision sources.
+ */
+export const SCRIPT_REVISION_SOURCE_LABELS: Record<ScriptRevisionSource, string> = {
+  original: "Original",
+  generated: "Generated",
+  regenerated: "Regenerated",
+  edited: "Edited",
+  tightened: "Fit to video",
+  restored: "Restored",
+};
+
+function toRevisionSections(sections: ScriptSection[]): ScriptRevision["sections"] {
+  return sections.map((s) => ({ type: s.type, content: s.content }));
+}
+
+function isSameScript(a: ScriptRevision["sections"], b: ScriptRevision["sections"]): boolean {
+  return a.length === b.length && a.every((s, i) => s.type === b[i].type && s.content === b[i].content);
+}
+
+/**
+ * Append a revision for a script change.
+ *
+ * @param history - Current revisions, oldest first
+ * @param before - Script before the change; recorded as the "original"
+ *   revision when the history is still empty
+ * @param after - Script after the change
+ * @param meta - Revision id, timestamp and source
+ * @param sectionType - Section that changed, for single-section actions
+ */
+export function recordScriptRevision(
+  history: ScriptRevision[],
+  before: ScriptSection[],
+  after: ScriptSection[],
+  meta: ScriptRevisionMeta,
+  sectionType: ScriptSectionType | null = null
+): ScriptRevision[] {
+  const sections = toRevisionSections(after);
+  let revisions = history;
+
+  if (revisions.length === 0 && before.length > 0) {
+    revisions = [
+      {
+        id: `${meta.id}-original`,
+        createdAt: meta.createdAt,
+        source: "original",
+        sectionType: null,
+        sections: toRevisionSections(before),
+      },
+    ];
+  }
+
+  const latest = revisions[revisions.length - 1];
+  if (latest && isSameScript(latest.sections, sections)) {
+    return revisions;
+  }
+
+  // Keep typing in one section as a single revision
+  if (
+    latest &&
+    meta.source === "edited" &&
+    latest.source === "edited" &&
+    latest.sectionType === sectionType &&
+    Date.parse(meta.createdAt) - Date.parse(latest.createdAt) < EDIT_MERGE_WINDOW_MS
+  ) {
+    return [...revisions.slice(0, -1), { ...latest, createdAt: meta.createdAt, sections }];
+  }
+
+  return [
+    ...revisions,
+    { ...meta, sectionType, sections },
+  ].slice(-MAX_SCRIPT_REVISIONS);
+}
+
+/**
+ * Revisions in which a section's text changed, oldest first. The first
+ * revision containing the section always counts.
+ */
+export function getSectionRevisions(
+  history: ScriptRevision[],
+  type: ScriptSectionType
+): ScriptRevision[] {
+  let previous: string | undefined;
+  return history.filter((revision) => {
+    const content = revision.sections.find((s) => s.type === type)?.content;
+    if (content === undefined || content === previous) return false;
+    previous = content;
+    return true;
+  });
+}
+
+/**
+ * Content of a section in a revision ("" if the revision doesn't have it).
+ */
+export function getRevisionContent(revision: ScriptRevision, type: ScriptSectionType): string {
+  return revision.sections.find((s) => s.type === type)?.content ?? "";
+}
+
+/**
+ * Current script with a revision's text restored, either for every
+ * section or just one. Section ids, titles and image references are kept.
+ *
+ * @param sections - Current script
+ * @param revision - Revision to restore from
+ * @param sectionType - Restore only this section
+ */
+export function applyScriptRevision(
+  sections: ScriptSection[],
+  revision: ScriptRevision,
+  sectionType?: ScriptSectionType
+): ScriptSection[] {
+  return sections.map((section) => {
+    if (sectionType && section.type !== sectionType) return section;
+    const restored = revision.sections.find((s) => s.type === section.type);
+    return restored ? { ...section, content: restored.content } : section;
+  });
+}
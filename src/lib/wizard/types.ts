@@ -2,6 +2,8 @@
  * Wizard Types - Type definitions for the multi-step video creation wizard.
  */
 
+import type { ImageQuality } from "@/lib/image-quality";
+
 /**
  * WizardStep enum representing the four steps of the wizard.
  */
@@ -36,6 +38,11 @@ export interface PropertyData {
   squareFeet: number;
   lotSize?: number;
   lotSizeUnit?: "sqft" | "acres";
+  // Land and commercial details (see the property type profiles)
+  zoning?: string;
+  frontage?: number;        // Road frontage in feet
+  capRate?: number;         // Percent
+  tenants?: string;         // Current tenants and lease terms
   listingPrice: number;
   description: string;
   features: string[];
@@ -73,6 +80,33 @@ export type RoomType =
   | "game_room"        // Game room/recreation
   | "other";
 
+/**
+ * Room types with display labels, for mapping rooms to template sections.
+ */
+export const ROOM_TYPE_OPTIONS: Array<{
+  value: RoomType;
+  label: string;
+}> = [
+  { value: "exterior", label: "Exterior" },
+  { value: "entry", label: "Entry" },
+  { value: "living", label: "Living Room" },
+  { value: "kitchen", label: "Kitchen" },
+  { value: "dining", label: "Dining" },
+  { value: "master_bedroom", label: "Primary Bedroom" },
+  { value: "guest_bedroom", label: "Guest Bedroom" },
+  { value: "bedroom", label: "Bedroom" },
+  { value: "bathroom", label: "Bathroom" },
+  { value: "home_office", label: "Office" },
+  { value: "outdoor", label: "Outdoor" },
+  { value: "gym", label: "Gym" },
+  { value: "media_room", label: "Media Room" },
+  { value: "walk_in_closet", label: "Walk-in Closet" },
+  { value: "laundry", label: "Laundry" },
+  { value: "wine_cellar", label: "Wine Cellar" },
+  { value: "game_room", label: "Game Room" },
+  { value: "other", label: "Other" },
+];
+
 /**
  * Enhancement preset options for image processing.
  * Applied via Kie.ai in n8n pipeline.
@@ -116,12 +150,13 @@ export interface WizardImage {
   enhancement: EnhancementPreset;   // Image enhancement preset (default: 'original')
   enhancementStatus: EnhancementStatus;  // Status of enhancement (default: 'idle')
   enhancedUrls: EnhancedUrlCache;   // Cache of enhanced URLs per preset (persists across reverts)
+  quality?: ImageQuality;           // Blur, exposure, tilt, resolution and clutter (measured on upload)
 }
 
 /**
- * Script section types for the 6 tour sections.
+ * Section types of the default 6-section tour.
  */
-export type ScriptSectionType =
+export type BuiltInSectionType =
   | "opening"    // Exterior/curb appeal
   | "living"     // Entry, living, kitchen, dining
   | "private"    // Bedrooms, bathrooms
@@ -129,6 +164,34 @@ export type ScriptSectionType =
   | "outdoor"    // Backyard, outdoor living, POIs
   | "closing";   // CTA wrap-up
 
+/**
+ * Script section type: a built-in section, or a key defined by a section
+ * template ("views", "lot_zoning"). Every structure starts with "opening"
+ * and ends with "closing".
+ */
+export type ScriptSectionType = BuiltInSectionType | (string & {});
+
+/**
+ * One section of a tour structure and the room types whose images it
+ * narrates. Order in the structure is narration order.
+ */
+export interface ScriptSectionDefinition {
+  type: ScriptSectionType;
+  title: string;
+  roomTypes: RoomType[];
+  approach?: string;       // What the narration should do (custom sections)
+}
+
+/**
+ * Section template chosen in the Script step. The sections are copied in
+ * so a draft keeps its structure if the template is later edited.
+ */
+export interface SectionTemplateSelection {
+  id: string;
+  name: string;
+  sections: ScriptSectionDefinition[];
+}
+
 /**
  * Script section for narration (Step 3 - SCRIPT).
  * Section-based approach: 5 cohesive sections instead of per-image scripts.
@@ -143,6 +206,38 @@ export interface ScriptSection {
   order: number;
 }
 
+/**
+ * What produced a script revision.
+ */
+export type ScriptRevisionSource =
+  | "original"     // Script as it was before history was recorded (templates, older drafts)
+  | "generated"    // Full generation or Regenerate All
+  | "regenerated"  // Single-section regeneration
+  | "edited"       // Manual edits (consecutive edits to one section are merged)
+  | "tightened"    // Fit to video
+  | "restored";    // Restored from an earlier revision
+
+/**
+ * Snapshot of the whole script after a change. Per-section history is
+ * derived from these (see script-history.ts).
+ */
+export interface ScriptRevision {
+  id: string;
+  createdAt: string;                    // ISO timestamp
+  source: ScriptRevisionSource;
+  sectionType: ScriptSectionType | null; // Section that changed, or null for whole-script changes
+  sections: Pick<ScriptSection, "type" | "content">[];
+}
+
+/**
+ * Revision details attached to script actions by the wizard context.
+ */
+export interface ScriptRevisionMeta {
+  id: string;
+  createdAt: string;
+  source: ScriptRevisionSource;
+}
+
 /**
  * Voice source types for tracking where the voice came from.
  */
@@ -158,6 +253,89 @@ export interface MusicSelection {
   trackName?: string;
 }
 
+/**
+ * Output aspect ratios. 16:9 is the primary render; the others are
+ * reframed from it for Reels, TikTok and Shorts.
+ */
+export type AspectRatio = "16:9" | "9:16" | "1:1";
+
+/**
+ * Aspect ratio choices for display in the Style step, primary first.
+ */
+export const ASPECT_RATIO_OPTIONS: Array<{
+  value: AspectRatio;
+  label: string;
+  description: string;
+}> = [
+  { value: "16:9", label: "Landscape", description: "YouTube, MLS, websites" },
+  { value: "9:16", label: "Vertical", description: "Reels, TikTok, Shorts" },
+  { value: "1:1", label: "Square", description: "Instagram and Facebook feed" },
+];
+
+/**
+ * Burned-in caption look ("none" ships captions only as SRT/WebVTT files).
+ */
+export type CaptionStyle = "none" | "classic" | "boxed" | "bold";
+
+/**
+ * Caption style choices for display in the Style step.
+ */
+export const CAPTION_STYLE_OPTIONS: Array<{
+  value: CaptionStyle;
+  label: string;
+  description: string;
+}> = [
+  { value: "none", label: "No burned-in captions", description: "Caption files are still available to download" },
+  { value: "classic", label: "Classic", description: "White text with a dark outline" },
+  { value: "boxed", label: "Boxed", description: "White text on a translucent bar" },
+  { value: "bold", label: "Bold", description: "Large yellow text for muted autoplay" },
+];
+
+/**
+ * Narrator persona and writing style for the script. Chosen in the Script
+ * step and passed to n8n as preferredTone.
+ */
+export type NarrationTone =
+  | "luxury"
+  | "family_warm"
+  | "investor"
+  | "modern_minimal"
+  | "vacation_rental";
+
+/**
+ * Narration tone choices for display in the Script step.
+ */
+export const NARRATION_TONE_OPTIONS: Array<{
+  value: NarrationTone;
+  label: string;
+  description: string;
+}> = [
+  { value: "luxury", label: "Luxury", description: "Cinematic and elegant, for high-end listings" },
+  { value: "family_warm", label: "Warm & Inviting", description: "Friendly and homey, focused on everyday comfort" },
+  { value: "investor", label: "Investor", description: "Analytical: layout, condition, income potential" },
+  { value: "modern_minimal", label: "Modern Minimal", description: "Spare, confident lines about design and light" },
+  { value: "vacation_rental", label: "Vacation Rental", description: "Upbeat getaway feel for short-term rentals" },
+];
+
+/**
+ * Narration language (ISO 639-1, matching the ElevenLabs voice library).
+ * Scripts are written natively in the language, not translated.
+ */
+export type NarrationLanguage = "en" | "es" | "zh";
+
+/**
+ * Narration language choices for display in the Script step.
+ */
+export const NARRATION_LANGUAGE_OPTIONS: Array<{
+  value: NarrationLanguage;
+  label: string;
+  description: string;
+}> = [
+  { value: "en", label: "English", description: "American English narration" },
+  { value: "es", label: "Spanish", description: "Neutral Latin American Spanish" },
+  { value: "zh", label: "Mandarin", description: "Simplified Chinese script, Mandarin narration" },
+];
+
 /**
  * Style options for video generation (Step 4 - STYLE).
  */
@@ -168,8 +346,41 @@ export interface StyleOptions {
   musicEnabled: boolean;
   musicSelection: MusicSelection;
   mlsDualOutput: boolean;
+  aspectRatios: AspectRatio[];    // Always includes 16:9
+  captionStyle: CaptionStyle;
+  narrationTone: NarrationTone;   // Set in the Script step
+  narrationLanguage: NarrationLanguage; // Set in the Script step
+  sectionTemplate?: SectionTemplateSelection; // Set in the Script step; default six sections when unset
 }
 
+/**
+ * Past video a wizard session was seeded from (null for a blank start).
+ * - template: new listing reusing the video's script, voice and music
+ * - revision: new render of the same listing, linked to the source video
+ * - language: same listing narrated in another language, as its own video
+ */
+export type WizardSource =
+  | {
+      kind: "template";
+      videoId: string;
+      label: string;        // Source video address, for display
+    }
+  | {
+      kind: "revision";
+      videoId: string;
+      listingId: string;
+      version: number;      // Version of the video being revised
+      label: string;
+    }
+  | {
+      kind: "language";
+      videoId: string;
+      listingId: string;
+      version: number;      // Version the new language renders alongside
+      sourceLanguage: NarrationLanguage;
+      label: string;
+    };
+
 /**
  * Complete wizard state.
  */
@@ -179,7 +390,11 @@ export interface WizardState {
   propertyData: Partial<PropertyData>;
   images: WizardImage[];
   scriptSections: ScriptSection[];
+  scriptHistory: ScriptRevision[];
   styleOptions: Partial<StyleOptions>;
+  source: WizardSource | null;
+  /** High-severity Fair Housing phrases the user chose to keep (see getBlockingPhrases) */
+  fairHousingOverride: string[];
   isSubmitting: boolean;
   error: string | null;
 }
@@ -199,11 +414,13 @@ export type WizardAction =
   | { type: "SET_ENHANCEMENT_STATUS"; payload: { imageId: string; status: EnhancementStatus } }
   | { type: "SET_ENHANCED_URL"; payload: { imageId: string; preset: Exclude<EnhancementPreset, "original">; enhancedUrl: string } }
   | { type: "REVERT_ENHANCEMENT"; payload: { imageId: string } }
-  | { type: "UPDATE_SCRIPT"; payload: ScriptSection[] }
-  | { type: "UPDATE_SCRIPT_SECTION"; payload: ScriptSection }
+  | { type: "UPDATE_SCRIPT"; payload: ScriptSection[]; revision: ScriptRevisionMeta }
+  | { type: "UPDATE_SCRIPT_SECTION"; payload: ScriptSection; revision: ScriptRevisionMeta }
   | { type: "SET_STYLE_OPTIONS"; payload: Partial<StyleOptions> }
+  | { type: "SET_FAIR_HOUSING_OVERRIDE"; payload: string[] }
   | { type: "SET_SUBMITTING"; payload: boolean }
   | { type: "SET_ERROR"; payload: string | null }
+  | { type: "HYDRATE"; payload: WizardState }
   | { type: "RESET" };
 
 /**
@@ -217,13 +434,15 @@ export const WIZARD_VALIDATION = {
   MIN_IMAGES: 5,
   /** Maximum images allowed */
   MAX_IMAGES: 15,
+  /** Photos that can be dropped at once, before near-duplicates are culled to MAX_IMAGES */
+  MAX_UPLOAD_IMAGES: 40,
   /** Minimum characters per script section to avoid awkward TTS timing */
   MIN_SECTION_CHARS: 50,
   /** Target words per section for optimal narration */
   TARGET_SECTION_WORDS: 50,
   /** Max words per section before warning (amber at 60, red at 70) */
   MAX_SECTION_WORDS: 60,
-  /** Max total words across all sections to prevent audio timing issues */
+  /** Max total words across all sections to prevent audio timing issues (English; see LANGUAGE_PROFILES) */
   MAX_TOTAL_WORDS: 200,
 } as const;
 
@@ -233,11 +452,18 @@ export const initialWizardState: WizardState = {
   propertyData: {},
   images: [],
   scriptSections: [],
+  scriptHistory: [],
   styleOptions: {
     musicEnabled: true,
     musicSelection: { type: "none" },
     mlsDualOutput: true,
+    aspectRatios: ["16:9"],
+    captionStyle: "none",
+    narrationTone: "luxury",
+    narrationLanguage: "en",
   },
+  source: null,
+  fairHousingOverride: [],
   isSubmitting: false,
   error: null,
 };
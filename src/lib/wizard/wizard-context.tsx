@@ -5,8 +5,12 @@ import {
   useContext,
   useReducer,
   useCallback,
+  useEffect,
+  useRef,
+  useState,
   type ReactNode,
 } from "react";
+import { nanoid } from "nanoid";
 import {
   WizardStep,
   type WizardState,
@@ -14,12 +18,20 @@ import {
   type PropertyData,
   type WizardImage,
   type ScriptSection,
+  type ScriptRevisionSource,
   type StyleOptions,
   type EnhancementPreset,
   type EnhancementStatus,
   initialWizardState,
   WIZARD_VALIDATION,
 } from "./types";
+import {
+  DRAFT_AUTOSAVE_DELAY_MS,
+  hasDraftableContent,
+  serializeWizardState,
+} from "./drafts";
+import { createHistoryState, withHistory } from "./history";
+import { recordScriptRevision } from "./script-history";
 
 /**
  * Wizard reducer - handles all state transitions for the wizard.
@@ -169,17 +181,32 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       return {
         ...state,
         scriptSections: action.payload,
+        scriptHistory: recordScriptRevision(
+          state.scriptHistory,
+          state.scriptSections,
+          action.payload,
+          action.revision
+        ),
         error: null,
       };
 
-    case "UPDATE_SCRIPT_SECTION":
+    case "UPDATE_SCRIPT_SECTION": {
+      const scriptSections = state.scriptSections.map((section) =>
+        section.id === action.payload.id ? action.payload : section
+      );
       return {
         ...state,
-        scriptSections: state.scriptSections.map((section) =>
-          section.id === action.payload.id ? action.payload : section
+        scriptSections,
+        scriptHistory: recordScriptRevision(
+          state.scriptHistory,
+          state.scriptSections,
+          scriptSections,
+          action.revision,
+          action.payload.type
         ),
         error: null,
       };
+    }
 
     case "SET_STYLE_OPTIONS":
       return {
@@ -188,6 +215,12 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
         error: null,
       };
 
+    case "SET_FAIR_HOUSING_OVERRIDE":
+      return {
+        ...state,
+        fairHousingOverride: action.payload,
+      };
+
     case "SET_SUBMITTING":
       return {
         ...state,
@@ -201,6 +234,13 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
         isSubmitting: false,
       };
 
+    case "HYDRATE":
+      return {
+        ...action.payload,
+        isSubmitting: false,
+        error: null,
+      };
+
     case "RESET":
       return initialWizardState;
 
@@ -209,11 +249,28 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
   }
 }
 
+/**
+ * Reducer with undo/redo support for data actions.
+ */
+const historyReducer = withHistory(wizardReducer);
+
+/**
+ * Autosave status for the current draft.
+ */
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
 /**
  * Context value type with state and action dispatchers.
  */
 interface WizardContextValue {
   state: WizardState;
+  // Draft persistence
+  draftId: string | null;
+  draftStatus: DraftSaveStatus;
+  loadDraft: (draftId: string) => Promise<boolean>;
+  discardDraft: () => Promise<void>;
+  /** Replace the session with a prefilled state (detached from any draft) */
+  hydrate: (state: WizardState) => void;
   // Navigation actions
   nextStep: () => void;
   prevStep: () => void;
@@ -227,9 +284,20 @@ interface WizardContextValue {
   setEnhancementStatus: (imageId: string, status: EnhancementStatus) => void;
   setEnhancedUrl: (imageId: string, preset: Exclude<EnhancementPreset, "original">, enhancedUrl: string) => void;
   revertEnhancement: (imageId: string) => void;
-  updateScript: (sections: ScriptSection[]) => void;
-  updateScriptSection: (section: ScriptSection) => void;
+  /** Replace the script; recorded in scriptHistory as `source` (default: generated) */
+  updateScript: (sections: ScriptSection[], source?: ScriptRevisionSource) => void;
+  /** Update one section; recorded in scriptHistory as `source` (default: edited) */
+  updateScriptSection: (section: ScriptSection, source?: ScriptRevisionSource) => void;
   setStyleOptions: (options: Partial<StyleOptions>) => void;
+  /** Confirm the current blocking Fair Housing phrases (empty clears the override) */
+  setFairHousingOverride: (phrases: string[]) => void;
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Changes whenever state is replaced wholesale (undo/redo/draft load) */
+  historyRevision: number;
   // Utility actions
   setSubmitting: (isSubmitting: boolean) => void;
   setError: (error: string | null) => void;
@@ -245,7 +313,21 @@ const WizardContext = createContext<WizardContextValue | null>(null);
  * WizardProvider - Wraps the wizard with context and state management.
  */
 export function WizardProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(wizardReducer, initialWizardState);
+  const [history, dispatch] = useReducer(
+    historyReducer,
+    initialWizardState,
+    createHistoryState
+  );
+  const state = history.present;
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftStatus, setDraftStatus] = useState<DraftSaveStatus>("idle");
+  // Refs mirror draft bookkeeping for the debounced autosave closure
+  const draftIdRef = useRef<string | null>(null);
+  const skipNextSaveRef = useRef(false);
+  const autosaveEnabledRef = useRef(true);
+  // Saves run one at a time, so a save queued behind a slow first create
+  // PATCHes the draft it made instead of POSTing a second one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   // Navigation actions
   const nextStep = useCallback(() => dispatch({ type: "NEXT_STEP" }), []);
@@ -308,13 +390,21 @@ export function WizardProvider({ children }: { children: ReactNode }) {
     []
   );
   const updateScript = useCallback(
-    (sections: ScriptSection[]) =>
-      dispatch({ type: "UPDATE_SCRIPT", payload: sections }),
+    (sections: ScriptSection[], source: ScriptRevisionSource = "generated") =>
+      dispatch({
+        type: "UPDATE_SCRIPT",
+        payload: sections,
+        revision: { id: nanoid(), createdAt: new Date().toISOString(), source },
+      }),
     []
   );
   const updateScriptSection = useCallback(
-    (section: ScriptSection) =>
-      dispatch({ type: "UPDATE_SCRIPT_SECTION", payload: section }),
+    (section: ScriptSection, source: ScriptRevisionSource = "edited") =>
+      dispatch({
+        type: "UPDATE_SCRIPT_SECTION",
+        payload: section,
+        revision: { id: nanoid(), createdAt: new Date().toISOString(), source },
+      }),
     []
   );
   const setStyleOptions = useCallback(
@@ -323,6 +413,16 @@ export function WizardProvider({ children }: { children: ReactNode }) {
     []
   );
 
+  const setFairHousingOverride = useCallback(
+    (phrases: string[]) =>
+      dispatch({ type: "SET_FAIR_HOUSING_OVERRIDE", payload: phrases }),
+    []
+  );
+
+  // History actions
+  const undo = useCallback(() => dispatch({ type: "UNDO" }), []);
+  const redo = useCallback(() => dispatch({ type: "REDO" }), []);
+
   // Utility actions
   const setSubmitting = useCallback(
     (isSubmitting: boolean) =>
@@ -335,6 +435,108 @@ export function WizardProvider({ children }: { children: ReactNode }) {
   );
   const reset = useCallback(() => dispatch({ type: "RESET" }), []);
 
+  // Draft persistence
+  const assignDraftId = useCallback((id: string | null) => {
+    draftIdRef.current = id;
+    setDraftId(id);
+  }, []);
+
+  const loadDraft = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        const response = await fetch(`/api/drafts/${id}`);
+        if (!response.ok) {
+          throw new Error("Draft not found");
+        }
+        const data = await response.json();
+        // Loading a draft shouldn't immediately write it back
+        skipNextSaveRef.current = true;
+        autosaveEnabledRef.current = true;
+        dispatch({ type: "HYDRATE", payload: data.state as WizardState });
+        assignDraftId(data.id);
+        setDraftStatus("saved");
+        return true;
+      } catch (error) {
+        console.error("Failed to load draft:", error);
+        return false;
+      }
+    },
+    [assignDraftId]
+  );
+
+  const hydrate = useCallback(
+    (nextState: WizardState) => {
+      // A prefilled session starts a new draft on its first edit
+      skipNextSaveRef.current = true;
+      autosaveEnabledRef.current = true;
+      assignDraftId(null);
+      setDraftStatus("idle");
+      dispatch({ type: "HYDRATE", payload: nextState });
+    },
+    [assignDraftId]
+  );
+
+  const discardDraft = useCallback(async () => {
+    // Stop autosave first so a pending save can't recreate the draft
+    autosaveEnabledRef.current = false;
+    const id = draftIdRef.current;
+    assignDraftId(null);
+    setDraftStatus("idle");
+    if (!id) return;
+    const url = new URL(window.location.href);
+    url.searchParams.delete("draft");
+    window.history.replaceState(null, "", url.toString());
+    try {
+      await fetch(`/api/drafts/${id}`, { method: "DELETE" });
+    } catch (error) {
+      console.error("Failed to delete draft:", error);
+    }
+  }, [assignDraftId]);
+
+  // Autosave: debounce reducer actions into a single create/update request
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    if (!autosaveEnabledRef.current || state.isSubmitting) return;
+    if (!hasDraftableContent(state)) return;
+
+    const timeout = setTimeout(() => {
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        if (!autosaveEnabledRef.current) return;
+        setDraftStatus("saving");
+        try {
+          const id = draftIdRef.current;
+          const response = await fetch(id ? `/api/drafts/${id}` : "/api/drafts", {
+            method: id ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ state: serializeWizardState(state) }),
+          });
+          if (!response.ok) {
+            throw new Error(`Draft save failed: ${response.status}`);
+          }
+          const data = await response.json();
+          if (!id) {
+            assignDraftId(data.id);
+            // Keep the URL resumable after a refresh (replaces ?template= etc.)
+            window.history.replaceState(
+              null,
+              "",
+              `${window.location.pathname}?draft=${data.id}`
+            );
+          }
+          setDraftStatus("saved");
+        } catch (error) {
+          console.error("Draft autosave error:", error);
+          setDraftStatus("error");
+        }
+      });
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [state, assignDraftId]);
+
   // Validation helpers
   const isStepComplete = useCallback(
     (step: WizardStep): boolean => {
@@ -368,6 +570,11 @@ export function WizardProvider({ children }: { children: ReactNode }) {
 
   const value: WizardContextValue = {
     state,
+    draftId,
+    draftStatus,
+    loadDraft,
+    discardDraft,
+    hydrate,
     nextStep,
     prevStep,
     goToStep,
@@ -382,6 +589,12 @@ export function WizardProvider({ children }: { children: ReactNode }) {
     updateScript,
     updateScriptSection,
     setStyleOptions,
+    setFairHousingOverride,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    historyRevision: history.revision,
     setSubmitting,
     setError,
     reset,
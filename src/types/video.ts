@@ -3,6 +3,8 @@
  * Mirrors videos table schema from Supabase.
  */
 
+import type { AspectRatio } from '@/lib/wizard/types';
+
 export type VideoStatus =
   | 'pending'
   | 'processing'
@@ -13,6 +15,11 @@ export type VideoStatus =
   | 'completed'
   | 'failed';
 
+/**
+ * Rendered video URL per aspect ratio (videos.outputs).
+ */
+export type VideoOutputs = Partial<Record<AspectRatio, string>>;
+
 export interface Video {
   id: string;
   listing_id: string;
@@ -24,6 +31,10 @@ export interface Video {
   duration_seconds: number | null;
   error_message: string | null;
   created_at: string;
+  version: number;
+  parent_video_id: string | null;
+  outputs: VideoOutputs;
+  language: string;
 }
 
 export interface VideoWithListing extends Video {
@@ -0,0 +1,54 @@
+-- =====================================================
+-- Migration 011: Wizard Drafts
+-- =====================================================
+-- Server-side persistence for in-progress wizard sessions.
+-- The serialized WizardState is autosaved as the user works so a
+-- draft can be resumed from the dashboard on any device.
+
+CREATE TABLE IF NOT EXISTS wizard_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for dashboard listing (most recently edited first)
+CREATE INDEX IF NOT EXISTS idx_wizard_drafts_user_updated
+  ON wizard_drafts(user_id, updated_at DESC);
+
+-- Auto-update timestamp trigger
+CREATE TRIGGER update_wizard_drafts_updated_at
+  BEFORE UPDATE ON wizard_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN wizard_drafts.title IS 'Display title for the dashboard (usually the property address)';
+COMMENT ON COLUMN wizard_drafts.current_step IS 'WizardStep the user was on when the draft was last saved';
+COMMENT ON COLUMN wizard_drafts.state IS 'Serialized WizardState (transient fields stripped)';
+
+-- =====================================================
+-- WIZARD DRAFTS POLICIES
+-- =====================================================
+-- Users have full CRUD on their own drafts
+
+ALTER TABLE wizard_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own drafts"
+  ON wizard_drafts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own drafts"
+  ON wizard_drafts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own drafts"
+  ON wizard_drafts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own drafts"
+  ON wizard_drafts FOR DELETE
+  USING (auth.uid() = user_id);
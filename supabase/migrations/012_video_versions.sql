@@ -0,0 +1,20 @@
+-- =====================================================
+-- Migration 012: Video Version Chain
+-- =====================================================
+-- Revisions re-render an existing listing with an edited script, voice
+-- or music. Each revision is a new videos row on the same listing that
+-- points back at the video it was revised from.
+
+-- Video this render was revised from (NULL for the original render)
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS parent_video_id UUID
+  REFERENCES videos(id) ON DELETE SET NULL;
+
+-- 1-based version number within the listing (v1, v2, v3...)
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Index for walking the chain and computing the next version per listing
+CREATE INDEX IF NOT EXISTS idx_videos_parent_video_id ON videos(parent_video_id);
+CREATE INDEX IF NOT EXISTS idx_videos_listing_version ON videos(listing_id, version);
+
+COMMENT ON COLUMN videos.parent_video_id IS 'Video this render was revised from (NULL for the original)';
+COMMENT ON COLUMN videos.version IS 'Version number within the listing, starting at 1';
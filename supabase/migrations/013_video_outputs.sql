@@ -0,0 +1,11 @@
+-- =====================================================
+-- Migration 013: Per-Aspect-Ratio Video Outputs
+-- =====================================================
+-- Videos can be exported for social in vertical (9:16) and square (1:1)
+-- alongside the landscape render. Each finished format is stored here,
+-- keyed by ratio: {"16:9": "https://...", "9:16": "https://..."}.
+-- branded_url stays the landscape render for existing readers.
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS outputs JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN videos.outputs IS 'Rendered video URL per aspect ratio, e.g. {"16:9": url, "9:16": url, "1:1": url}';
@@ -0,0 +1,12 @@
+-- =====================================================
+-- Migration 014: Narration Timings for Captions
+-- =====================================================
+-- Captions are timed from the script and the measured TTS duration of
+-- each section. The render pipeline records where each section's
+-- narration starts and how long it runs:
+-- [{"start": 0.5, "duration": 9.84}, {"start": 10.34, "duration": 11.2}, ...]
+-- NULL means timings weren't reported; captions fall back to estimates.
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS narration_timings JSONB;
+
+COMMENT ON COLUMN videos.narration_timings IS 'Start and measured duration (seconds) of each script section''s narration, in section order';
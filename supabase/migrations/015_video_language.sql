@@ -0,0 +1,14 @@
+-- =====================================================
+-- Migration 015: Narration Language
+-- =====================================================
+-- A listing can be narrated in several languages. Each language version
+-- is its own videos row on the same listing, sharing the version number
+-- of the render it was created from and pointing back at it through
+-- parent_video_id.
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+-- Index for finding the language versions of a listing
+CREATE INDEX IF NOT EXISTS idx_videos_listing_language ON videos(listing_id, language);
+
+COMMENT ON COLUMN videos.language IS 'Narration language (ISO 639-1), e.g. en, es, zh';
@@ -0,0 +1,129 @@
+-- =====================================================
+-- Migration 016: Pronunciation Lexicon
+-- =====================================================
+-- TTS mispronounces local street names, HOA names and brokerage brands.
+-- Users keep a dictionary of terms and how to say them (a phonetic
+-- respelling or an alias), applied to narration before it is sent to
+-- TTS. Entries belong to a user or to the user's team; personal entries
+-- win over team entries for the same term.
+--
+-- Teams follow the note in 002_rls_policies.sql: one team per profile
+-- via profiles.team_id. Team membership is managed with the service role.
+
+-- =====================================================
+-- TEAMS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS team_id UUID
+  REFERENCES teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_team_id ON profiles(team_id);
+
+-- Users can update their own profile, so guard team_id against self-service joins
+CREATE OR REPLACE FUNCTION prevent_profile_team_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.team_id IS DISTINCT FROM OLD.team_id AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'team_id can only be changed by an administrator';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_profile_team_change
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_profile_team_change();
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read own team"
+  ON teams FOR SELECT
+  USING (id = (SELECT team_id FROM profiles WHERE id = auth.uid()));
+
+-- =====================================================
+-- PRONUNCIATION ENTRIES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS pronunciation_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  term TEXT NOT NULL CHECK (char_length(term) BETWEEN 1 AND 100),
+  replacement TEXT NOT NULL CHECK (char_length(replacement) BETWEEN 1 AND 200),
+  kind TEXT NOT NULL DEFAULT 'respelling' CHECK (kind IN ('respelling', 'alias')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Exactly one owner: a user or a team
+  CHECK ((user_id IS NULL) <> (team_id IS NULL))
+);
+
+-- One entry per term (case-insensitive) per owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pronunciation_entries_user_term
+  ON pronunciation_entries(user_id, lower(term)) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pronunciation_entries_team_term
+  ON pronunciation_entries(team_id, lower(term)) WHERE team_id IS NOT NULL;
+
+CREATE TRIGGER update_pronunciation_entries_updated_at
+  BEFORE UPDATE ON pronunciation_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN pronunciation_entries.term IS 'Text as written in the script, matched case-insensitively on word boundaries';
+COMMENT ON COLUMN pronunciation_entries.replacement IS 'What TTS should read instead';
+COMMENT ON COLUMN pronunciation_entries.kind IS 'respelling (phonetic, e.g. "tuh-HOE") or alias (different wording, e.g. "H O A")';
+
+-- =====================================================
+-- ELEVENLABS SYNC
+-- =====================================================
+-- The merged lexicon can be mirrored as an ElevenLabs pronunciation
+-- dictionary; the render passes its locator to TTS.
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS elevenlabs_dictionary_id TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS elevenlabs_dictionary_version_id TEXT;
+
+-- =====================================================
+-- PRONUNCIATION ENTRIES POLICIES
+-- =====================================================
+-- Users have full CRUD on their own entries and their team's entries
+
+ALTER TABLE pronunciation_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own and team entries"
+  ON pronunciation_entries FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can create own and team entries"
+  ON pronunciation_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own and team entries"
+  ON pronunciation_entries FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid())
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own and team entries"
+  ON pronunciation_entries FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR team_id = (SELECT team_id FROM profiles WHERE id = auth.uid())
+  );
@@ -0,0 +1,65 @@
+-- =====================================================
+-- Migration 017: Voice Speaking-Rate Calibration
+-- =====================================================
+-- Script word budgets and the payload's estimatedNarrationDuration
+-- assumed a fixed speaking rate, but real ElevenLabs voices differ. Each
+-- measured TTS clip (narration previews, and render audio reported to
+-- /api/audio/duration) is recorded as a sample; voice_speaking_rates
+-- turns the most recent samples into a per-voice, per-language rate.
+
+-- =====================================================
+-- SPEECH SAMPLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS voice_speech_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voice_id TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  word_count INTEGER NOT NULL CHECK (word_count > 0),
+  duration_seconds NUMERIC(8, 3) NOT NULL CHECK (duration_seconds > 0),
+  source TEXT NOT NULL CHECK (source IN ('preview', 'render')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_speech_samples_voice
+  ON voice_speech_samples(voice_id, language, created_at DESC);
+
+COMMENT ON COLUMN voice_speech_samples.word_count IS 'Script length in the language''s budget unit (words, or characters for Mandarin)';
+
+-- =====================================================
+-- SPEAKING RATES
+-- =====================================================
+-- Rate over the 50 most recent samples per voice and language, weighted
+-- by length (total words / total seconds) so short clips don't dominate.
+
+CREATE OR REPLACE VIEW voice_speaking_rates
+WITH (security_invoker = true) AS
+SELECT
+  voice_id,
+  language,
+  COUNT(*)::INTEGER AS sample_count,
+  ROUND(SUM(word_count) * 60.0 / SUM(duration_seconds), 1) AS words_per_minute
+FROM (
+  SELECT
+    voice_id,
+    language,
+    word_count,
+    duration_seconds,
+    ROW_NUMBER() OVER (PARTITION BY voice_id, language ORDER BY created_at DESC) AS recency
+  FROM voice_speech_samples
+) recent
+WHERE recency <= 50
+GROUP BY voice_id, language;
+
+-- =====================================================
+-- POLICIES
+-- =====================================================
+-- Samples hold no script text. Any signed-in user can read rates;
+-- samples are only written server-side with the service role.
+
+ALTER TABLE voice_speech_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read speech samples"
+  ON voice_speech_samples FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,53 @@
+-- =====================================================
+-- Migration 018: Section Templates
+-- =====================================================
+-- The script is written in six fixed sections (opening, outdoor, living,
+-- private, amenities, closing), which don't fit land, condos or
+-- commercial listings. Users save their own tour structures: an ordered
+-- list of sections, each with the room types whose images it narrates.
+-- The chosen template is copied into the wizard state, so editing or
+-- deleting a template never changes a draft or a rendered video.
+
+CREATE TABLE IF NOT EXISTS section_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  sections JSONB NOT NULL CHECK (jsonb_typeof(sections) = 'array'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One template per name (case-insensitive) per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_section_templates_user_name
+  ON section_templates(user_id, lower(name));
+
+CREATE TRIGGER update_section_templates_updated_at
+  BEFORE UPDATE ON section_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN section_templates.sections IS 'Ordered [{type, title, roomTypes, approach?}]; first is the opening, last the closing (validated by the API)';
+
+-- =====================================================
+-- SECTION TEMPLATES POLICIES
+-- =====================================================
+-- Users have full CRUD on their own templates
+
+ALTER TABLE section_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own section templates"
+  ON section_templates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own section templates"
+  ON section_templates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own section templates"
+  ON section_templates FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own section templates"
+  ON section_templates FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- =====================================================
+-- Migration 019: Fair Housing Override
+-- =====================================================
+-- High-severity Fair Housing phrases block submission unless the user
+-- confirms they want to keep them. The confirmed phrases are recorded on
+-- the video so a flagged render can be traced back to that decision.
+-- NULL means the script had nothing to override.
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS fair_housing_override TEXT[];
+
+COMMENT ON COLUMN videos.fair_housing_override IS 'High-severity Fair Housing phrases the user confirmed at submission (lowercased), NULL when none were flagged';
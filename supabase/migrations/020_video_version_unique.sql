@@ -0,0 +1,15 @@
+-- =====================================================
+-- Migration 020: Unique Video Versions
+-- =====================================================
+-- The next version number is read from the listing before the new video is
+-- inserted, so two revisions submitted together could both claim it. The
+-- constraint makes the second insert fail; /api/listings/create retries it
+-- with the next free number. Language versions share their source's
+-- version, so the language is part of the key.
+
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_listing_version_language_key;
+ALTER TABLE videos ADD CONSTRAINT videos_listing_version_language_key
+  UNIQUE (listing_id, version, language);
+
+-- Covered by the constraint's index
+DROP INDEX IF EXISTS idx_videos_listing_version;
@@ -0,0 +1,27 @@
+-- =====================================================
+-- Migration 021: Speaking Rates From Renders Only
+-- =====================================================
+-- Previews are single sections that users replay and re-synthesize while
+-- editing, so a few minutes in the Style step could fill the 50-sample
+-- window and push out the full narrations actually rendered. Previews are
+-- still recorded (source = 'preview') but no longer feed the rate.
+
+CREATE OR REPLACE VIEW voice_speaking_rates
+WITH (security_invoker = true) AS
+SELECT
+  voice_id,
+  language,
+  COUNT(*)::INTEGER AS sample_count,
+  ROUND(SUM(word_count) * 60.0 / SUM(duration_seconds), 1) AS words_per_minute
+FROM (
+  SELECT
+    voice_id,
+    language,
+    word_count,
+    duration_seconds,
+    ROW_NUMBER() OVER (PARTITION BY voice_id, language ORDER BY created_at DESC) AS recency
+  FROM voice_speech_samples
+  WHERE source = 'render'
+) recent
+WHERE recency <= 50
+GROUP BY voice_id, language;
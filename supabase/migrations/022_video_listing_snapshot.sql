@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 022: Listing Snapshot Per Video
+-- =====================================================
+-- Revisions and language versions share their parent's listings row, which
+-- each new version updates with its own details and images. Every video now
+-- keeps the listing fields it rendered, so prefilling an earlier version
+-- restores what that version showed rather than the newest edits.
+-- NULL for videos created before this migration (prefill falls back to the
+-- listings row).
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS listing_snapshot JSONB;
+
+COMMENT ON COLUMN videos.listing_snapshot IS 'Listing fields (address, facts, images) as this video rendered them';
@@ -0,0 +1,11 @@
+-- =====================================================
+-- Migration 023: Drop ElevenLabs Dictionary Sync
+-- =====================================================
+-- The pronunciation lexicon is applied to the narration text before TTS.
+-- Also passing a synced ElevenLabs dictionary applied every entry a second
+-- time (a respelling could be respelled again), and a stale dictionary
+-- version kept old pronunciations after edits. Text replacement is now the
+-- only mechanism, so the stored dictionary references go.
+
+ALTER TABLE profiles DROP COLUMN IF EXISTS elevenlabs_dictionary_id;
+ALTER TABLE profiles DROP COLUMN IF EXISTS elevenlabs_dictionary_version_id;